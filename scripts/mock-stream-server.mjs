@@ -0,0 +1,218 @@
+/**
+ * Local mock of the `/interaction/` stream endpoints for testing reconnect & resume.
+ *
+ * Streams a canned gamemaster answer as NDJSON (or as Server-Sent Events for the `sse`
+ * transport) and deliberately kills the connection every few events, so the client
+ * has to reconnect with `resume_offset`.
+ *
+ * Usage:
+ *   node scripts/mock-stream-server.mjs
+ *   VITE_BACKEND_URL=http://localhost:8000 VITE_USE_FIREBASE=false npx vite
+ *   (add VITE_STREAM_TRANSPORT=sse to test the SSE transport; WebSockets are not mocked)
+ *
+ * Environment:
+ *   MOCK_PORT         Port to listen on (default 8000).
+ *   MOCK_DROP_AFTER   Events sent per connection before it is dropped (default 12).
+ *   MOCK_MAX_DROPS    Drops per request id before the stream is allowed to finish (default 3).
+ *   MOCK_RESUME_MODE  "continue" resumes at the client's offsets, "replay" restarts at 0.
+ */
+
+import http from "node:http";
+
+const PORT = Number(process.env.MOCK_PORT ?? 8000);
+const DROP_AFTER = Number(process.env.MOCK_DROP_AFTER ?? 12);
+const MAX_DROPS = Number(process.env.MOCK_MAX_DROPS ?? 3);
+const RESUME_MODE = process.env.MOCK_RESUME_MODE ?? "continue";
+const EVENT_DELAY_MS = 60;
+
+const THINKING =
+  "The runner is at the docks. Keep the tension up, introduce the fixer's contact, hint at the ambush.";
+const ANSWER =
+  "Rain drums on the corrugated roofs of the Redmond docks. Between two rusting containers you spot her: " +
+  'a slim elf in a neon-green jacket, the contact Mr. Johnson promised. "You\'re late, chummer," she says, ' +
+  'flicking her cigarette into a puddle. "The meet moved. Warehouse 17, midnight. Come alone — and 🐉 ' +
+  'watch the rooftops."\n\nWhat do you do?';
+
+/** Drops per request id, so a resumed stream eventually completes. */
+const dropsByRequest = new Map();
+/** Request ids stopped via `/interaction/stop-generation`. */
+const stoppedRequests = new Set();
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Splits text into word-sized pieces, counting offsets in Unicode code points. */
+function pieces(text, offset) {
+  const rest = Array.from(text).slice(offset).join("");
+  return rest.match(/\S+\s*|\s+/gu) ?? [];
+}
+
+function setCors(res) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+}
+
+async function readJson(req) {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body ? JSON.parse(body) : {};
+}
+
+/** Prompt payloads of started SSE streams, by stream id. */
+const pendingStreams = new Map();
+
+/** Builds the events answering a prompt payload, honouring its resume offsets. */
+function buildEvents(payload) {
+  const requestId = payload.request_id ?? "anonymous";
+  const resuming = payload.resume_offset !== undefined;
+  const replay = resuming && RESUME_MODE === "replay";
+  const textOffset = replay ? 0 : (payload.resume_offset ?? 0);
+  const thinkingOffset = replay ? 0 : (payload.resume_thinking_offset ?? 0);
+
+  console.log(
+    `[send] ${requestId} ${resuming ? `resume text@${textOffset} thinking@${thinkingOffset}` : "new"}`,
+  );
+
+  const lines = [];
+  if (resuming) {
+    lines.push({
+      type: "resume",
+      offset: textOffset,
+      thinking_offset: thinkingOffset,
+    });
+  }
+  // Once the answer has started, the reasoning is complete
+  if (textOffset === 0) {
+    for (const content of pieces(THINKING, thinkingOffset)) {
+      lines.push({ type: "thinking", content });
+    }
+  }
+  for (const content of pieces(ANSWER, textOffset)) {
+    lines.push({ type: "text", content });
+  }
+  return lines;
+}
+
+/**
+ * Writes `lines` with the given framing, dropping the connection after DROP_AFTER
+ * events until the request id has used up its MAX_DROPS.
+ */
+async function writeEvents(res, requestId, lines, frame) {
+  const drops = dropsByRequest.get(requestId) ?? 0;
+  const dropAt = drops < MAX_DROPS ? DROP_AFTER : Infinity;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (stoppedRequests.has(requestId) || res.destroyed) break;
+    if (i === dropAt) {
+      dropsByRequest.set(requestId, drops + 1);
+      console.log(
+        `[send] ${requestId} dropping connection (${drops + 1}/${MAX_DROPS})`,
+      );
+      res.socket?.destroy();
+      return false;
+    }
+    // Split each event in two writes to exercise the client's chunk reassembly
+    const text = frame(lines[i]);
+    const cut = Math.floor(text.length / 2);
+    res.write(text.slice(0, cut));
+    await sleep(EVENT_DELAY_MS / 2);
+    res.write(text.slice(cut));
+    await sleep(EVENT_DELAY_MS / 2);
+  }
+  dropsByRequest.delete(requestId);
+  return true;
+}
+
+async function handleSend(req, res) {
+  const payload = await readJson(req);
+  const lines = buildEvents(payload);
+  res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+  const requestId = payload.request_id ?? "anonymous";
+  if (
+    await writeEvents(
+      res,
+      requestId,
+      lines,
+      (line) => JSON.stringify(line) + "\n",
+    )
+  ) {
+    res.end();
+  }
+}
+
+async function handleStart(req, res) {
+  const payload = await readJson(req);
+  const streamId = `${payload.request_id ?? "anonymous"}-${Date.now()}`;
+  pendingStreams.set(streamId, payload);
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ stream_id: streamId }));
+}
+
+async function handleEvents(req, res, streamId) {
+  const payload = pendingStreams.get(streamId);
+  if (!payload) {
+    res.writeHead(404).end();
+    return;
+  }
+  pendingStreams.delete(streamId);
+  const lines = buildEvents(payload);
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+  });
+  const frame = (line) => `data: ${JSON.stringify(line)}\n\n`;
+  if (await writeEvents(res, payload.request_id ?? "anonymous", lines, frame)) {
+    res.end(frame({ type: "done" }));
+  }
+}
+
+async function handleStop(req, res) {
+  const payload = await readJson(req);
+  console.log(`[stop] ${payload.request_id}`);
+  if (payload.request_id) stoppedRequests.add(payload.request_id);
+  res.writeHead(204).end();
+}
+
+const server = http.createServer(async (req, res) => {
+  setCors(res);
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+  try {
+    if (req.method === "POST" && req.url === "/interaction/gamemaster-send") {
+      await handleSend(req, res);
+    } else if (
+      req.method === "POST" &&
+      req.url === "/interaction/gamemaster-start"
+    ) {
+      await handleStart(req, res);
+    } else if (
+      req.method === "GET" &&
+      req.url?.startsWith("/interaction/gamemaster-events/")
+    ) {
+      const streamId = decodeURIComponent(
+        req.url.slice("/interaction/gamemaster-events/".length).split("?")[0],
+      );
+      await handleEvents(req, res, streamId);
+    } else if (
+      req.method === "POST" &&
+      req.url === "/interaction/stop-generation"
+    ) {
+      await handleStop(req, res);
+    } else {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ detail: "Not handled by the mock server" }));
+    }
+  } catch (err) {
+    console.error(err);
+    if (!res.headersSent) res.writeHead(500);
+    res.end();
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(
+    `Mock stream server on http://localhost:${PORT} (drop after ${DROP_AFTER} events, ${MAX_DROPS} drops, ${RESUME_MODE} mode)`,
+  );
+});
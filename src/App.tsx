@@ -1,4 +1,11 @@
-import React, { useRef, useEffect, useMemo, useCallback } from "react";
+import React, {
+  Profiler,
+  ProfilerOnRenderCallback,
+  useRef,
+  useEffect,
+  useMemo,
+  useCallback,
+} from "react";
 import { ThemeProvider, Box, Button } from "@mui/material";
 import CssBaseline from "@mui/material/CssBaseline";
 import { getThemeForGameType } from "./theme";
@@ -14,15 +21,31 @@ import History from "./components/History";
 
 import { MissionMenu } from "./components/MissionMenu";
 import { CharacterManager } from "./components/CharacterCard";
-import { getMission } from "./functions/restInterface";
+import backend from "./functions/backend";
 import { GameType } from "./models/Types";
 
 import { useMissionControlCallbacks } from "./hooks/missionControlCallbacks";
 import useAppStore from "./stores/appStore";
+import useHistoryStore from "./stores/historyStore";
+import useCharacterStore from "./stores/characterStore";
+import { deleteCachedMission } from "./functions/missionCache";
+import { startTabSync } from "./functions/tabSync";
 import Login from "./components/Login";
+import QuarantineBanner from "./components/QuarantineBanner";
 import { useFirebaseAuth } from "./hooks/useFirebaseAuth";
 
 const USE_FIREBASE = import.meta.env.VITE_USE_FIREBASE !== "false";
+const PROFILE_RENDERS = import.meta.env.VITE_PROFILE_RENDERS === "true";
+
+/**
+ * Logs how long rendering took, e.g. to compare long histories. Timings are only
+ * recorded in development builds.
+ */
+const logRenderTime: ProfilerOnRenderCallback = (id, phase, actualDuration) => {
+  if (PROFILE_RENDERS) {
+    console.debug(`${id} ${phase}: ${actualDuration.toFixed(1)} ms`);
+  }
+};
 
 const App: React.FC = () => {
   console.log("App component rendered");
@@ -35,15 +58,31 @@ const App: React.FC = () => {
 
   const isFirstRender = useRef(true);
 
+  // Keep other tabs on the same mission in sync
+  useEffect(() => startTabSync(), []);
+
   // Initial mission validation on first render
   useEffect(() => {
     if (isFirstRender.current) {
       if (mission !== null) {
-        getMission(mission)
+        backend
+          .getMission(mission)
           .then((result) => {
             if (result === null) {
               reset();
+              useCharacterStore.getState().openRoster(null);
+              // Drop the local copy of the deleted mission as well
+              void useHistoryStore.getState().openMission(null);
+              deleteCachedMission(mission).catch(() => {});
+              return;
             }
+            // The roster may have changed elsewhere since this tab stored it
+            useCharacterStore.getState().openRoster(mission);
+            return backend
+              .listCharacters(mission)
+              .then((characters) =>
+                useCharacterStore.getState().replaceRoster(mission, characters),
+              );
           })
           .catch(() => {});
       }
@@ -56,6 +95,7 @@ const App: React.FC = () => {
     sendNewMissionGenerate,
     saveMission,
     listMissions,
+    searchMissions,
     loadMission,
     getMissionData,
   } = useMissionControlCallbacks();
@@ -112,6 +152,7 @@ const App: React.FC = () => {
           </Button>
         </Box>
         <ImageContainer src={currentTheme.logo} />
+        <QuarantineBanner />
         <Box
           sx={{
             flexGrow: 1,
@@ -131,6 +172,7 @@ const App: React.FC = () => {
                 newCallback={handleNewMission}
                 saveCallback={saveMission}
                 listCallback={listMissions}
+                searchCallback={searchMissions}
                 loadCallback={loadMission}
                 getMissionData={getMissionData}
               />
@@ -158,7 +200,9 @@ const App: React.FC = () => {
               >
                 <AdventureHeading>{adventure}</AdventureHeading>
                 {/* History now uses context for state management */}
-                <History mission={mission} disabled={mission === null} />
+                <Profiler id="History" onRender={logRenderTime}>
+                  <History mission={mission} disabled={mission === null} />
+                </Profiler>
               </AppGrid>
             </AppGrid>
           </SplitScreen>
@@ -0,0 +1,69 @@
+import { Box, IconButton, Typography } from "@mui/material";
+import ChevronLeftIcon from "@mui/icons-material/ChevronLeft";
+import ChevronRightIcon from "@mui/icons-material/ChevronRight";
+
+import { Colors } from "../styles/styles";
+
+/**
+ * Props for the BranchPager component.
+ */
+type BranchPagerProps = {
+  /** Ids of all alternatives of the exchange, in creation order. */
+  siblingIds: string[];
+  /** Id of the alternative currently shown. */
+  activeId: string;
+  /** Called with the id of the alternative to show. */
+  onSelect: (nodeId: string) => void;
+  /** The color theme of the pager. */
+  color: Colors;
+  /** Optional flag to disable switching, e.g. while a generation is running. */
+  disabled?: boolean;
+};
+
+/**
+ * BranchPager pages through the alternatives of an exchange in the story tree ("2/4").
+ * It renders nothing if the exchange has no alternatives.
+ *
+ * @param props - The props for the component. See {@link BranchPagerProps}.
+ * @returns The BranchPager component.
+ */
+export default function BranchPager({
+  siblingIds,
+  activeId,
+  onSelect,
+  color,
+  disabled = false,
+}: BranchPagerProps) {
+  if (siblingIds.length < 2) return null;
+
+  const index = siblingIds.indexOf(activeId);
+
+  return (
+    <Box
+      sx={{ display: "inline-flex", alignItems: "center" }}
+      aria-label="Alternative answers"
+    >
+      <IconButton
+        size="small"
+        color={color}
+        disabled={disabled || index <= 0}
+        onClick={() => onSelect(siblingIds[index - 1])}
+        aria-label="Previous alternative"
+      >
+        <ChevronLeftIcon fontSize="small" />
+      </IconButton>
+      <Typography variant="caption" color={color}>
+        {index + 1}/{siblingIds.length}
+      </Typography>
+      <IconButton
+        size="small"
+        color={color}
+        disabled={disabled || index >= siblingIds.length - 1}
+        onClick={() => onSelect(siblingIds[index + 1])}
+        aria-label="Next alternative"
+      >
+        <ChevronRightIcon fontSize="small" />
+      </IconButton>
+    </Box>
+  );
+}
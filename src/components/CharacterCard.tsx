@@ -1,4 +1,4 @@
-import React, { useCallback, useState } from "react";
+import React, { useCallback, useMemo, useRef, useState } from "react";
 import {
   Box,
   Button,
@@ -8,6 +8,8 @@ import {
   Grid,
   Accordion,
   AccordionSummary,
+  Chip,
+  ThemeProvider,
 } from "@mui/material";
 import {
   ActionButtonsBoxStyle,
@@ -16,14 +18,39 @@ import {
   CardBoxStyle,
   InfoBoxStyle,
   InfoInnerBoxStyle,
-  CyberwareBoxStyle,
+  ListBoxStyle,
   SkillsBoxStyle,
   DamageGridStyle,
   DamageComponentBoxStyle,
   getDamageColor,
   CreateDamageInputFieldStyle,
 } from "../styles/styles";
-import { CharacterProps } from "../models/CharacterProps";
+import {
+  CharacterDraft,
+  CharacterKind,
+  CharacterProps,
+  SheetTrack,
+  TrackMeaning,
+} from "../models/CharacterProps";
+import { getSheetSchemaForGameType } from "../models/CharacterSheets";
+import {
+  completeSheet,
+  newCharacterDraft,
+  parseSheetNumber,
+} from "../functions/characters";
+import {
+  CharacterFileError,
+  characterFileJson,
+  characterFileName,
+  characterSheetHtml,
+  parseCharacterFile,
+} from "../functions/characterFiles";
+import { getThemeForGameType } from "../theme";
+import useAppStore from "../stores/appStore";
+import { useCharacterRoster } from "../hooks/useCharacterRoster";
+import ConfirmDialog from "./ConfirmDialog";
+import NpcGenerationDialog from "./NpcGenerationDialog";
+import { CharacterSheetEditor } from "./CharacterSheetEditor";
 
 // =====================
 // Types
@@ -33,20 +60,83 @@ import { CharacterProps } from "../models/CharacterProps";
  * Props for the CharacterManager component.
  */
 interface CharacterManagerProps {
-  /** Optional callback function to be executed when NPCs are created. */
+  /** Optional callback function to be executed when a generated NPC is added. */
   onCreateNPCs?: () => void;
-  /** Optional callback function to be executed when characters are cleared. */
+  /** Optional callback function to be executed when the NPCs are cleared. */
   onClear?: () => void;
 }
 
+/**
+ * Props for the CharacterCard component: the character, and how to store its tracks.
+ */
+interface CharacterCardProps extends CharacterDraft {
+  /** Called when the current value of a track, e.g. damage, is changed. */
+  onTrackChange?: (track: string, current: number) => void;
+}
+
+/**
+ * Props for the TrackComponent.
+ */
+interface TrackComponentProps {
+  /** The label for the track (e.g., "Physical Damage"). */
+  label: string;
+  /** An object containing the current and maximum values. */
+  track: SheetTrack;
+  /** Whether the track fills with damage or runs out. */
+  meaning: TrackMeaning;
+  /** Called with the new current value; without it the value can't be changed. */
+  onChange?: (current: number) => void;
+}
+
+// =====================
+// Helpers
+// =====================
+
+/**
+ * Saves a character as a JSON file that can be imported into another mission.
+ * @param character - The character to export.
+ */
+function downloadCharacterFile(character: CharacterDraft) {
+  try {
+    const blob = new Blob([characterFileJson(character)], {
+      type: "application/json;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = characterFileName(character, "json");
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  } catch (e) {
+    console.error("Failed to export character:", e);
+  }
+}
+
+/**
+ * Opens the printable sheet of a character in a new window.
+ * @param character - The character to print.
+ * @returns Whether the window could be opened; pop-up blockers may prevent it.
+ */
+function openPrintableSheet(character: CharacterDraft): boolean {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return false;
+  printWindow.document.write(characterSheetHtml(character));
+  printWindow.document.close();
+  return true;
+}
+
 // =====================
 // Components
 // =====================
 
 /**
- * CharacterManager is a component that manages a list of characters.
- * It allows creating new NPCs and clearing the list of characters.
- * Characters are displayed in Accordians, with the CharacterCard component.
+ * CharacterManager shows the roster of the open mission: its party members and NPCs.
+ * Party members can be added, NPCs generated to fit the current scene (see
+ * {@link NpcGenerationDialog}), characters deleted and NPCs cleared all at once; every change is
+ * stored on the backend. Characters can also be exported to and imported from JSON files, and
+ * printed. Characters are displayed in Accordians, with the CharacterCard component.
  *
  * @param props - The props for the component. See {@link CharacterManagerProps}.
  * @returns The CharacterManager component.
@@ -55,50 +145,138 @@ export const CharacterManager: React.FC<CharacterManagerProps> = ({
   onCreateNPCs,
   onClear,
 }) => {
-  /** State variable for storing the list of characters. */
-  const [characters, setCharacters] = useState<Array<CharacterProps>>([]);
+  const {
+    missionId,
+    characters,
+    error,
+    createCharacter,
+    saveCharacter,
+    deleteCharacter,
+  } = useCharacterRoster();
+  const gameType = useAppStore((state) => state.gameType);
+  /** Whether the player is asked to confirm clearing the NPCs. */
+  const [confirmClear, setConfirmClear] = useState(false);
+  /** Whether the NPC generation dialog is open. */
+  const [generatingNpcs, setGeneratingNpcs] = useState(false);
+  /** The character whose sheet is in edit mode, if any. */
+  const [editingId, setEditingId] = useState<number | null>(null);
+  /** The characters whose accordion is open. */
+  const [expandedIds, setExpandedIds] = useState<number[]>([]);
+  /** Why the last import or print failed, if it did. */
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const disabled = missionId === null;
 
   /**
-   * Handles the creation of new NPCs.
-   * Adds a new character to the list and calls the onCreateNPCs callback.
+   * Opens the sheet of a character in edit mode.
+   * @param characterId - The character to edit.
    */
-  const handleCreateNPCs = useCallback(() => {
-    setCharacters((prevCharacters) => [
-      ...prevCharacters,
-      {
-        name: "New Character",
-        id: prevCharacters.length + 1,
-        race: "Human",
-        role: "Warrior",
-        description: "This is a new character",
-        attributes: {
-          Agility: 2,
-          Strength: 2,
-          Body: 3,
-          Intuition: 4,
-          Willpower: 5,
-        },
-        skills: { Weapon: 6, Gymnastics: 7 },
-        armor: 8,
-        weapon: "Sword",
-        cyberware: ["banana", "apple"],
-        damage: {
-          physical: { current: 9, max: 10 },
-          stun: { current: 11, max: 12 },
+  const startEditing = useCallback((characterId: number) => {
+    setEditingId(characterId);
+    setExpandedIds((ids) =>
+      ids.includes(characterId) ? ids : [...ids, characterId],
+    );
+  }, []);
+
+  /**
+   * Handles adding a generated NPC to the roster.
+   * Stores the NPC and calls the onCreateNPCs callback.
+   * @param npc - The NPC as generated and possibly edited.
+   * @returns Whether the NPC was stored.
+   */
+  const handleAddGeneratedNpc = useCallback(
+    async (npc: CharacterDraft) => {
+      const created = await createCharacter(npc);
+      if (created) onCreateNPCs?.();
+      return created !== null;
+    },
+    [createCharacter, onCreateNPCs],
+  );
+
+  const handleAddPartyMember = useCallback(async () => {
+    const created = await createCharacter(
+      newCharacterDraft(CharacterKind.PARTY, gameType),
+    );
+    if (created) startEditing(created.id);
+  }, [createCharacter, gameType, startEditing]);
+
+  /**
+   * Handles a character file picked for import.
+   * Checks the file, stores the character and shows its sheet; problems of the file are shown
+   * instead.
+   * @param event - The change event of the file input.
+   */
+  const handleImport = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      // Let the same file be picked again, e.g. after fixing it
+      event.target.value = "";
+      if (!file) return;
+      setFileError(null);
+      let draft: CharacterDraft;
+      try {
+        draft = parseCharacterFile(await file.text());
+      } catch (err) {
+        setFileError(
+          `${file.name} not imported: ` +
+            (err instanceof CharacterFileError
+              ? err.message
+              : "The file could not be read"),
+        );
+        console.error("Failed to import character:", err);
+        return;
+      }
+      const created = await createCharacter(draft);
+      if (created) setExpandedIds((ids) => [...ids, created.id]);
+    },
+    [createCharacter],
+  );
+
+  /**
+   * Handles printing the sheet of a character.
+   * @param character - The character to print.
+   */
+  const handlePrint = useCallback((character: CharacterProps) => {
+    setFileError(
+      openPrintableSheet(character)
+        ? null
+        : "Sheet not printed: allow pop-ups to open it",
+    );
+  }, []);
+
+  /**
+   * Stores a changed track value, like damage, right away, outside of edit mode.
+   * @param character - The character whose track changed.
+   * @param track - The key of the track.
+   * @param current - The new current value.
+   */
+  const handleTrackChange = useCallback(
+    (character: CharacterProps, track: string, current: number) => {
+      const { tracks } = character.sheet;
+      const previous = tracks[track] ?? { current, max: current };
+      void saveCharacter({
+        ...character,
+        sheet: {
+          ...character.sheet,
+          tracks: { ...tracks, [track]: { ...previous, current } },
         },
-      },
-    ]);
-    onCreateNPCs?.();
-  }, [onCreateNPCs]);
+      });
+    },
+    [saveCharacter],
+  );
 
   /**
-   * Handles clearing the list of characters.
-   * Clears the characters array and calls the onClear callback.
+   * Handles clearing the NPCs once confirmed; party members are kept.
+   * Deletes every NPC and calls the onClear callback.
    */
-  const handleClear = useCallback(() => {
-    setCharacters([]);
+  const handleClear = useCallback(async () => {
+    setConfirmClear(false);
+    const npcs = characters.filter(({ kind }) => kind === CharacterKind.NPC);
+    for (const npc of npcs) {
+      await deleteCharacter(npc.id);
+    }
     onClear?.();
-  }, [onClear]);
+  }, [characters, deleteCharacter, onClear]);
 
   return (
     <Grid container spacing={2}>
@@ -107,63 +285,161 @@ export const CharacterManager: React.FC<CharacterManagerProps> = ({
           <Button
             color="primary"
             sx={ActionButtonStyle()}
-            onClick={handleCreateNPCs}
+            onClick={handleAddPartyMember}
+            disabled={disabled}
+          >
+            Add Character
+          </Button>
+          <Button
+            color="primary"
+            sx={ActionButtonStyle()}
+            onClick={() => setGeneratingNpcs(true)}
+            disabled={disabled}
           >
             Create NPCs
           </Button>
           <Button
             color="primary"
             sx={ActionButtonStyle()}
-            onClick={handleClear}
+            onClick={() => setConfirmClear(true)}
+            disabled={
+              disabled ||
+              !characters.some(({ kind }) => kind === CharacterKind.NPC)
+            }
+          >
+            Clear NPCs
+          </Button>
+          <Button
+            color="primary"
+            sx={ActionButtonStyle()}
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
           >
-            Clear
+            Import Character
           </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            hidden
+            onChange={handleImport}
+          />
         </Box>
+        {error && (
+          <Typography color="error" variant="caption">
+            {error}
+          </Typography>
+        )}
+        {fileError && (
+          <Typography color="error" variant="caption">
+            {fileError}
+          </Typography>
+        )}
       </Grid>
       <Grid sx={AccordionGridStyle()}>
         {characters.map((character) => (
-          <Accordion key={character.id}>
+          <Accordion
+            key={character.id}
+            expanded={expandedIds.includes(character.id)}
+            onChange={(_event, expanded) =>
+              setExpandedIds((ids) =>
+                expanded
+                  ? [...ids, character.id]
+                  : ids.filter((id) => id !== character.id),
+              )
+            }
+          >
             <AccordionSummary
               aria-controls={`panel${character.id}-content`}
               id={`panel${character.id}-header`}
             >
               <Typography>{character.name}</Typography>
+              <Chip
+                size="small"
+                variant="outlined"
+                label={character.kind === CharacterKind.NPC ? "NPC" : "Party"}
+                sx={{ ml: 1 }}
+              />
             </AccordionSummary>
-            <CharacterCard {...character} />
+            {editingId === character.id ? (
+              <CharacterSheetEditor
+                character={character}
+                onSave={saveCharacter}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <CharacterCard
+                {...character}
+                onTrackChange={(track, current) =>
+                  handleTrackChange(character, track, current)
+                }
+              />
+            )}
+            <Box sx={ActionButtonsBoxStyle()}>
+              <Button
+                color="primary"
+                sx={ActionButtonStyle()}
+                onClick={() => startEditing(character.id)}
+                disabled={editingId === character.id}
+              >
+                Edit
+              </Button>
+              <Button
+                color="primary"
+                sx={ActionButtonStyle()}
+                onClick={() => downloadCharacterFile(character)}
+              >
+                Export
+              </Button>
+              <Button
+                color="primary"
+                sx={ActionButtonStyle()}
+                onClick={() => handlePrint(character)}
+              >
+                Print
+              </Button>
+              <Button
+                color="primary"
+                sx={ActionButtonStyle()}
+                onClick={() => void deleteCharacter(character.id)}
+              >
+                Delete
+              </Button>
+            </Box>
           </Accordion>
         ))}
       </Grid>
+      <NpcGenerationDialog
+        open={generatingNpcs}
+        onClose={() => setGeneratingNpcs(false)}
+        onAdd={handleAddGeneratedNpc}
+      />
+      <ConfirmDialog
+        open={confirmClear}
+        title="Clear all NPCs?"
+        message="Every NPC of this mission is deleted. Party members are kept."
+        confirmLabel="Clear NPCs"
+        onConfirm={handleClear}
+        onCancel={() => setConfirmClear(false)}
+      />
     </Grid>
   );
 };
 
 /**
- * Props for the DamageComponent.
- */
-interface DamageComponentProps {
-  /** The label for the damage type (e.g., "Physical Damage"). */
-  label: string;
-  /** An object containing the current and maximum damage values. */
-  damage: {
-    current: number;
-    max: number;
-  };
-}
-
-/**
- * DamageComponent displays and manages a specific type of damage (e.g., physical or stun).
- * It includes a text field for changing the current damage and a circular progress bar
- * to visually represent the damage level.
+ * TrackComponent displays and manages a track (e.g., physical damage or sanity).
+ * It includes a text field for changing the current value and a circular progress bar
+ * to visually represent it, coloured by how bad things are.
  *
- * @param props - The props for the component. See {@link DamageComponentProps}.
- * @returns The DamageComponent.
+ * @param props - The props for the component. See {@link TrackComponentProps}.
+ * @returns The TrackComponent.
  */
-const DamageComponent: React.FC<DamageComponentProps> = ({
+const TrackComponent: React.FC<TrackComponentProps> = ({
   label,
-  damage,
+  track,
+  meaning,
+  onChange,
 }) => {
-  /** State variable for the current damage value. */
-  const [currentDamage, setCurrentDamage] = React.useState(damage.current);
   const inputRef = React.useRef<HTMLInputElement>(null);
 
   // we implement the wheel effect ourselfes to be able to avoid
@@ -172,7 +448,7 @@ const DamageComponent: React.FC<DamageComponentProps> = ({
     const inputEl = inputRef.current;
 
     /**
-     * Handles the wheel event on the damage input field.
+     * Handles the wheel event on the track input field.
      * This is implemented to prevent the container from scrolling when the wheel is used over the input.
      * @param e - The wheel event.
      */
@@ -191,18 +467,21 @@ const DamageComponent: React.FC<DamageComponentProps> = ({
   }, []);
 
   /**
-   * Handles the change event of the damage input field.
-   * Updates the current damage value if it's within the valid range (0 to max).
+   * Handles the change event of the track input field.
+   * Reports the new value if it's a whole number within the valid range (0 to max).
    * @param event - The input change event.
    */
-  const handleDamageChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const inputValue = parseInt(event.target.value);
-    if (inputValue >= 0 && inputValue <= damage.max) {
-      setCurrentDamage(inputValue);
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const inputValue = parseSheetNumber(event.target.value);
+    if (inputValue !== null && inputValue >= 0 && inputValue <= track.max) {
+      onChange?.(inputValue);
     }
   };
 
-  const percentage = currentDamage / damage.max;
+  const percentage = track.current / track.max;
+  // A resource running out is as bad as damage filling up
+  const severity =
+    meaning === TrackMeaning.DAMAGE ? percentage : 1 - percentage;
 
   return (
     <>
@@ -210,11 +489,12 @@ const DamageComponent: React.FC<DamageComponentProps> = ({
       <Box sx={DamageComponentBoxStyle()}>
         <TextField
           type="number"
-          value={currentDamage}
-          onChange={handleDamageChange}
+          value={track.current}
+          onChange={handleChange}
+          disabled={!onChange}
           size="small"
           inputRef={inputRef}
-          sx={CreateDamageInputFieldStyle(percentage)}
+          sx={CreateDamageInputFieldStyle(severity)}
         />
         <CircularProgress
           variant="determinate"
@@ -222,12 +502,12 @@ const DamageComponent: React.FC<DamageComponentProps> = ({
           size={60}
           thickness={4}
           sx={{
-            color: getDamageColor(percentage),
+            color: getDamageColor(severity),
             padding: "5px 5px 5px 5px",
           }}
         />
-        <Typography sx={{ color: getDamageColor(percentage) }}>
-          {`${currentDamage}/${damage.max}`}
+        <Typography sx={{ color: getDamageColor(severity) }}>
+          {`${track.current}/${track.max}`}
         </Typography>
       </Box>
     </>
@@ -235,86 +515,124 @@ const DamageComponent: React.FC<DamageComponentProps> = ({
 };
 
 /**
- * CharacterCard is a component that displays the details of a single character.
- * It shows information like name, race, role, attributes, skills, armor, weapon, cyberware, and damage.
+ * CharacterSheetView lays out the sheet of a character as its game system declares it
+ * (see {@link getSheetSchemaForGameType}), e.g. attributes, cyberware and damage for
+ * Shadowrun or sanity and luck for Call of Cthulhu.
  *
- * @param props - The props for the component, which are defined by {@link CharacterProps}.
- * @returns The CharacterCard component.
+ * @param props - The props for the component. See {@link CharacterCardProps}.
+ * @returns The CharacterSheetView component.
  */
-export const CharacterCard: React.FC<CharacterProps> = ({
+const CharacterSheetView: React.FC<CharacterCardProps> = ({
   name,
+  gameType,
   race,
   role,
   description,
-  attributes,
-  skills,
-  armor,
-  weapon,
-  cyberware,
-  damage,
+  sheet,
+  onTrackChange,
 }) => {
+  const schema = getSheetSchemaForGameType(gameType);
+  // Fields added to the game system since the character was stored show their defaults
+  const { stats, tracks, numbers, texts, lists } = useMemo(
+    () => completeSheet(schema, sheet),
+    [schema, sheet],
+  );
+
   return (
     <Box sx={CardBoxStyle()}>
       <Typography variant="h5">{name}</Typography>
-      <Typography variant="body1">Race: {race}</Typography>
-      <Typography variant="body1">Role: {role}</Typography>
+      <Typography variant="body1">
+        {schema.raceLabel}: {race}
+      </Typography>
+      <Typography variant="body1">
+        {schema.roleLabel}: {role}
+      </Typography>
       <Typography variant="body1">Description: {description}</Typography>
       <Grid container spacing={2} justifyContent={"center"}>
-        <Grid>
-          <Box sx={InfoBoxStyle()}>
-            <Box sx={InfoInnerBoxStyle()}>
-              <Typography variant="body2">Armor: {armor}</Typography>
-              <Typography variant="body2">Weapon: {weapon}</Typography>
+        {(schema.numbers.length > 0 || schema.texts.length > 0) && (
+          <Grid>
+            <Box sx={InfoBoxStyle()}>
+              <Box sx={InfoInnerBoxStyle()}>
+                {schema.numbers.map(({ key, label }) => (
+                  <Typography key={key} variant="body2">
+                    {label}: {numbers[key]}
+                  </Typography>
+                ))}
+                {schema.texts.map(({ key, label }) => (
+                  <Typography key={key} variant="body2">
+                    {label}: {texts[key]}
+                  </Typography>
+                ))}
+              </Box>
             </Box>
-          </Box>
-        </Grid>
-        <Grid>
-          <Box sx={CyberwareBoxStyle()}>
-            <Box sx={InfoInnerBoxStyle()}>
-              <Typography variant="body2">Cyberware:</Typography>
-              {cyberware.map((item, index) => (
-                <Typography key={index} variant="body2">
-                  {item}
-                </Typography>
-              ))}
+          </Grid>
+        )}
+        {schema.lists.map(({ key, label }) => (
+          <Grid key={key}>
+            <Box sx={ListBoxStyle()}>
+              <Box sx={InfoInnerBoxStyle()}>
+                <Typography variant="body2">{label}:</Typography>
+                {lists[key].map((item, index) => (
+                  <Typography key={index} variant="body2">
+                    {item}
+                  </Typography>
+                ))}
+              </Box>
             </Box>
-          </Box>
-        </Grid>
+          </Grid>
+        ))}
       </Grid>
       <Grid container spacing={2} justifyContent={"center"}>
-        <Grid>
-          <Box sx={InfoBoxStyle()}>
-            <Box sx={InfoInnerBoxStyle()}>
-              <Typography variant="body2">Attributes:</Typography>
-              {Object.entries(attributes).map(([key, value]) => (
-                <Typography key={key} variant="body2">
-                  {key}: {value}
-                </Typography>
-              ))}
-            </Box>
-          </Box>
-        </Grid>
-        <Grid>
-          <Box sx={SkillsBoxStyle()}>
-            <Box sx={InfoInnerBoxStyle()}>
-              <Typography variant="body2">Skills:</Typography>
-              {Object.entries(skills).map(([key, value]) => (
-                <Typography key={key} variant="body2">
-                  {key}: {value}
-                </Typography>
-              ))}
+        {schema.stats.map(({ key, label }) => (
+          <Grid key={key}>
+            <Box sx={SkillsBoxStyle()}>
+              <Box sx={InfoInnerBoxStyle()}>
+                <Typography variant="body2">{label}:</Typography>
+                {Object.entries(stats[key]).map(([stat, value]) => (
+                  <Typography key={stat} variant="body2">
+                    {stat}: {value}
+                  </Typography>
+                ))}
+              </Box>
             </Box>
-          </Box>
-        </Grid>
+          </Grid>
+        ))}
       </Grid>
       <Grid container spacing={2} sx={DamageGridStyle()}>
-        <Grid>
-          <DamageComponent label="Physical Damage" damage={damage.physical} />
-        </Grid>
-        <Grid>
-          <DamageComponent label="Stun Damage" damage={damage.stun} />
-        </Grid>
+        {schema.tracks.map(({ key, label, meaning }) => (
+          <Grid key={key}>
+            <TrackComponent
+              label={label}
+              track={tracks[key]}
+              meaning={meaning}
+              onChange={
+                onTrackChange && ((current) => onTrackChange(key, current))
+              }
+            />
+          </Grid>
+        ))}
       </Grid>
     </Box>
   );
 };
+
+/**
+ * CharacterCard is a component that displays the details of a single character.
+ * The sheet follows the character's game system and is themed like it, with the theme of
+ * {@link getThemeForGameType}. Tracks can be changed in place; everything else is changed
+ * in the CharacterSheetEditor.
+ *
+ * @param props - The props for the component. See {@link CharacterCardProps}.
+ * @returns The CharacterCard component.
+ */
+export const CharacterCard: React.FC<CharacterCardProps> = (props) => {
+  const theme = useMemo(
+    () => getThemeForGameType(props.gameType),
+    [props.gameType],
+  );
+  return (
+    <ThemeProvider theme={theme}>
+      <CharacterSheetView {...props} />
+    </ThemeProvider>
+  );
+};
@@ -0,0 +1,431 @@
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  Box,
+  Button,
+  Grid,
+  IconButton,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import AddIcon from "@mui/icons-material/Add";
+import DeleteOutlineIcon from "@mui/icons-material/DeleteOutline";
+import {
+  ActionButtonsBoxStyle,
+  ActionButtonStyle,
+  CardBoxStyle,
+  SheetRowStyle,
+} from "../styles/styles";
+import {
+  CharacterForm,
+  CharacterFormErrors,
+  CharacterDraft,
+  TrackForm,
+  ListRow,
+  StatRow,
+} from "../models/CharacterProps";
+import {
+  fromCharacterForm,
+  nextRowKey,
+  toCharacterForm,
+  validateCharacterForm,
+} from "../functions/characters";
+import { getSheetSchemaForGameType } from "../models/CharacterSheets";
+
+// =====================
+// Types
+// =====================
+
+/**
+ * Props for the CharacterSheetEditor component.
+ */
+interface CharacterSheetEditorProps<C extends CharacterDraft> {
+  /** The character being edited, stored or not. */
+  character: C;
+  /** Stores the edited character; resolves with whether that worked. */
+  onSave: (character: C) => Promise<boolean>;
+  /** Leaves edit mode without saving. */
+  onCancel: () => void;
+}
+
+/**
+ * Props for the StatListEditor component.
+ */
+interface StatListEditorProps {
+  /** Heading of the list, e.g. "Attributes". */
+  label: string;
+  /** Path of the list in the form errors, e.g. `stats.attributes`. */
+  path: string;
+  rows: StatRow[];
+  errors: CharacterFormErrors;
+  onChange: (rows: StatRow[]) => void;
+}
+
+/**
+ * Props for the ListEditor component.
+ */
+interface ListEditorProps {
+  /** Heading of the list, e.g. "Cyberware". */
+  label: string;
+  rows: ListRow[];
+  onChange: (rows: ListRow[]) => void;
+}
+
+/**
+ * Props for the TrackEditor component.
+ */
+interface TrackEditorProps {
+  label: string;
+  /** Path of the track in the form errors, e.g. `tracks.stun`. */
+  path: string;
+  track: TrackForm;
+  errors: CharacterFormErrors;
+  onChange: (track: TrackForm) => void;
+}
+
+/** The parts of a sheet that depend on the game system. */
+type SheetSection = "stats" | "tracks" | "numbers" | "texts" | "lists";
+
+// Numbers are typed as text, so invalid input stays visible until it is fixed
+const numericInput = { htmlInput: { inputMode: "numeric" as const } };
+
+// =====================
+// Components
+// =====================
+
+/**
+ * StatListEditor edits a list of named numbers, like attributes or skills.
+ * Rows can be added, renamed and removed.
+ *
+ * @param props - The props for the component. See {@link StatListEditorProps}.
+ * @returns The StatListEditor component.
+ */
+const StatListEditor: React.FC<StatListEditorProps> = ({
+  label,
+  path,
+  rows,
+  errors,
+  onChange,
+}) => {
+  const updateRow = (key: number, change: Partial<StatRow>) =>
+    onChange(
+      rows.map((row) => (row.key === key ? { ...row, ...change } : row)),
+    );
+
+  return (
+    <Box>
+      <Typography variant="body2">{label}:</Typography>
+      {rows.map((row) => (
+        <Box key={row.key} sx={SheetRowStyle()}>
+          <TextField
+            label="Name"
+            size="small"
+            value={row.name}
+            onChange={(event) =>
+              updateRow(row.key, { name: event.target.value })
+            }
+            error={!!errors[`${path}.${row.key}.name`]}
+            helperText={errors[`${path}.${row.key}.name`]}
+          />
+          <TextField
+            label="Value"
+            size="small"
+            value={row.value}
+            onChange={(event) =>
+              updateRow(row.key, { value: event.target.value })
+            }
+            error={!!errors[`${path}.${row.key}.value`]}
+            helperText={errors[`${path}.${row.key}.value`]}
+            slotProps={numericInput}
+            sx={{ width: 100 }}
+          />
+          <Tooltip title={`Remove ${row.name || "row"}`}>
+            <IconButton
+              size="small"
+              onClick={() =>
+                onChange(rows.filter(({ key }) => key !== row.key))
+              }
+            >
+              <DeleteOutlineIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Box>
+      ))}
+      <Button
+        size="small"
+        startIcon={<AddIcon />}
+        onClick={() =>
+          onChange([...rows, { key: nextRowKey(rows), name: "", value: "0" }])
+        }
+      >
+        Add
+      </Button>
+    </Box>
+  );
+};
+
+/**
+ * ListEditor edits a list of free texts, like cyberware. Empty entries are dropped on save.
+ *
+ * @param props - The props for the component. See {@link ListEditorProps}.
+ * @returns The ListEditor component.
+ */
+const ListEditor: React.FC<ListEditorProps> = ({ label, rows, onChange }) => (
+  <Box>
+    <Typography variant="body2">{label}:</Typography>
+    {rows.map((row) => (
+      <Box key={row.key} sx={SheetRowStyle()}>
+        <TextField
+          size="small"
+          value={row.value}
+          onChange={(event) =>
+            onChange(
+              rows.map((other) =>
+                other.key === row.key
+                  ? { ...other, value: event.target.value }
+                  : other,
+              ),
+            )
+          }
+        />
+        <Tooltip title={`Remove ${row.value || "entry"}`}>
+          <IconButton
+            size="small"
+            onClick={() => onChange(rows.filter(({ key }) => key !== row.key))}
+          >
+            <DeleteOutlineIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+    ))}
+    <Button
+      size="small"
+      startIcon={<AddIcon />}
+      onClick={() => onChange([...rows, { key: nextRowKey(rows), value: "" }])}
+    >
+      Add
+    </Button>
+  </Box>
+);
+
+/**
+ * TrackEditor edits the current and maximum value of a track, e.g. damage or sanity.
+ *
+ * @param props - The props for the component. See {@link TrackEditorProps}.
+ * @returns The TrackEditor component.
+ */
+const TrackEditor: React.FC<TrackEditorProps> = ({
+  label,
+  path,
+  track,
+  errors,
+  onChange,
+}) => (
+  <Box>
+    <Typography variant="body2">{label}:</Typography>
+    <Box sx={SheetRowStyle()}>
+      <TextField
+        label="Current"
+        size="small"
+        value={track.current}
+        onChange={(event) =>
+          onChange({ ...track, current: event.target.value })
+        }
+        error={!!errors[`${path}.current`]}
+        helperText={errors[`${path}.current`]}
+        slotProps={numericInput}
+        sx={{ width: 100 }}
+      />
+      <TextField
+        label="Max"
+        size="small"
+        value={track.max}
+        onChange={(event) => onChange({ ...track, max: event.target.value })}
+        error={!!errors[`${path}.max`]}
+        helperText={errors[`${path}.max`]}
+        slotProps={numericInput}
+        sx={{ width: 100 }}
+      />
+    </Box>
+  </Box>
+);
+
+/**
+ * CharacterSheetEditor is the edit mode of a character sheet. Every field the character's
+ * game system declares can be changed, ratings like attributes added, renamed and removed,
+ * and lists like gear extended. Numbers are checked against the limits of the system as
+ * they are typed; the sheet can only be saved without problems.
+ *
+ * @param props - The props for the component. See {@link CharacterSheetEditorProps}.
+ * @returns The CharacterSheetEditor component.
+ */
+export function CharacterSheetEditor<C extends CharacterDraft>({
+  character,
+  onSave,
+  onCancel,
+}: CharacterSheetEditorProps<C>) {
+  const schema = getSheetSchemaForGameType(character.gameType);
+  /** The sheet as edited so far; the stored character stays untouched until saved. */
+  const [form, setForm] = useState<CharacterForm>(() =>
+    toCharacterForm(character),
+  );
+  const [saving, setSaving] = useState(false);
+  const errors = useMemo(
+    () => validateCharacterForm(form, schema),
+    [form, schema],
+  );
+  const valid = Object.keys(errors).length === 0;
+
+  const setField = useCallback(
+    (field: "name" | "race" | "role" | "description", value: string) =>
+      setForm((previous) => ({ ...previous, [field]: value })),
+    [],
+  );
+
+  /**
+   * Sets a field of the game-system-specific part of the sheet.
+   * @param section - The type of the field, e.g. `tracks`.
+   * @param key - The key of the field, e.g. `sanity`.
+   * @param value - The new value as edited.
+   */
+  const setSheetField = useCallback(
+    <S extends SheetSection>(
+      section: S,
+      key: string,
+      value: CharacterForm[S][string],
+    ) =>
+      setForm((previous) => ({
+        ...previous,
+        [section]: { ...previous[section], [key]: value },
+      })),
+    [],
+  );
+
+  const handleSave = useCallback(async () => {
+    setSaving(true);
+    const saved = await onSave(fromCharacterForm(character, form));
+    setSaving(false);
+    // On failure the sheet stays open, so nothing typed is lost
+    if (saved) onCancel();
+  }, [character, form, onSave, onCancel]);
+
+  return (
+    <Box sx={CardBoxStyle()}>
+      <Grid container spacing={2}>
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <TextField
+            label="Name"
+            size="small"
+            fullWidth
+            value={form.name}
+            onChange={(event) => setField("name", event.target.value)}
+            error={!!errors.name}
+            helperText={errors.name}
+          />
+        </Grid>
+        <Grid size={{ xs: 6, sm: 3 }}>
+          <TextField
+            label={schema.raceLabel}
+            size="small"
+            fullWidth
+            value={form.race}
+            onChange={(event) => setField("race", event.target.value)}
+          />
+        </Grid>
+        <Grid size={{ xs: 6, sm: 3 }}>
+          <TextField
+            label={schema.roleLabel}
+            size="small"
+            fullWidth
+            value={form.role}
+            onChange={(event) => setField("role", event.target.value)}
+          />
+        </Grid>
+        <Grid size={12}>
+          <TextField
+            label="Description"
+            size="small"
+            fullWidth
+            multiline
+            minRows={2}
+            value={form.description}
+            onChange={(event) => setField("description", event.target.value)}
+          />
+        </Grid>
+        {schema.numbers.map(({ key, label }) => (
+          <Grid key={key} size={{ xs: 4, sm: 3 }}>
+            <TextField
+              label={label}
+              size="small"
+              fullWidth
+              value={form.numbers[key]}
+              onChange={(event) =>
+                setSheetField("numbers", key, event.target.value)
+              }
+              error={!!errors[`numbers.${key}`]}
+              helperText={errors[`numbers.${key}`]}
+              slotProps={numericInput}
+            />
+          </Grid>
+        ))}
+        {schema.texts.map(({ key, label }) => (
+          <Grid key={key} size={{ xs: 8, sm: 9 }}>
+            <TextField
+              label={label}
+              size="small"
+              fullWidth
+              value={form.texts[key]}
+              onChange={(event) =>
+                setSheetField("texts", key, event.target.value)
+              }
+            />
+          </Grid>
+        ))}
+        {schema.stats.map(({ key, label }) => (
+          <Grid key={key} size={{ xs: 12, sm: 6 }}>
+            <StatListEditor
+              label={label}
+              path={`stats.${key}`}
+              rows={form.stats[key]}
+              errors={errors}
+              onChange={(rows) => setSheetField("stats", key, rows)}
+            />
+          </Grid>
+        ))}
+        {schema.lists.map(({ key, label }) => (
+          <Grid key={key} size={{ xs: 12, sm: 6 }}>
+            <ListEditor
+              label={label}
+              rows={form.lists[key]}
+              onChange={(rows) => setSheetField("lists", key, rows)}
+            />
+          </Grid>
+        ))}
+        {schema.tracks.map(({ key, label }) => (
+          <Grid key={key} size={{ xs: 12, sm: 6 }}>
+            <TrackEditor
+              label={label}
+              path={`tracks.${key}`}
+              track={form.tracks[key]}
+              errors={errors}
+              onChange={(track) => setSheetField("tracks", key, track)}
+            />
+          </Grid>
+        ))}
+      </Grid>
+      <Box sx={{ ...ActionButtonsBoxStyle(), mt: 2 }}>
+        <Button sx={ActionButtonStyle()} onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          sx={ActionButtonStyle()}
+          onClick={handleSave}
+          disabled={!valid || saving}
+        >
+          Save
+        </Button>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,56 @@
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+} from "@mui/material";
+
+/**
+ * Props for the ConfirmDialog component.
+ */
+type ConfirmDialogProps = {
+  /** Whether the dialog is shown. */
+  open: boolean;
+  /** Short question in the title bar. */
+  title: string;
+  /** Explains what confirming will do. */
+  message: string;
+  /** Label of the confirming button. */
+  confirmLabel: string;
+  /** Called when the player confirms. */
+  onConfirm: () => void;
+  /** Called when the player cancels or dismisses the dialog. */
+  onCancel: () => void;
+};
+
+/**
+ * ConfirmDialog asks the player to confirm a destructive action before it is carried out.
+ *
+ * @param props - The props for the component. See {@link ConfirmDialogProps}.
+ * @returns The ConfirmDialog component.
+ */
+export default function ConfirmDialog({
+  open,
+  title,
+  message,
+  confirmLabel,
+  onConfirm,
+  onCancel,
+}: ConfirmDialogProps) {
+  return (
+    <Dialog open={open} onClose={onCancel} aria-labelledby="confirm-title">
+      <DialogTitle id="confirm-title">{title}</DialogTitle>
+      <DialogContent>
+        <DialogContentText>{message}</DialogContentText>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button onClick={onConfirm} color="warning" variant="contained">
+          {confirmLabel}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -7,11 +7,18 @@ import React, {
   forwardRef,
   memo,
 } from "react";
-import { Button, Typography, Box, Container } from "@mui/material";
+import {
+  Button,
+  Typography,
+  Box,
+  Container,
+  CircularProgress,
+} from "@mui/material";
 
 import { Colors } from "../styles/styles.tsx";
 import StyledTextField from "./StyledTextField.tsx";
 import MarkdownRenderer from "./MarkdownRenderer.tsx";
+import { TextHighlight } from "../models/SearchTypes";
 import ThinkingDisclosure from "./ThinkingDisclosure.tsx";
 
 /**
@@ -25,6 +32,8 @@ export enum FieldContainerType {
   PLAYER_OLD = "player_old",
   /** A field representing a gamemaster message, allowing edit/view. */
   GAMEMASTER = "gamemaster",
+  /** A field representing an earlier player or gamemaster message, allowing edit/view only. */
+  HISTORY = "history",
 }
 
 /**
@@ -41,6 +50,8 @@ type FieldContainerProps = {
   value: string;
   /** Optional current thinking text for streaming display. */
   thinking?: string;
+  /** Optional flag to show the thinking text. Defaults to `true`. */
+  showThinking?: boolean;
   /** Identifier or label for the field instance (e.g., "Player Input", "Gamemaster Output"). */
   instance: string;
   /** The color theme for the field. See {@link Colors}. */
@@ -57,6 +68,10 @@ type FieldContainerProps = {
   useLocalState?: boolean;
   /** Optional callback to commit the final streamed value to context. */
   onStreamComplete?: (value: string, thinking: string) => void;
+  /** Optional elements shown next to the `instance` label, e.g. status chips. */
+  labelAdornment?: React.ReactNode;
+  /** Optional search matches to mark while the field is displayed. */
+  highlight?: TextHighlight;
 };
 
 /**
@@ -69,6 +84,10 @@ export interface FieldContainerHandle {
   completeStream: (finalContent: string, finalThinking?: string) => void;
   /** Starts streaming mode. */
   startStream: () => void;
+  /** Shows or hides the "reconnecting…" state of an interrupted stream. */
+  setReconnecting: (reconnecting: boolean) => void;
+  /** Leaves streaming mode without committing, showing `value` again. */
+  cancelStream: () => void;
 }
 
 // --- Subcomponents ---
@@ -143,6 +162,8 @@ interface DisplayFieldProps {
   value: string;
   /** The color theme for the field. */
   color: Colors;
+  /** Optional search matches to mark. */
+  highlight?: TextHighlight;
 }
 
 /**
@@ -151,8 +172,8 @@ interface DisplayFieldProps {
  * @param props - The props for the component. See {@link DisplayFieldProps}.
  * @returns The DisplayField component.
  */
-function DisplayField({ value, color }: DisplayFieldProps) {
-  return <MarkdownRenderer value={value} color={color} />;
+function DisplayField({ value, color, highlight }: DisplayFieldProps) {
+  return <MarkdownRenderer value={value} color={color} highlight={highlight} />;
 }
 
 /**
@@ -197,7 +218,8 @@ function FieldButtonGroup({
   return (
     <Box sx={{ display: "flex", flexDirection: "column" }}>
       {(type === FieldContainerType.PLAYER_OLD ||
-        type === FieldContainerType.GAMEMASTER) && (
+        type === FieldContainerType.GAMEMASTER ||
+        type === FieldContainerType.HISTORY) && (
         <Button
           color={color}
           disabled={disabled}
@@ -290,6 +312,7 @@ const FieldContainer = forwardRef<FieldContainerHandle, FieldContainerProps>(
       stopCallback,
       value,
       thinking = "",
+      showThinking = true,
       instance,
       color,
       type,
@@ -298,6 +321,8 @@ const FieldContainer = forwardRef<FieldContainerHandle, FieldContainerProps>(
       speechToTextCallback,
       useLocalState = true,
       onStreamComplete,
+      labelAdornment,
+      highlight,
     },
     ref,
   ) => {
@@ -319,6 +344,8 @@ const FieldContainer = forwardRef<FieldContainerHandle, FieldContainerProps>(
     const [streamThinking, setStreamThinking] = useState("");
     /** Flag to track if currently in streaming mode */
     const [isStreamingActive, setIsStreamingActive] = useState(false);
+    /** Flag to track if an interrupted stream is waiting to be resumed */
+    const [isReconnecting, setIsReconnecting] = useState(false);
     /** Ref to the underlying TextField component to manage focus and scroll. */
     const textFieldRef = useRef<HTMLDivElement>(null!);
     /** Ref to the MediaRecorder instance for audio recording. */
@@ -361,6 +388,7 @@ const FieldContainer = forwardRef<FieldContainerHandle, FieldContainerProps>(
           setStreamThinking(finalThinking);
         }
         setIsStreamingActive(false);
+        setIsReconnecting(false);
         if (onStreamComplete) {
           // Pass both back to parent
           onStreamComplete(finalContent, finalThinking || "");
@@ -373,6 +401,12 @@ const FieldContainer = forwardRef<FieldContainerHandle, FieldContainerProps>(
       setIsStreamingActive(true);
       setStreamValue("");
       setStreamThinking(""); // Reset thinking stream
+      setIsReconnecting(false);
+    }, []);
+
+    const cancelStream = useCallback(() => {
+      setIsStreamingActive(false);
+      setIsReconnecting(false);
     }, []);
 
     useImperativeHandle(
@@ -381,8 +415,10 @@ const FieldContainer = forwardRef<FieldContainerHandle, FieldContainerProps>(
         updateStream,
         completeStream,
         startStream,
+        setReconnecting: setIsReconnecting,
+        cancelStream,
       }),
-      [updateStream, completeStream, startStream],
+      [updateStream, completeStream, startStream, cancelStream],
     );
 
     /**
@@ -536,10 +572,11 @@ const FieldContainer = forwardRef<FieldContainerHandle, FieldContainerProps>(
           variant="subtitle2"
           fontStyle="italic"
           color={color}
-          sx={{ display: "flex" }}
+          sx={{ display: "flex", alignItems: "center" }}
         >
           <br />
           {instance}
+          {labelAdornment}
           <br />
         </Typography>
 
@@ -563,13 +600,15 @@ const FieldContainer = forwardRef<FieldContainerHandle, FieldContainerProps>(
               gap: 0.5, // Space between thinking disclosure and field
             }}
           >
-            <Box sx={{ width: "100%", marginTop: 1 }}>
-              <ThinkingDisclosure
-                content={displayThinking}
-                color={color}
-                isStreaming={isStreamingActive && !displayValue.trim()}
-              />
-            </Box>
+            {showThinking && (
+              <Box sx={{ width: "100%", marginTop: 1 }}>
+                <ThinkingDisclosure
+                  content={displayThinking}
+                  color={color}
+                  isStreaming={isStreamingActive && !displayValue.trim()}
+                />
+              </Box>
+            )}
 
             <Box sx={{ width: "100%" }}>
               {isEditable ? (
@@ -584,9 +623,22 @@ const FieldContainer = forwardRef<FieldContainerHandle, FieldContainerProps>(
                   inputRef={textFieldRef}
                 />
               ) : (
-                <MemoizedDisplayField value={displayValue} color={color} />
+                <MemoizedDisplayField
+                  value={displayValue}
+                  color={color}
+                  highlight={highlight}
+                />
               )}
             </Box>
+
+            {isStreamingActive && isReconnecting && (
+              <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                <CircularProgress size={14} color={color} />
+                <Typography variant="caption" color={color} fontStyle="italic">
+                  Connection lost, reconnecting…
+                </Typography>
+              </Box>
+            )}
           </Box>
 
           {/* Right Column: Button Group */}
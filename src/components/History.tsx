@@ -4,24 +4,57 @@ import {
   useEffect,
   useState,
   useCallback,
+  useMemo,
   memo,
 } from "react";
-import { Typography, Container, Button, CircularProgress } from "@mui/material";
+import {
+  Box,
+  Typography,
+  Container,
+  Button,
+  CircularProgress,
+  IconButton,
+  Snackbar,
+  Tooltip,
+} from "@mui/material";
 import PlayArrowIcon from "@mui/icons-material/PlayArrow";
 import StopIcon from "@mui/icons-material/Stop";
-import MarkdownRenderer from "./MarkdownRenderer.tsx";
+import PsychologyIcon from "@mui/icons-material/Psychology";
+import PsychologyOutlinedIcon from "@mui/icons-material/PsychologyOutlined";
+import SearchIcon from "@mui/icons-material/Search";
 
-import {
-  postStopGeneration,
-  sendSpeechToText,
-  sendTextToSpeech,
-  sendTextToSpeechStream,
-  sendPlayerInputToLlm,
-} from "../functions/restInterface";
+import backend from "../functions/backend";
+import { NetworkError, describeHttpError } from "../functions/httpErrors";
 import { Interaction } from "../models/MissionModels";
+import { StreamOutcome } from "../models/RestInterface";
+import { GenerationStatus, ROOT_ID } from "../models/HistoryTypes";
 import MemoizedFieldContainer from "./MemoizedFieldContainer";
 import { FieldContainerType, FieldContainerHandle } from "./FieldContainer";
-import useHistoryStore from "../stores/historyStore";
+import useHistoryStore, {
+  HistorySnapshot,
+  UndoResult,
+} from "../stores/historyStore";
+import { getActivePath, getBranchPath } from "../functions/storyTree";
+import { useUndoRedoShortcuts } from "../hooks/useUndoRedoShortcuts";
+import UndoRedoToolbar from "./UndoRedoToolbar";
+import {
+  announceGeneration,
+  createStreamBroadcaster,
+} from "../functions/tabSync";
+import { useSpectatorMode } from "../hooks/useSpectatorMode";
+import useOfflineQueueStore from "../stores/offlineQueueStore";
+import useAppStore from "../stores/appStore";
+import useSearchStore from "../stores/searchStore";
+import { useHistorySearch } from "../hooks/useHistorySearch";
+import { SearchHit } from "../models/SearchTypes";
+import { useVirtualList } from "../hooks/useVirtualList";
+import HistorySearch from "./HistorySearch";
+import { useOfflineQueueReplay } from "../hooks/useOfflineQueueReplay";
+import QueuedTurns from "./QueuedTurns";
+import JumpToLatest from "./JumpToLatest";
+import BranchPager from "./BranchPager";
+import PastExchange from "./PastExchange";
+import ConfirmDialog from "./ConfirmDialog";
 import { useShallow } from "zustand/react/shallow";
 
 type HistoryProps = ComponentProps<typeof Container> & {
@@ -30,28 +63,65 @@ type HistoryProps = ComponentProps<typeof Container> & {
 };
 
 const USE_TTS_STREAM = true;
+const USE_RESUMABLE_STREAM = true;
+
+type ActiveGeneration = {
+  missionId: number;
+  requestId: string;
+  abortController: AbortController;
+};
+
+/** A local rewind the backend hasn't been told about yet, because it can still be undone. */
+type PendingRewind = {
+  missionId: number;
+  branchPath: number[];
+  originalState: HistorySnapshot;
+};
 
-const History = ({ mission, disabled, ...props }: HistoryProps) => {
+const History = ({
+  mission,
+  disabled: disabledProp,
+  ...props
+}: HistoryProps) => {
   console.log("History component rendered");
   // ===== REFS & STORE =====
   const llmOutputFieldRef = useRef<FieldContainerHandle>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  /** The generation currently streaming, if any; target of the Stop button. */
+  const activeGenerationRef = useRef<ActiveGeneration | null>(null);
+  const pendingRewindRef = useRef<PendingRewind | null>(null);
+
+  // ===== SPECTATOR MODE =====
+  // While another tab generates for this mission, this tab only follows along
+  const spectating = useSpectatorMode(mission, llmOutputFieldRef);
+  const disabled = disabledProp || spectating;
 
   // ===== STORE STATE =====
-  const { playerInput, playerInputOld, llmThinking, llmOutput, interactions } =
-    useHistoryStore(
-      useShallow((state) => ({
-        playerInput: state.playerInput,
-        playerInputOld: state.playerInputOld,
-        llmThinking: state.llmThinking,
-        llmOutput: state.llmOutput,
-        interactions: state.interactions,
-      })),
-    );
+  const {
+    playerInput,
+    playerInputOld,
+    llmThinking,
+    llmOutput,
+    generationStatus,
+    nodes,
+    activePathIds,
+    canUndo,
+    canRedo,
+  } = useHistoryStore(
+    useShallow((state) => ({
+      playerInput: state.playerInput,
+      playerInputOld: state.playerInputOld,
+      llmThinking: state.llmThinking,
+      llmOutput: state.llmOutput,
+      generationStatus: state.generationStatus,
+      nodes: state.nodes,
+      activePathIds: state.activePathIds,
+      canUndo: state.past.length > 0,
+      canRedo: state.future.length > 0,
+    })),
+  );
   // ===== STORE SETTER =====
   const updatePlayerInput = useHistoryStore((state) => state.updatePlayerInput);
-  const updatePlayerInputOld = useHistoryStore(
-    (state) => state.updatePlayerInputOld,
-  );
   const updateLlmThinking = useHistoryStore((state) => state.updateLlmThinking);
   const updateLlmOutput = useHistoryStore((state) => state.updateLlmOutput);
   const performOptimisticUpdate = useHistoryStore(
@@ -60,18 +130,143 @@ const History = ({ mission, disabled, ...props }: HistoryProps) => {
   const rollbackOptimisticUpdate = useHistoryStore(
     (state) => state.rollbackOptimisticUpdate,
   );
-  const commitPlayerInput = useHistoryStore((state) => state.commitPlayerInput);
+  const startAlternative = useHistoryStore((state) => state.startAlternative);
+  const selectBranch = useHistoryStore((state) => state.selectBranch);
+  const rewindTo = useHistoryStore((state) => state.rewindTo);
+  const restoreRewoundBranches = useHistoryStore(
+    (state) => state.restoreRewoundBranches,
+  );
+  const editInteraction = useHistoryStore((state) => state.editInteraction);
+  const undo = useHistoryStore((state) => state.undo);
+  const redo = useHistoryStore((state) => state.redo);
+  const forgetUndoBefore = useHistoryStore((state) => state.forgetUndoBefore);
+  const commitStoppedGeneration = useHistoryStore(
+    (state) => state.commitStoppedGeneration,
+  );
+  const showThinking = useAppStore((state) => state.showThinking);
+  const setShowThinking = useAppStore((state) => state.setShowThinking);
+  const searchOpen = useSearchStore((state) => state.open);
+  const openSearch = useSearchStore((state) => state.openSearch);
+  const closeSearch = useSearchStore((state) => state.closeSearch);
+  const setGenerationStatus = useHistoryStore(
+    (state) => state.setGenerationStatus,
+  );
+  const enqueueTurn = useOfflineQueueStore((state) => state.enqueueTurn);
 
   // ===== LOCAL STATE =====
   const [audio, setAudio] = useState<HTMLAudioElement | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [loadingAudio, setLoadingAudio] = useState(false);
   const [audioError, setAudioError] = useState<string | null>(null);
+  const [generationError, setGenerationError] = useState<string | null>(null);
+  const [rewindTargetId, setRewindTargetId] = useState<string | null>(null);
+  const [rewindUndoOpen, setRewindUndoOpen] = useState(false);
 
   // ===== API CALLBACKS =====
+  /**
+   * Streams a gamemaster answer into the GM field under a fresh request id.
+   * Resolves with the final (or, if stopped, partial) content; rejects on errors.
+   */
+  const streamGamemasterAnswer = useCallback(
+    async (
+      missionId: number,
+      playerInputField: string | undefined,
+      prevInteraction: Interaction | undefined,
+      branchPath: number[],
+    ) => {
+      const abortController = new AbortController();
+      const requestId = crypto.randomUUID();
+      activeGenerationRef.current = {
+        missionId,
+        requestId,
+        abortController,
+      };
+
+      llmOutputFieldRef.current?.startStream();
+      const broadcastStream = createStreamBroadcaster(missionId);
+
+      let streamedContent = "";
+      let streamedThinking = "";
+
+      try {
+        const outcome = await backend.streamInteraction({
+          missionId,
+          requestId,
+          signal: abortController.signal,
+          resumable: USE_RESUMABLE_STREAM,
+          branchPath,
+          setStateCallback: ({
+            llmOutput: newLlmOutput,
+            llmThinking: newLlmThinking,
+            reconnecting,
+          }) => {
+            streamedContent = newLlmOutput;
+            streamedThinking = newLlmThinking || "";
+            llmOutputFieldRef.current?.updateStream(
+              newLlmOutput,
+              newLlmThinking,
+            );
+            llmOutputFieldRef.current?.setReconnecting(!!reconnecting);
+            broadcastStream.send(streamedContent, streamedThinking);
+          },
+          playerInputField,
+          prevInteraction,
+        });
+
+        llmOutputFieldRef.current?.completeStream(
+          streamedContent,
+          streamedThinking,
+        );
+        broadcastStream.flush();
+        return { outcome, streamedContent, streamedThinking };
+      } finally {
+        // Nothing may be sent after the caller announces the end of the generation
+        broadcastStream.cancel();
+        if (activeGenerationRef.current?.requestId === requestId) {
+          activeGenerationRef.current = null;
+        }
+      }
+    },
+    [],
+  );
+
+  /**
+   * Commits the result of a finished stream; stopped streams are kept as partial answers.
+   */
+  const commitStreamResult = useCallback(
+    ({
+      outcome,
+      streamedContent,
+      streamedThinking,
+    }: {
+      outcome: StreamOutcome;
+      streamedContent: string;
+      streamedThinking: string;
+    }) => {
+      if (outcome === StreamOutcome.STOPPED) {
+        commitStoppedGeneration(streamedContent, streamedThinking);
+        return;
+      }
+      updateLlmOutput(streamedContent);
+      updateLlmThinking(streamedThinking);
+      setGenerationStatus(GenerationStatus.IDLE);
+    },
+    [
+      commitStoppedGeneration,
+      updateLlmOutput,
+      updateLlmThinking,
+      setGenerationStatus,
+    ],
+  );
+
   const stopGeneration = useCallback(async (): Promise<void> => {
+    const generation = activeGenerationRef.current;
+    if (!generation) return;
+
+    // Stop reading locally right away, then free the generation on the server
+    generation.abortController.abort();
     try {
-      await postStopGeneration();
+      await backend.stopGeneration(generation.missionId, generation.requestId);
     } catch (error) {
       console.error("Error stopping LLM generation:", error);
     }
@@ -80,112 +275,350 @@ const History = ({ mission, disabled, ...props }: HistoryProps) => {
   const speechToTextCallback = useCallback(
     async (audioBlob: Blob) => {
       try {
-        const transcript = await sendSpeechToText(audioBlob);
+        const transcript = await backend.speechToText(audioBlob);
         updatePlayerInput(transcript);
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : String(err);
-        setAudioError("Speech-to-text failed: " + errorMessage);
+        setAudioError("Speech-to-text failed: " + describeHttpError(err));
       }
     },
     [updatePlayerInput],
   );
 
-  const sendPlayerInputWithStreaming = useCallback(
-    async (inputValue: string): Promise<void> => {
-      if (mission === null || inputValue === "") return;
+  /**
+   * Tells the backend about a rewind that can no longer be undone. Must run before anything
+   * else reaches the backend, otherwise the server would continue the old story.
+   * Resolves with `false` if the backend refused; the rewound exchanges are then shown
+   * again, keeping whatever changed locally in the meantime.
+   */
+  const commitPendingRewind = useCallback(async (): Promise<boolean> => {
+    const pending = pendingRewindRef.current;
+    if (!pending) return true;
+    pendingRewindRef.current = null;
+    setRewindUndoOpen(false);
 
-      const { originalState, prevInteractionContext } =
+    try {
+      await backend.rewind(pending.missionId, pending.branchPath);
+      forgetUndoBefore(pending.originalState.nodes);
+      return true;
+    } catch (error) {
+      restoreRewoundBranches(pending.originalState.nodes);
+      setGenerationError("Rewind failed: " + describeHttpError(error));
+      console.error("Failed to rewind:", error);
+      return false;
+    }
+  }, [restoreRewoundBranches, forgetUndoBefore]);
+
+  /**
+   * Sends one player turn with an optimistic update, rolling it back on failure.
+   * Resolves with the error of a failed turn, or `null` on success.
+   */
+  const sendTurn = useCallback(
+    async (missionId: number, inputValue: string): Promise<unknown> => {
+      const endAnnouncement = announceGeneration(missionId);
+      const { originalState, prevInteractionContext, branchPath } =
         performOptimisticUpdate(inputValue);
-
-      llmOutputFieldRef.current?.startStream();
+      setGenerationError(null);
 
       try {
-        let streamedContent = "";
-        let streamedThinking = "";
-
-        await sendPlayerInputToLlm({
-          missionId: mission,
-          setStateCallback: ({
-            llmOutput: newLlmOutput,
-            llmThinking: newLlmThinking,
-          }) => {
-            streamedContent = newLlmOutput;
-            streamedThinking = newLlmThinking || "";
-            llmOutputFieldRef.current?.updateStream(
-              newLlmOutput,
-              newLlmThinking,
-            );
-          },
-          playerInputField: inputValue,
-          prevInteraction: prevInteractionContext,
-        });
-
-        llmOutputFieldRef.current?.completeStream(
-          streamedContent,
-          streamedThinking,
+        const result = await streamGamemasterAnswer(
+          missionId,
+          inputValue,
+          prevInteractionContext,
+          branchPath,
         );
-        updateLlmOutput(streamedContent);
-        updateLlmThinking(streamedThinking);
+        commitStreamResult(result);
+        return null;
       } catch (error) {
         rollbackOptimisticUpdate(originalState);
         console.log("Failed to send player input:", error);
+        return error;
+      } finally {
+        endAnnouncement();
       }
     },
     [
-      mission,
       performOptimisticUpdate,
-      updateLlmOutput,
-      updateLlmThinking,
+      streamGamemasterAnswer,
+      commitStreamResult,
       rollbackOptimisticUpdate,
     ],
   );
 
+  /**
+   * Puts a turn into the offline queue, remembering the history it was written against.
+   */
+  const queueTurn = useCallback(
+    (missionId: number, inputValue: string) => {
+      const { interactions, playerInputOld } = useHistoryStore.getState();
+      enqueueTurn(missionId, inputValue, {
+        interactionCount: interactions.length + (playerInputOld ? 1 : 0),
+        lastPlayerInput: playerInputOld,
+      });
+      updatePlayerInput("");
+    },
+    [enqueueTurn, updatePlayerInput],
+  );
+
+  const sendPlayerInputWithStreaming = useCallback(
+    async (inputValue: string): Promise<void> => {
+      if (mission === null || inputValue === "") return;
+      if (!(await commitPendingRewind())) return;
+
+      // Keep the order: later turns wait behind queued ones
+      if (
+        useOfflineQueueStore
+          .getState()
+          .turns.some((turn) => turn.missionId === mission)
+      ) {
+        queueTurn(mission, inputValue);
+        return;
+      }
+
+      const error = await sendTurn(mission, inputValue);
+      if (error === null) return;
+      if (error instanceof NetworkError && !error.timedOut) {
+        // The backend never got the turn; keep it for later instead of losing it
+        queueTurn(mission, inputValue);
+        setGenerationError(null);
+      } else {
+        setGenerationError(describeHttpError(error));
+      }
+    },
+    [mission, commitPendingRewind, sendTurn, queueTurn],
+  );
+
+  /**
+   * Sends a turn from the offline queue, leaving the player's current draft alone.
+   * Resolves with the error of a failed turn, which the queue shows, or `null` on success.
+   */
+  const replayQueuedTurn = useCallback(
+    async (inputValue: string): Promise<unknown> => {
+      if (mission === null) return new Error("No mission is open");
+      if (!(await commitPendingRewind())) {
+        return new Error("The pending rewind was not saved");
+      }
+      const draft = useHistoryStore.getState().playerInput;
+      const error = await sendTurn(mission, inputValue);
+      updatePlayerInput(draft);
+      return error;
+    },
+    [mission, commitPendingRewind, sendTurn, updatePlayerInput],
+  );
+
+  const { queuedTurns, discardTurn, retryTurn, sendAnyway, discardAll } =
+    useOfflineQueueReplay(mission, replayQueuedTurn);
+
+  /**
+   * Adds a new alternative of the latest exchange with a fresh answer; the original
+   * exchange stays available as its sibling, locally and on the backend. Only the Send
+   * button of the latest player input starts it, so an edit alone never generates.
+   */
   const sendRegenerateWithStreaming = useCallback(
     async (inputValue: string): Promise<void> => {
       if (mission === null || inputValue === "") return;
+      // A second stream would add another sibling and escape the Stop button
+      const isGenerating = () =>
+        activeGenerationRef.current !== null ||
+        useHistoryStore.getState().generationStatus ===
+          GenerationStatus.STREAMING;
+      if (isGenerating()) return;
+      if (!(await commitPendingRewind()) || isGenerating()) return;
 
       const prevInteraction = {
         playerInput: inputValue,
         llmOutput: llmOutput,
       };
 
-      commitPlayerInput(inputValue, "", ""); // Clear LLM output for regeneration
+      const endAnnouncement = announceGeneration(mission);
+      const { originalState, branchPath } = startAlternative(inputValue);
+      setGenerationError(null);
 
-      llmOutputFieldRef.current?.startStream();
+      try {
+        const result = await streamGamemasterAnswer(
+          mission,
+          undefined,
+          prevInteraction,
+          branchPath,
+        );
+        commitStreamResult(result);
+      } catch (error) {
+        rollbackOptimisticUpdate(originalState);
+        setGenerationError(describeHttpError(error));
+        console.error("Failed to regenerate:", error);
+      } finally {
+        endAnnouncement();
+      }
+    },
+    [
+      mission,
+      llmOutput,
+      commitPendingRewind,
+      startAlternative,
+      streamGamemasterAnswer,
+      commitStreamResult,
+      rollbackOptimisticUpdate,
+    ],
+  );
 
+  /**
+   * Shows another alternative of an exchange and tells the backend to continue from it.
+   */
+  const handleSelectBranch = useCallback(
+    async (nodeId: string) => {
+      if (!(await commitPendingRewind())) return;
+      const branchPath = selectBranch(nodeId);
+      setGenerationError(null);
+      if (mission === null) return;
+      backend.selectBranch(mission, branchPath).catch((error) => {
+        setGenerationError(describeHttpError(error));
+        console.error("Failed to select branch:", error);
+      });
+    },
+    [mission, commitPendingRewind, selectBranch],
+  );
+
+  /**
+   * Stores a hand edit of an earlier exchange and sends it to the backend as a patch,
+   * reverting the edit if the backend refuses it.
+   */
+  const handleEditInteraction = useCallback(
+    async (nodeId: string, patch: Partial<Interaction>) => {
+      if (!(await commitPendingRewind())) return;
+      const { originalState, branchPath } = editInteraction(nodeId, patch);
+      setGenerationError(null);
+      if (mission === null) return;
       try {
-        let streamedContent = "";
-        let streamedThinking = "";
+        await backend.patchInteraction(mission, branchPath, patch);
+      } catch (error) {
+        rollbackOptimisticUpdate(originalState);
+        setGenerationError("Edit not saved: " + describeHttpError(error));
+        console.error("Failed to patch interaction:", error);
+      }
+    },
+    [mission, commitPendingRewind, editInteraction, rollbackOptimisticUpdate],
+  );
 
-        await sendPlayerInputToLlm({
-          missionId: mission,
-          setStateCallback: ({
-            llmOutput: newLlmOutput,
-            llmThinking: newLlmThinking,
-          }) => {
-            streamedContent = newLlmOutput;
-            streamedThinking = newLlmThinking || "";
-            llmOutputFieldRef.current?.updateStream(
-              newLlmOutput,
-              newLlmThinking,
-            );
-          },
-          prevInteraction,
-        });
+  /**
+   * Corrections of the latest answer; the exchange is looked up on commit since the fields
+   * outlive it.
+   */
+  const handleEditLatestLlmOutput = useCallback(
+    (value: string) => {
+      const { activePathIds: pathIds } = useHistoryStore.getState();
+      const nodeId = pathIds[pathIds.length - 1];
+      if (nodeId) void handleEditInteraction(nodeId, { llmOutput: value });
+    },
+    [handleEditInteraction],
+  );
 
-        llmOutputFieldRef.current?.completeStream(
-          streamedContent,
-          streamedThinking,
+  // ===== REWIND =====
+  /**
+   * Rewinds the story to the exchange chosen in the confirmation dialog. The backend is
+   * only told once the undo snackbar is gone, so undoing is purely local.
+   */
+  const handleConfirmRewind = useCallback(async () => {
+    const nodeId = rewindTargetId;
+    setRewindTargetId(null);
+    if (mission === null || nodeId === null) return;
+    if (!(await commitPendingRewind())) return;
+
+    const { originalState, branchPath } = rewindTo(nodeId);
+    pendingRewindRef.current = {
+      missionId: mission,
+      branchPath,
+      originalState,
+    };
+    setGenerationError(null);
+    setRewindUndoOpen(true);
+  }, [mission, rewindTargetId, commitPendingRewind, rewindTo]);
+
+  const handleUndoRewind = useCallback(() => {
+    const pending = pendingRewindRef.current;
+    pendingRewindRef.current = null;
+    setRewindUndoOpen(false);
+    if (pending) rollbackOptimisticUpdate(pending.originalState);
+  }, [rollbackOptimisticUpdate]);
+
+  const handleRewindSnackbarClose = useCallback(
+    (_event: unknown, reason?: string) => {
+      // Clicking elsewhere keeps the undo offer; timing out or dismissing commits the rewind
+      if (reason === "clickaway") return;
+      void commitPendingRewind();
+    },
+    [commitPendingRewind],
+  );
+
+  // A rewind still pending when the mission is left has to reach the backend as well
+  useEffect(() => {
+    return () => {
+      const pending = pendingRewindRef.current;
+      if (!pending) return;
+      pendingRewindRef.current = null;
+      setRewindUndoOpen(false);
+      forgetUndoBefore(pending.originalState.nodes);
+      backend
+        .rewind(pending.missionId, pending.branchPath)
+        .catch((error) => console.error("Failed to rewind:", error));
+    };
+  }, [mission, forgetUndoBefore]);
+
+  // ===== UNDO / REDO =====
+  /**
+   * Brings the backend in line with a local undo or redo step: texts that differ are
+   * patched and the restored active branch is selected. Exchanges the step removed
+   * locally stay on the server as alternatives.
+   */
+  const syncUndoStep = useCallback(
+    async (result: UndoResult | null) => {
+      if (!result || mission === null) return;
+      const { before, after } = result;
+      setGenerationError(null);
+
+      try {
+        for (const node of Object.values(after)) {
+          const previous = before[node.id];
+          if (node.id === ROOT_ID || !previous) continue;
+          const patch: Partial<Interaction> = {};
+          if (node.playerInput !== previous.playerInput) {
+            patch.playerInput = node.playerInput;
+          }
+          if (node.llmOutput !== previous.llmOutput) {
+            patch.llmOutput = node.llmOutput;
+          }
+          if (Object.keys(patch).length > 0) {
+            await backend.patchInteraction(
+              mission,
+              getBranchPath(after, node.id),
+              patch,
+            );
+          }
+        }
+        const path = getActivePath(after);
+        await backend.selectBranch(
+          mission,
+          getBranchPath(after, path[path.length - 1]?.id ?? ROOT_ID),
         );
-        updateLlmOutput(streamedContent);
-        updateLlmThinking(streamedThinking);
       } catch (error) {
-        console.error("Failed to regenerate:", error);
+        setGenerationError("Undo not saved: " + describeHttpError(error));
+        console.error("Failed to sync undo step:", error);
       }
     },
-    [mission, llmOutput, commitPlayerInput, updateLlmOutput, updateLlmThinking],
+    [mission],
   );
 
+  const handleUndo = useCallback(() => {
+    // A rewind that is still pending is undone locally, like its snackbar does
+    if (pendingRewindRef.current) {
+      handleUndoRewind();
+      return;
+    }
+    void syncUndoStep(undo());
+  }, [handleUndoRewind, syncUndoStep, undo]);
+
+  const handleRedo = useCallback(() => {
+    void syncUndoStep(redo());
+  }, [syncUndoStep, redo]);
+
   // ===== AUDIO MANAGEMENT =====
   const cleanupAudio = useCallback(() => {
     if (audio) {
@@ -229,8 +662,8 @@ const History = ({ mission, disabled, ...props }: HistoryProps) => {
       cleanupAudio();
 
       const audioElem = USE_TTS_STREAM
-        ? await sendTextToSpeechStream(llmOutput)
-        : new Audio(URL.createObjectURL(await sendTextToSpeech(llmOutput)));
+        ? await backend.textToSpeechStream(llmOutput)
+        : new Audio(URL.createObjectURL(await backend.textToSpeech(llmOutput)));
 
       audioElem.onended = () => setIsPlaying(false);
       audioElem.onerror = (e) => {
@@ -246,8 +679,7 @@ const History = ({ mission, disabled, ...props }: HistoryProps) => {
     } catch (err) {
       console.error("TTS Error:", err);
       setAudioError(
-        "❌ Could not synthesize or play audio: " +
-          (err instanceof Error ? err.message : String(err)),
+        "❌ Could not synthesize or play audio: " + describeHttpError(err),
       );
       setIsPlaying(false);
     } finally {
@@ -265,57 +697,175 @@ const History = ({ mission, disabled, ...props }: HistoryProps) => {
   }, [cleanupAudio]);
 
   // ===== RENDER HELPERS =====
+  const isStreaming = generationStatus === GenerationStatus.STREAMING;
+  useUndoRedoShortcuts(handleUndo, handleRedo, !disabled && !isStreaming);
+  const latestNodeId = activePathIds[activePathIds.length - 1];
+  // The latest exchange has its own fields below the list
+  const pastNodeIds = useMemo(
+    () => activePathIds.slice(0, -1),
+    [activePathIds],
+  );
+  const {
+    listRef,
+    visibleIds,
+    paddingTop,
+    paddingBottom,
+    measureItem,
+    scrollToIndex,
+  } = useVirtualList(pastNodeIds, containerRef);
+  const {
+    hits: searchHits,
+    activeHit,
+    activeIndex: activeHitIndex,
+    showNext: showNextHit,
+    showPrevious: showPreviousHit,
+    highlightFor,
+  } = useHistorySearch(nodes, activePathIds);
+
+  // Bring the current search hit into view. Its exchange may not be mounted yet; the
+  // jump to its estimated position mounts it, and the next run scrolls to the match.
+  const scrolledHitRef = useRef<SearchHit | null>(null);
+  useEffect(() => {
+    if (!activeHit || scrolledHitRef.current === activeHit) return;
+    const mark = containerRef.current?.querySelector(
+      "mark[data-search-active]",
+    );
+    if (mark || visibleIds.includes(activeHit.nodeId)) {
+      scrolledHitRef.current = activeHit;
+      mark?.scrollIntoView({ block: "center", behavior: "smooth" });
+      return;
+    }
+    const index = pastNodeIds.indexOf(activeHit.nodeId);
+    if (index !== -1) scrollToIndex(index);
+  }, [activeHit, pastNodeIds, visibleIds, scrollToIndex]);
+
+  const siblingIdsOf = (nodeId: string) =>
+    nodes[nodes[nodeId]?.parentId ?? ""]?.childIds ?? [];
+
   const InteractionList = useCallback(
-    (interactions: Interaction[]) => (
+    (nodeIds: string[]) => (
       <>
-        {interactions.map((interaction, index) => (
-          <div key={index}>
-            <Typography
-              variant="subtitle2"
-              fontStyle="italic"
-              color="secondary"
-            >
-              <br />
-              Player
-              <br />
-            </Typography>
-            <MarkdownRenderer
-              value={interaction.playerInput}
-              color="secondary"
+        {nodeIds.map((nodeId) => (
+          <div
+            key={nodeId}
+            ref={measureItem}
+            data-virtual-id={nodeId}
+            // Keeps the margins of the fields inside the measured height
+            style={{ display: "flow-root" }}
+          >
+            <PastExchange
+              node={nodes[nodeId]}
+              siblingIds={nodes[nodes[nodeId].parentId ?? ""]?.childIds ?? []}
+              showThinking={showThinking}
+              playerInputHighlight={highlightFor(nodeId, "playerInput")}
+              llmOutputHighlight={highlightFor(nodeId, "llmOutput")}
+              onEdit={handleEditInteraction}
+              onSelectBranch={handleSelectBranch}
+              onRewind={setRewindTargetId}
+              disabled={disabled || isStreaming}
             />
-            <Typography variant="subtitle2" fontStyle="italic" color="primary">
-              <br />
-              Gamemaster
-              <br />
-            </Typography>
-            <MarkdownRenderer value={interaction.llmOutput} color="primary" />
           </div>
         ))}
       </>
     ),
-    [],
+    [
+      nodes,
+      handleSelectBranch,
+      handleEditInteraction,
+      disabled,
+      isStreaming,
+      showThinking,
+      highlightFor,
+      measureItem,
+    ],
   );
 
   return (
     <Container
       {...props}
+      ref={containerRef}
       sx={{
         display: "flex",
         flexDirection: "column",
         width: "95%",
         overflow: "auto",
+        // Height changes above the viewport are compensated by useVirtualList
+        overflowAnchor: "none",
         paddingTop: 0,
         marginLeft: 0,
         marginRight: 0,
       }}
     >
-      {InteractionList(interactions)}
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "flex-end",
+          alignItems: "center",
+        }}
+      >
+        <Tooltip title="Search this mission">
+          <IconButton
+            size="small"
+            color="secondary"
+            onClick={searchOpen ? closeSearch : openSearch}
+            aria-label="Search this mission"
+            aria-pressed={searchOpen}
+          >
+            <SearchIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title={showThinking ? "Hide reasoning" : "Show reasoning"}>
+          <IconButton
+            size="small"
+            color="secondary"
+            onClick={() => setShowThinking(!showThinking)}
+            aria-label="Show reasoning"
+            aria-pressed={showThinking}
+          >
+            {showThinking ? (
+              <PsychologyIcon fontSize="small" />
+            ) : (
+              <PsychologyOutlinedIcon fontSize="small" />
+            )}
+          </IconButton>
+        </Tooltip>
+        <UndoRedoToolbar
+          canUndo={canUndo}
+          canRedo={canRedo}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          color="secondary"
+          disabled={disabled || isStreaming}
+        />
+      </Box>
+
+      <HistorySearch
+        hitCount={searchHits.length}
+        activeIndex={activeHitIndex}
+        onNext={showNextHit}
+        onPrevious={showPreviousHit}
+        color="secondary"
+      />
+
+      <div ref={listRef} style={{ paddingTop, paddingBottom }}>
+        {InteractionList(visibleIds)}
+      </div>
+
+      {latestNodeId && (
+        <BranchPager
+          siblingIds={siblingIdsOf(latestNodeId)}
+          activeId={latestNodeId}
+          onSelect={handleSelectBranch}
+          color="secondary"
+          disabled={disabled || isStreaming}
+        />
+      )}
 
       <MemoizedFieldContainer
         sendCallback={sendRegenerateWithStreaming}
         stopCallback={stopGeneration}
-        onCommit={updatePlayerInputOld}
         value={playerInputOld}
+        highlight={highlightFor(latestNodeId, "playerInput")}
         instance="Player"
         color="secondary"
         type={FieldContainerType.PLAYER_OLD}
@@ -324,15 +874,39 @@ const History = ({ mission, disabled, ...props }: HistoryProps) => {
 
       <MemoizedFieldContainer
         ref={llmOutputFieldRef}
-        onCommit={updateLlmOutput}
+        onCommit={handleEditLatestLlmOutput}
         onStreamComplete={updateLlmOutput}
         value={llmOutput}
         thinking={llmThinking}
+        showThinking={showThinking}
+        highlight={highlightFor(latestNodeId, "llmOutput")}
         instance="Gamemaster"
         color="primary"
         type={FieldContainerType.GAMEMASTER}
         disabled={disabled}
       />
+      {spectating && (
+        <Typography color="info" variant="caption" sx={{ mt: 0.5 }}>
+          Another tab is generating an answer. This tab follows along read-only.
+        </Typography>
+      )}
+      {generationStatus === GenerationStatus.STOPPED && (
+        <Typography color="warning" variant="caption" sx={{ mt: 0.5 }}>
+          Generation stopped. This answer is incomplete.
+        </Typography>
+      )}
+      {generationError && (
+        <Typography color="error" variant="caption" sx={{ mt: 0.5 }}>
+          {generationError}
+        </Typography>
+      )}
+      <QueuedTurns
+        turns={queuedTurns}
+        onDiscard={discardTurn}
+        onRetry={retryTurn}
+        onSendAnyway={sendAnyway}
+        onDiscardAll={discardAll}
+      />
 
       {/* TTS Controls */}
       <div
@@ -388,6 +962,31 @@ const History = ({ mission, disabled, ...props }: HistoryProps) => {
         placeholder="Begin by describing your character and what he's currently doing."
         speechToTextCallback={speechToTextCallback}
       />
+
+      <ConfirmDialog
+        open={rewindTargetId !== null}
+        title="Rewind the story?"
+        message="Every exchange after this one is discarded, including its alternative answers. This exchange becomes the latest one and can be edited or regenerated again."
+        confirmLabel="Rewind"
+        onConfirm={handleConfirmRewind}
+        onCancel={() => setRewindTargetId(null)}
+      />
+      <Snackbar
+        open={rewindUndoOpen}
+        autoHideDuration={8000}
+        onClose={handleRewindSnackbarClose}
+        message="Story rewound."
+        action={
+          <Button color="warning" size="small" onClick={handleUndoRewind}>
+            Undo
+          </Button>
+        }
+      />
+      <JumpToLatest
+        scrollRef={containerRef}
+        following={isStreaming || spectating}
+        color="secondary"
+      />
     </Container>
   );
 };
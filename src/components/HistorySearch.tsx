@@ -0,0 +1,171 @@
+import {
+  Box,
+  IconButton,
+  InputAdornment,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import SearchIcon from "@mui/icons-material/Search";
+import CloseIcon from "@mui/icons-material/Close";
+import KeyboardArrowUpIcon from "@mui/icons-material/KeyboardArrowUp";
+import KeyboardArrowDownIcon from "@mui/icons-material/KeyboardArrowDown";
+import { useShallow } from "zustand/react/shallow";
+
+import { Colors } from "../styles/styles";
+import { SearchScope } from "../models/SearchTypes";
+import useSearchStore from "../stores/searchStore";
+
+/**
+ * Props for the HistorySearch component.
+ */
+type HistorySearchProps = {
+  /** Number of hits of the current query. */
+  hitCount: number;
+  /** Index of the hit currently shown. */
+  activeIndex: number;
+  /** Shows the next hit. */
+  onNext: () => void;
+  /** Shows the previous hit. */
+  onPrevious: () => void;
+  /** The color theme of the panel. */
+  color: Colors;
+};
+
+/**
+ * HistorySearch is the search panel above the history: a query field, a filter for player
+ * or gamemaster texts and navigation between hits. Enter shows the next hit, Shift+Enter the
+ * previous one and Escape closes the panel. Query and filter live in {@link useSearchStore}.
+ *
+ * @param props - The props for the component. See {@link HistorySearchProps}.
+ * @returns The HistorySearch component, or nothing while the search is closed.
+ */
+export default function HistorySearch({
+  hitCount,
+  activeIndex,
+  onNext,
+  onPrevious,
+  color,
+}: HistorySearchProps) {
+  const { open, query, scope, setQuery, setScope, closeSearch } =
+    useSearchStore(
+      useShallow((state) => ({
+        open: state.open,
+        query: state.query,
+        scope: state.scope,
+        setQuery: state.setQuery,
+        setScope: state.setScope,
+        closeSearch: state.closeSearch,
+      })),
+    );
+
+  if (!open) return null;
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      if (event.shiftKey) {
+        onPrevious();
+      } else {
+        onNext();
+      }
+    } else if (event.key === "Escape") {
+      closeSearch();
+    }
+  };
+
+  return (
+    <Box
+      sx={{
+        display: "flex",
+        alignItems: "center",
+        flexWrap: "wrap",
+        gap: 1,
+        mb: 1,
+      }}
+      role="search"
+    >
+      <TextField
+        size="small"
+        autoFocus
+        placeholder="Search this mission"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        onKeyDown={handleKeyDown}
+        color={color}
+        slotProps={{
+          input: {
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon fontSize="small" />
+              </InputAdornment>
+            ),
+          },
+          htmlInput: { "aria-label": "Search this mission" },
+        }}
+        sx={{ flex: "1 1 200px" }}
+      />
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={scope}
+        onChange={(_, value: SearchScope | null) => value && setScope(value)}
+        color={color}
+        aria-label="Search in"
+      >
+        <ToggleButton value={SearchScope.ALL}>All</ToggleButton>
+        <ToggleButton value={SearchScope.PLAYER}>Player</ToggleButton>
+        <ToggleButton value={SearchScope.GAMEMASTER}>Gamemaster</ToggleButton>
+      </ToggleButtonGroup>
+      <Typography
+        variant="caption"
+        color="text.secondary"
+        sx={{ minWidth: 48, textAlign: "center" }}
+        aria-live="polite"
+      >
+        {query.trim()
+          ? hitCount > 0
+            ? `${activeIndex + 1} / ${hitCount}`
+            : "No hits"
+          : ""}
+      </Typography>
+      <Tooltip title="Previous hit (Shift+Enter)">
+        <span>
+          <IconButton
+            size="small"
+            color={color}
+            onClick={onPrevious}
+            disabled={hitCount === 0}
+            aria-label="Previous hit"
+          >
+            <KeyboardArrowUpIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Next hit (Enter)">
+        <span>
+          <IconButton
+            size="small"
+            color={color}
+            onClick={onNext}
+            disabled={hitCount === 0}
+            aria-label="Next hit"
+          >
+            <KeyboardArrowDownIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Close search (Esc)">
+        <IconButton
+          size="small"
+          onClick={closeSearch}
+          aria-label="Close search"
+        >
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    </Box>
+  );
+}
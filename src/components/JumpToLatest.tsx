@@ -0,0 +1,65 @@
+import { RefObject } from "react";
+import { Box, Fab, Zoom } from "@mui/material";
+import KeyboardArrowDownIcon from "@mui/icons-material/KeyboardArrowDown";
+
+import { Colors } from "../styles/styles";
+import { useStickToBottom } from "../hooks/useStickToBottom";
+
+/**
+ * Props for the JumpToLatest component.
+ */
+type JumpToLatestProps = {
+  /** The element that scrolls the history. The button must be rendered inside it. */
+  scrollRef: RefObject<HTMLElement | null>;
+  /** Whether new text arrives right now, e.g. while the gamemaster answers. */
+  following: boolean;
+  /** The color theme of the button. */
+  color: Colors;
+};
+
+/**
+ * JumpToLatest keeps the history scrolled to the latest text while it streams in, unless the
+ * player scrolled up to reread. Then a floating button at the bottom of the view offers to
+ * jump back, and tells whether new text arrived below in the meantime.
+ *
+ * @param props - The props for the component. See {@link JumpToLatestProps}.
+ * @returns The JumpToLatest component.
+ */
+export default function JumpToLatest({
+  scrollRef,
+  following,
+  color,
+}: JumpToLatestProps) {
+  const { atBottom, hasNewContent, jumpToLatest } = useStickToBottom(
+    scrollRef,
+    following,
+  );
+
+  return (
+    // Sticks to the bottom of the visible area; takes no space in the layout
+    <Box
+      sx={{
+        position: "sticky",
+        bottom: 16,
+        height: 0,
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "flex-end",
+        zIndex: 1,
+      }}
+    >
+      <Zoom in={!atBottom} unmountOnExit>
+        <Fab
+          variant="extended"
+          size="small"
+          color={color}
+          onClick={jumpToLatest}
+          aria-label={hasNewContent ? "New text below" : "Jump to latest"}
+        >
+          <KeyboardArrowDownIcon sx={{ mr: 0.5 }} />
+          {hasNewContent ? "New text below" : "Jump to latest"}
+        </Fab>
+      </Zoom>
+    </Box>
+  );
+}
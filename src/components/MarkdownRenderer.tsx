@@ -1,9 +1,12 @@
-import React from "react";
+import React, { useMemo } from "react";
 import ReactMarkdown from "react-markdown";
-import remarkBreaks from "remark-breaks";
 import Typography from "@mui/material/Typography";
 import { Divider } from "@mui/material";
 
+import { findOccurrences } from "../functions/historySearch";
+import { MARKDOWN_REMARK_PLUGINS } from "../functions/markdownText";
+import { TextHighlight } from "../models/SearchTypes";
+
 /**
  * Props for the MarkdownRenderer component.
  */
@@ -12,16 +15,74 @@ interface MarkdownRendererProps {
   value: string;
   /** The color to apply to the rendered text. This should be a valid CSS color string (e.g., 'primary', '#FF0000'). */
   color: string;
+  /** Optional search matches to mark in the rendered text. */
+  highlight?: TextHighlight;
+}
+
+/** The parts of a rendered HTML tree (hast) the highlighting needs. */
+type HtmlNode = {
+  type: string;
+  value?: string;
+  tagName?: string;
+  properties?: Record<string, unknown>;
+  children?: HtmlNode[];
+};
+
+/**
+ * A rehype plugin that wraps every occurrence of the query in the rendered text in `<mark>`.
+ * The active occurrence gets a `data-search-active` attribute, so it can be styled and
+ * scrolled to. Occurrences spanning formatting (e.g. half bold) aren't marked.
+ */
+function rehypeHighlight({ query, activeMatch }: TextHighlight) {
+  return (tree: HtmlNode) => {
+    let occurrence = 0;
+    const visit = (node: HtmlNode) => {
+      if (!node.children) return;
+      node.children = node.children.flatMap((child) => {
+        if (child.type !== "text" || !child.value) {
+          visit(child);
+          return [child];
+        }
+        const text = child.value;
+        const matches = findOccurrences(text, query);
+        if (matches.length === 0) return [child];
+
+        const parts: HtmlNode[] = [];
+        let end = 0;
+        for (const match of matches) {
+          const { start } = match;
+          if (start > end) {
+            parts.push({ type: "text", value: text.slice(end, start) });
+          }
+          parts.push({
+            type: "element",
+            tagName: "mark",
+            properties:
+              occurrence === activeMatch ? { dataSearchActive: true } : {},
+            children: [{ type: "text", value: text.slice(start, match.end) }],
+          });
+          occurrence++;
+          end = match.end;
+        }
+        if (end < text.length) {
+          parts.push({ type: "text", value: text.slice(end) });
+        }
+        return parts;
+      });
+    };
+    visit(tree);
+  };
 }
 
 /**
  * MarkdownRenderer is a component that takes a Markdown string and renders it as HTML.
  * It uses the `react-markdown` library for parsing and rendering.
- * - The `remarkBreaks` plugin is used to interpret line breaks in Markdown as `<br>` elements.
+ * - The `remarkBreaks` plugin (see {@link MARKDOWN_REMARK_PLUGINS}) is used to interpret line breaks in Markdown as `<br>` elements.
  * - Custom components are provided for:
  *   - `p` (paragraph): Renders as an MUI Typography component with specific styling (margin, line height, font size, letter spacing).
  *                      The `component="div"` prop is used to ensure it behaves like a block element for layout purposes.
  *   - `hr` (horizontal rule): Renders as an MUI Box component styled as a horizontal line with the specified color.
+ * - With `highlight`, search matches are marked (see {@link rehypeHighlight}).
  *
  * @param props - The props for the component. See {@link MarkdownRendererProps}.
  * @returns The MarkdownRenderer component.
@@ -29,17 +90,42 @@ interface MarkdownRendererProps {
 const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({
   value,
   color,
+  highlight,
 }) => {
+  const rehypePlugins = useMemo(
+    () =>
+      highlight?.query.trim()
+        ? [
+            [rehypeHighlight, highlight] as [
+              typeof rehypeHighlight,
+              TextHighlight,
+            ],
+          ]
+        : [],
+    [highlight],
+  );
+
   return (
     <Typography
       color={color}
       component="div"
       sx={{
         whiteSpace: "normal",
+        "& mark": {
+          backgroundColor: "warning.light",
+          color: "inherit",
+          borderRadius: 0.5,
+        },
+        "& mark[data-search-active]": {
+          backgroundColor: "warning.main",
+          outline: "2px solid",
+          outlineColor: "warning.dark",
+        },
       }}
     >
       <ReactMarkdown
-        remarkPlugins={[remarkBreaks]}
+        remarkPlugins={MARKDOWN_REMARK_PLUGINS}
+        rehypePlugins={rehypePlugins}
         components={{
           p: ({ node, ref, ...props }) => (
             <Typography
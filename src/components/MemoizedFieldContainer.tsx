@@ -4,6 +4,7 @@ import FieldContainer, {
   FieldContainerHandle,
 } from "./FieldContainer";
 import { Colors } from "../styles/styles";
+import { TextHighlight } from "../models/SearchTypes";
 
 // Props interface for the memoized field container
 interface MemoizedFieldContainerProps {
@@ -13,6 +14,7 @@ interface MemoizedFieldContainerProps {
   stopCallback?: () => Promise<void>;
   value: string;
   thinking?: string;
+  showThinking?: boolean;
   instance: string;
   color: Colors;
   type: FieldContainerType;
@@ -21,6 +23,8 @@ interface MemoizedFieldContainerProps {
   speechToTextCallback?: (audioBlob: Blob) => Promise<void>;
   useLocalState?: boolean;
   onStreamComplete?: (value: string) => void;
+  labelAdornment?: React.ReactNode;
+  highlight?: TextHighlight;
 }
 
 // Custom comparison function for React.memo
@@ -28,16 +32,27 @@ const arePropsEqual = (
   prevProps: MemoizedFieldContainerProps,
   nextProps: MemoizedFieldContainerProps,
 ): boolean => {
-  // Only re-render if essential props change
-  // Note: We don't compare callbacks as they should be stable from useCallback
+  // Callbacks and the label adornment are compared by reference, so a stale callback is
+  // never kept; callers keep them stable with useCallback and useMemo (see PastExchange)
   return (
+    prevProps.sendCallback === nextProps.sendCallback &&
+    prevProps.changeCallback === nextProps.changeCallback &&
+    prevProps.onCommit === nextProps.onCommit &&
+    prevProps.stopCallback === nextProps.stopCallback &&
+    prevProps.speechToTextCallback === nextProps.speechToTextCallback &&
+    prevProps.onStreamComplete === nextProps.onStreamComplete &&
     prevProps.value === nextProps.value &&
+    prevProps.thinking === nextProps.thinking &&
+    prevProps.showThinking === nextProps.showThinking &&
     prevProps.disabled === nextProps.disabled &&
     prevProps.type === nextProps.type &&
     prevProps.instance === nextProps.instance &&
     prevProps.color === nextProps.color &&
     prevProps.placeholder === nextProps.placeholder &&
-    prevProps.useLocalState === nextProps.useLocalState
+    prevProps.useLocalState === nextProps.useLocalState &&
+    prevProps.labelAdornment === nextProps.labelAdornment &&
+    prevProps.highlight?.query === nextProps.highlight?.query &&
+    prevProps.highlight?.activeMatch === nextProps.highlight?.activeMatch
   );
 };
 
@@ -51,6 +66,7 @@ const MemoizedFieldContainer = React.memo(
         stopCallback,
         value,
         thinking,
+        showThinking,
         instance,
         color,
         type,
@@ -59,6 +75,8 @@ const MemoizedFieldContainer = React.memo(
         speechToTextCallback,
         useLocalState = true,
         onStreamComplete,
+        labelAdornment,
+        highlight,
       },
       ref,
     ) => {
@@ -70,6 +88,7 @@ const MemoizedFieldContainer = React.memo(
           stopCallback={stopCallback}
           value={value}
           thinking={thinking}
+          showThinking={showThinking}
           instance={instance}
           color={color}
           type={type}
@@ -78,6 +97,8 @@ const MemoizedFieldContainer = React.memo(
           speechToTextCallback={speechToTextCallback}
           useLocalState={useLocalState}
           onStreamComplete={onStreamComplete}
+          labelAdornment={labelAdornment}
+          highlight={highlight}
         />
       );
     },
@@ -0,0 +1,177 @@
+import * as React from "react";
+import {
+  Box,
+  CircularProgress,
+  InputAdornment,
+  List,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Typography,
+} from "@mui/material";
+import SearchIcon from "@mui/icons-material/Search";
+
+import { Mission } from "../models/MissionModels";
+import { MissionSearchResult } from "../models/SearchTypes";
+import { findOccurrences } from "../functions/historySearch";
+
+/** Time without typing before a search is sent. */
+const SEARCH_DEBOUNCE_MS = 300;
+/** Shorter queries would match almost everything. */
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Props for the MissionContentSearch component.
+ */
+type MissionContentSearchProps = {
+  /** Known missions, used to show the names of matching missions. */
+  missions: Mission[] | null;
+  /** Searches the interactions of all missions. */
+  searchCallback: (query: string) => Promise<MissionSearchResult[]>;
+  /** Called when the player picks a match, with the query that found it. */
+  onSelect: (result: MissionSearchResult, query: string) => void;
+};
+
+/**
+ * Renders `text` with every occurrence of `query` marked.
+ */
+function HighlightedSnippet({ text, query }: { text: string; query: string }) {
+  const parts: React.ReactNode[] = [];
+  let end = 0;
+  for (const { start, end: matchEnd } of findOccurrences(text, query)) {
+    parts.push(text.slice(end, start));
+    parts.push(
+      <Box
+        component="mark"
+        key={start}
+        sx={{ backgroundColor: "warning.light", color: "inherit" }}
+      >
+        {text.slice(start, matchEnd)}
+      </Box>,
+    );
+    end = matchEnd;
+  }
+  parts.push(text.slice(end));
+  return <>{parts}</>;
+}
+
+/**
+ * MissionContentSearch searches the interactions of all saved missions and lists the matches
+ * with a snippet each. Picking a match hands it to `onSelect`, which opens the mission.
+ *
+ * @param props - The props for the component. See {@link MissionContentSearchProps}.
+ * @returns The MissionContentSearch component.
+ */
+export default function MissionContentSearch({
+  missions,
+  searchCallback,
+  onSelect,
+}: MissionContentSearchProps) {
+  const [query, setQuery] = React.useState("");
+  const [results, setResults] = React.useState<MissionSearchResult[]>([]);
+  const [searching, setSearching] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  /**
+   * Effect to run the search once the player stopped typing. Answers to outdated
+   * queries are ignored.
+   */
+  React.useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setSearching(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = window.setTimeout(async () => {
+      try {
+        const found = await searchCallback(trimmed);
+        if (cancelled) return;
+        setResults(found);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        console.error("Failed to search missions:", err);
+        setResults([]);
+        setError("The search failed. Please try again.");
+      }
+      setSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [query, searchCallback]);
+
+  const missionName = (missionId: number) => {
+    const mission = missions?.find(
+      (candidate) => candidate.missionId === missionId,
+    );
+    return mission
+      ? mission.nameCustom || mission.name
+      : `Mission ${missionId}`;
+  };
+
+  const trimmed = query.trim();
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <TextField
+        label="Search in all missions"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        fullWidth
+        slotProps={{
+          input: {
+            endAdornment: (
+              <InputAdornment position="end">
+                {searching ? (
+                  <CircularProgress size={18} />
+                ) : (
+                  <SearchIcon fontSize="small" />
+                )}
+              </InputAdornment>
+            ),
+          },
+        }}
+      />
+      {error && (
+        <Typography color="error" variant="caption">
+          {error}
+        </Typography>
+      )}
+      {!searching &&
+        !error &&
+        trimmed.length >= MIN_QUERY_LENGTH &&
+        results.length === 0 && (
+          <Typography variant="caption" color="text.secondary">
+            No matches.
+          </Typography>
+        )}
+      {results.length > 0 && (
+        <List dense sx={{ maxHeight: 260, overflow: "auto", mt: 1 }}>
+          {results.map((result) => (
+            <ListItemButton
+              key={`${result.missionId}-${result.interactionIndex}-${result.field}`}
+              onClick={() => onSelect(result, trimmed)}
+            >
+              <ListItemText
+                primary={`${missionName(result.missionId)} · #${
+                  result.interactionIndex + 1
+                } · ${result.field === "playerInput" ? "Player" : "Gamemaster"}`}
+                secondary={
+                  <HighlightedSnippet text={result.snippet} query={trimmed} />
+                }
+              />
+            </ListItemButton>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+}
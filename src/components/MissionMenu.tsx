@@ -30,6 +30,9 @@ import {
 // Import MissionOption from centralized model
 import { Mission } from "../models/MissionModels";
 import { GameType } from "../models/Types";
+import { MissionSearchResult } from "../models/SearchTypes";
+import useSearchStore from "../stores/searchStore";
+import MissionContentSearch from "./MissionContentSearch";
 
 /**
  * Enum for managing the state of active modals within the MissionMenu.
@@ -518,11 +521,16 @@ type LoadMissionModalComponentProps = {
   getMissionData: (
     missionId: number,
   ) => Promise<import("../models/MissionModels").MissionLoadData>;
+  /** Callback to search the interactions of all missions. */
+  searchCallback: (query: string) => Promise<MissionSearchResult[]>;
+  /** Callback to open the mission of a search match at that match. */
+  onSearchResultSelect: (result: MissionSearchResult, query: string) => void;
 };
 
 /**
  * FilterableLoadMissionModal is a component that provides a dialog for loading a previously saved mission.
  * It features an Autocomplete field to select a mission and a dropdown to filter missions by game type.
+ * Below, a search through the interactions of all missions opens a mission right at a match.
  *
  * @param props - The props for the component. See {@link LoadMissionModalComponentProps}.
  * @returns The FilterableLoadMissionModal component.
@@ -535,6 +543,8 @@ function FilterableLoadMissionModal({
   selectedMission,
   setSelectedMission,
   getMissionData,
+  searchCallback,
+  onSearchResultSelect,
 }: LoadMissionModalComponentProps) {
   /** State for the currently selected game type filter. `null` means no filter. */
   const [selectedGameType, setSelectedGameType] =
@@ -696,6 +706,11 @@ function FilterableLoadMissionModal({
         sx={{ ...AutocompleteStyle, mt: 2 }}
         renderInput={(params) => <TextField {...params} label="Mission" />}
       />
+      <MissionContentSearch
+        missions={missions}
+        searchCallback={searchCallback}
+        onSelect={onSearchResultSelect}
+      />
     </BaseMissionModal>
   );
 }
@@ -720,6 +735,8 @@ type MissionMenuComponentProps = {
   saveCallback: (nameCustom: string) => Promise<void>;
   /** Callback function to fetch the list of available missions. */
   listCallback: () => Promise<Mission[]>;
+  /** Callback function to search the interactions of all missions. */
+  searchCallback: (query: string) => Promise<MissionSearchResult[]>;
   /** Callback function to load a selected mission.
    * Takes the ID of the mission to load as an argument.
    */
@@ -741,6 +758,7 @@ export function MissionMenu({
   newCallback,
   saveCallback,
   listCallback,
+  searchCallback,
   loadCallback,
   getMissionData,
 }: MissionMenuComponentProps) {
@@ -915,6 +933,30 @@ export function MissionMenu({
     }
   }, [selectedMission, loadCallback, handleModalClose]);
 
+  /**
+   * Handles a click on a match of the search over all missions.
+   * Loads the mission like the "Load Mission" modal does, then shows the match in the history.
+   * @param result - The chosen match.
+   * @param query - The query that found it; the history search continues with it.
+   */
+  const handleSearchResultSelect = React.useCallback(
+    async (result: MissionSearchResult, query: string) => {
+      handleModalClose();
+      setActiveModal(ModalNames.LOADING);
+      try {
+        await loadCallback(result.missionId);
+        useSearchStore.getState().showInHistory(query, {
+          pathIndex: result.interactionIndex,
+          field: result.field,
+        });
+      } catch (error) {
+        console.error("An error occurred during mission load:", error);
+      }
+      setActiveModal(ModalNames.CLOSED);
+    },
+    [loadCallback, handleModalClose],
+  );
+
   return (
     <div>
       <Button
@@ -979,6 +1021,8 @@ export function MissionMenu({
         selectedMission={selectedMission}
         setSelectedMission={setSelectedMission}
         getMissionData={getMissionData}
+        searchCallback={searchCallback}
+        onSearchResultSelect={handleSearchResultSelect}
       />
     </div>
   );
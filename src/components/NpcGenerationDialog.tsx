@@ -0,0 +1,205 @@
+import { useCallback, useState } from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  LinearProgress,
+  MenuItem,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { ActionButtonsBoxStyle, ActionButtonStyle } from "../styles/styles";
+import { CharacterDraft } from "../models/CharacterProps";
+import { useNpcGeneration } from "../hooks/useNpcGeneration";
+import { CharacterCard } from "./CharacterCard";
+import { CharacterSheetEditor } from "./CharacterSheetEditor";
+
+/**
+ * Props for the NpcGenerationDialog component.
+ */
+type NpcGenerationDialogProps = {
+  /** Whether the dialog is shown. */
+  open: boolean;
+  /** Called when the player closes the dialog. */
+  onClose: () => void;
+  /** Adds an NPC to the roster; resolves with whether that worked. */
+  onAdd: (npc: CharacterDraft) => Promise<boolean>;
+};
+
+/** How many NPCs the player can ask for at once. */
+const NPC_COUNTS = [1, 2, 3, 4, 5];
+
+/**
+ * The content of the dialog. Unmounted while the dialog is closed, which stops a running
+ * generation and discards the NPCs that weren't added.
+ *
+ * @param props - See {@link NpcGenerationDialogProps}.
+ * @returns The NpcGenerationPanel component.
+ */
+function NpcGenerationPanel({
+  onClose,
+  onAdd,
+}: Omit<NpcGenerationDialogProps, "open">) {
+  const { npcs, generating, error, generate, stop, updateNpc, removeNpc } =
+    useNpcGeneration();
+  const [count, setCount] = useState(3);
+  /** The NPC whose sheet is in edit mode, if any. */
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [adding, setAdding] = useState(false);
+
+  const handleGenerate = useCallback(() => {
+    setEditingIndex(null);
+    void generate(count);
+  }, [generate, count]);
+
+  /**
+   * Adds one NPC to the roster and takes it off the list.
+   * @param index - The position of the NPC in the list.
+   */
+  const handleAdd = useCallback(
+    async (index: number) => {
+      setAdding(true);
+      if (await onAdd(npcs[index])) {
+        removeNpc(index);
+        setEditingIndex(null);
+      }
+      setAdding(false);
+    },
+    [npcs, onAdd, removeNpc],
+  );
+
+  /**
+   * Adds all NPCs to the roster; the ones that couldn't be added stay on the list.
+   */
+  const handleAddAll = useCallback(async () => {
+    setAdding(true);
+    setEditingIndex(null);
+    // Back to front, so removing an NPC doesn't shift the ones still to add
+    for (let index = npcs.length - 1; index >= 0; index--) {
+      if (await onAdd(npcs[index])) removeNpc(index);
+    }
+    setAdding(false);
+  }, [npcs, onAdd, removeNpc]);
+
+  const busy = generating || adding;
+
+  return (
+    <>
+      <DialogTitle>Generate NPCs</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          NPCs are generated to fit the latest scene. Check and edit them, then
+          add the ones you want to the roster.
+        </DialogContentText>
+        <Box sx={{ display: "flex", gap: 2, alignItems: "center", mt: 2 }}>
+          <TextField
+            select
+            label="Number of NPCs"
+            size="small"
+            value={count}
+            onChange={(event) => setCount(Number(event.target.value))}
+            disabled={busy}
+            sx={{ minWidth: 160 }}
+          >
+            {NPC_COUNTS.map((value) => (
+              <MenuItem key={value} value={value}>
+                {value}
+              </MenuItem>
+            ))}
+          </TextField>
+          {generating ? (
+            <Button onClick={stop}>Stop</Button>
+          ) : (
+            <Button
+              variant="contained"
+              onClick={handleGenerate}
+              disabled={adding}
+            >
+              {npcs.length > 0 ? "Generate again" : "Generate"}
+            </Button>
+          )}
+        </Box>
+        {generating && <LinearProgress sx={{ mt: 2 }} />}
+        {error && (
+          <Typography color="error" variant="caption">
+            {error}
+          </Typography>
+        )}
+        {npcs.map((npc, index) =>
+          editingIndex === index ? (
+            <CharacterSheetEditor
+              key={index}
+              character={npc}
+              onSave={async (edited) => {
+                updateNpc(index, edited);
+                return true;
+              }}
+              onCancel={() => setEditingIndex(null)}
+            />
+          ) : (
+            <Box key={index} sx={{ mt: 2 }}>
+              <CharacterCard {...npc} />
+              <Box sx={ActionButtonsBoxStyle()}>
+                <Button
+                  sx={ActionButtonStyle()}
+                  onClick={() => setEditingIndex(index)}
+                  disabled={busy}
+                >
+                  Edit
+                </Button>
+                <Button
+                  sx={ActionButtonStyle()}
+                  onClick={() => removeNpc(index)}
+                  disabled={busy}
+                >
+                  Discard
+                </Button>
+                <Button
+                  sx={ActionButtonStyle()}
+                  onClick={() => handleAdd(index)}
+                  disabled={busy}
+                >
+                  Add to roster
+                </Button>
+              </Box>
+            </Box>
+          ),
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button
+          variant="contained"
+          onClick={handleAddAll}
+          disabled={busy || npcs.length === 0 || editingIndex !== null}
+        >
+          Add all
+        </Button>
+      </DialogActions>
+    </>
+  );
+}
+
+/**
+ * NpcGenerationDialog lets the gamemaster's LLM come up with NPCs for the current scene.
+ * The stat blocks stream in as they are generated; each can be edited, discarded or added
+ * to the roster of the mission.
+ *
+ * @param props - The props for the component. See {@link NpcGenerationDialogProps}.
+ * @returns The NpcGenerationDialog component.
+ */
+export default function NpcGenerationDialog({
+  open,
+  onClose,
+  onAdd,
+}: NpcGenerationDialogProps) {
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <NpcGenerationPanel onClose={onClose} onAdd={onAdd} />
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+import { useCallback, useMemo } from "react";
+import { Chip, IconButton, Tooltip } from "@mui/material";
+import RestoreIcon from "@mui/icons-material/Restore";
+
+import MemoizedFieldContainer from "./MemoizedFieldContainer";
+import { FieldContainerType } from "./FieldContainer";
+import BranchPager from "./BranchPager";
+import { Interaction } from "../models/MissionModels";
+import { StoryNode } from "../models/HistoryTypes";
+import { TextHighlight } from "../models/SearchTypes";
+
+/**
+ * Props for the PastExchange component.
+ */
+type PastExchangeProps = {
+  /** The exchange to show. */
+  node: StoryNode;
+  /** Ids of all alternatives of the exchange, including itself. */
+  siblingIds: string[];
+  /** Whether the gamemaster's reasoning is shown. */
+  showThinking: boolean;
+  /** Search matches to mark in the player input. */
+  playerInputHighlight?: TextHighlight;
+  /** Search matches to mark in the answer. */
+  llmOutputHighlight?: TextHighlight;
+  /** Called with the exchange and the changed fields when one is edited by hand. */
+  onEdit: (nodeId: string, patch: Partial<Interaction>) => void;
+  /** Called with the id of the alternative to show. */
+  onSelectBranch: (nodeId: string) => void;
+  /** Called with the exchange to rewind to. */
+  onRewind: (nodeId: string) => void;
+  /** Optional flag to disable editing and navigation, e.g. while a generation is running. */
+  disabled?: boolean;
+};
+
+/**
+ * PastExchange shows an earlier exchange of the story with its alternatives and rewind
+ * button. Its callbacks and label are kept stable, so that the fields only re-render when
+ * the exchange itself changes, not on every streamed token of the latest one.
+ *
+ * @param props - The props for the component. See {@link PastExchangeProps}.
+ * @returns The PastExchange component.
+ */
+export default function PastExchange({
+  node,
+  siblingIds,
+  showThinking,
+  playerInputHighlight,
+  llmOutputHighlight,
+  onEdit,
+  onSelectBranch,
+  onRewind,
+  disabled = false,
+}: PastExchangeProps) {
+  const { id, edited } = node;
+
+  const commitPlayerInput = useCallback(
+    (value: string) => onEdit(id, { playerInput: value }),
+    [id, onEdit],
+  );
+  const commitLlmOutput = useCallback(
+    (value: string) => onEdit(id, { llmOutput: value }),
+    [id, onEdit],
+  );
+
+  const labelAdornment = useMemo(
+    () => (
+      <>
+        <BranchPager
+          siblingIds={siblingIds}
+          activeId={id}
+          onSelect={onSelectBranch}
+          color="secondary"
+          disabled={disabled}
+        />
+        <Tooltip title="Rewind to here">
+          <span>
+            <IconButton
+              size="small"
+              color="secondary"
+              onClick={() => onRewind(id)}
+              disabled={disabled}
+              aria-label="Rewind to here"
+            >
+              <RestoreIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        {edited && (
+          <Chip
+            size="small"
+            variant="outlined"
+            label="edited"
+            sx={{ ml: 1, fontStyle: "normal" }}
+          />
+        )}
+      </>
+    ),
+    [id, edited, siblingIds, onSelectBranch, onRewind, disabled],
+  );
+
+  return (
+    <>
+      <MemoizedFieldContainer
+        onCommit={commitPlayerInput}
+        value={node.playerInput}
+        highlight={playerInputHighlight}
+        instance="Player"
+        color="secondary"
+        type={FieldContainerType.HISTORY}
+        disabled={disabled}
+        labelAdornment={labelAdornment}
+      />
+      <MemoizedFieldContainer
+        onCommit={commitLlmOutput}
+        value={node.llmOutput}
+        thinking={node.llmThinking}
+        showThinking={showThinking}
+        highlight={llmOutputHighlight}
+        instance="Gamemaster"
+        color="primary"
+        type={FieldContainerType.HISTORY}
+        disabled={disabled}
+      />
+    </>
+  );
+}
@@ -0,0 +1,94 @@
+import { useEffect } from "react";
+import { Alert, AlertTitle, Box, Button, Stack } from "@mui/material";
+import {
+  discardQuarantinedState,
+  getQuarantinedState,
+  listQuarantinedStates,
+} from "../functions/persistMigrations";
+import { QuarantinedState } from "../models/PersistenceTypes";
+import useQuarantineStore from "../stores/quarantineStore";
+
+/**
+ * Saves the unreadable value of a quarantined state as a JSON file.
+ */
+async function downloadQuarantinedState(state: QuarantinedState) {
+  try {
+    const entry = await getQuarantinedState(state.id);
+    if (!entry) return;
+    const blob = new Blob([JSON.stringify(entry, null, 2)], {
+      type: "application/json;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${state.storeName}_${state.quarantinedAt}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  } catch (e) {
+    console.error("Failed to download quarantined state:", e);
+  }
+}
+
+/**
+ * QuarantineBanner tells the player about saved data that couldn't be restored and was reset.
+ * Each set-aside copy can be downloaded, e.g. to report it, or discarded.
+ *
+ * @returns The banner, or nothing if all saved data was restored.
+ */
+export default function QuarantineBanner() {
+  const entries = useQuarantineStore((state) => state.entries);
+
+  // Copies set aside in earlier sessions stay until the player discards them
+  useEffect(() => {
+    listQuarantinedStates()
+      .then((states) => useQuarantineStore.getState().addEntries(states))
+      .catch((error) =>
+        console.warn("Could not list quarantined states:", error),
+      );
+  }, []);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Stack spacing={1} sx={{ m: 1 }}>
+      {entries.map((entry) => (
+        <Alert
+          key={entry.id}
+          severity="error"
+          action={
+            <Box sx={{ display: "flex", gap: 1 }}>
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => void downloadQuarantinedState(entry)}
+              >
+                Download
+              </Button>
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() =>
+                  discardQuarantinedState(entry.id).catch((error) =>
+                    console.error(
+                      "Failed to discard quarantined state:",
+                      error,
+                    ),
+                  )
+                }
+              >
+                Discard
+              </Button>
+            </Box>
+          }
+        >
+          <AlertTitle>Saved data couldn't be restored</AlertTitle>
+          The local state of "{entry.storeName}" was reset and a copy was set
+          aside ({new Date(entry.quarantinedAt).toLocaleString()}):{" "}
+          {entry.reason}
+        </Alert>
+      ))}
+    </Stack>
+  );
+}
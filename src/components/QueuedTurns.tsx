@@ -0,0 +1,131 @@
+import { Box, Button, Chip, Typography, alpha } from "@mui/material";
+import CloudOffIcon from "@mui/icons-material/CloudOff";
+
+import MarkdownRenderer from "./MarkdownRenderer.tsx";
+import { QueuedTurn, QueuedTurnStatus } from "../models/OfflineQueueTypes";
+
+/**
+ * Props for the QueuedTurns component.
+ */
+type QueuedTurnsProps = {
+  /** Queued turns of the current mission, in sending order. */
+  turns: QueuedTurn[];
+  /** Removes a single turn from the queue. */
+  onDiscard: (id: string) => void;
+  /** Queues a failed turn for sending again. */
+  onRetry: (id: string) => void;
+  /** Reloads the server history and sends conflicting turns on top of it. */
+  onSendAnyway: () => void;
+  /** Removes all turns of the mission from the queue. */
+  onDiscardAll: () => void;
+};
+
+const STATUS_LABELS: Record<QueuedTurnStatus, string> = {
+  [QueuedTurnStatus.PENDING]: "queued",
+  [QueuedTurnStatus.REPLAYING]: "sending…",
+  [QueuedTurnStatus.CONFLICT]: "conflict",
+  [QueuedTurnStatus.FAILED]: "not sent",
+};
+
+/**
+ * QueuedTurns lists the player turns waiting in the offline queue below the history,
+ * each marked with its queue state. On a conflict it explains the situation and lets
+ * the player send the turns anyway or discard them. A turn the backend refused shows
+ * the reason and can be retried or discarded.
+ *
+ * @param props - The props for the component. See {@link QueuedTurnsProps}.
+ * @returns The QueuedTurns component, or `null` if nothing is queued.
+ */
+export default function QueuedTurns({
+  turns,
+  onDiscard,
+  onRetry,
+  onSendAnyway,
+  onDiscardAll,
+}: QueuedTurnsProps) {
+  if (turns.length === 0) return null;
+
+  const hasConflict = turns.some(
+    (turn) => turn.status === QueuedTurnStatus.CONFLICT,
+  );
+  const hasFailed = turns.some(
+    (turn) => turn.status === QueuedTurnStatus.FAILED,
+  );
+
+  return (
+    <Box
+      sx={{
+        mt: 1,
+        p: 1.5,
+        borderRadius: 1,
+        border: (theme) => `1px dashed ${alpha(theme.palette.divider, 0.5)}`,
+      }}
+    >
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 1 }}>
+        <CloudOffIcon fontSize="small" color="warning" />
+        <Typography variant="caption" color="warning">
+          {hasConflict
+            ? "The mission changed on the server since these turns were queued."
+            : hasFailed
+              ? "The server didn't accept a queued turn. Later turns wait for it."
+              : `Server unreachable. ${turns.length} turn${
+                  turns.length === 1 ? "" : "s"
+                } will be sent once it is back.`}
+        </Typography>
+      </Box>
+
+      {turns.map((turn) => (
+        <Box key={turn.id} sx={{ opacity: 0.7, mb: 1 }}>
+          <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+            <Typography
+              variant="subtitle2"
+              fontStyle="italic"
+              color="secondary"
+            >
+              Player
+            </Typography>
+            <Chip
+              size="small"
+              variant="outlined"
+              label={STATUS_LABELS[turn.status]}
+              color={
+                turn.status === QueuedTurnStatus.CONFLICT
+                  ? "warning"
+                  : turn.status === QueuedTurnStatus.FAILED
+                    ? "error"
+                    : "default"
+              }
+            />
+            {turn.status === QueuedTurnStatus.FAILED && (
+              <Button size="small" onClick={() => onRetry(turn.id)}>
+                Retry
+              </Button>
+            )}
+            {turn.status !== QueuedTurnStatus.REPLAYING && (
+              <Button size="small" onClick={() => onDiscard(turn.id)}>
+                Discard
+              </Button>
+            )}
+          </Box>
+          {turn.error && (
+            <Typography variant="caption" color="error">
+              {turn.error}
+            </Typography>
+          )}
+          <MarkdownRenderer value={turn.playerInput} color="secondary" />
+        </Box>
+      ))}
+
+      {hasConflict && (
+        <Box sx={{ display: "flex", gap: 1 }}>
+          <Button size="small" variant="contained" onClick={onSendAnyway}>
+            Send anyway
+          </Button>
+          <Button size="small" variant="outlined" onClick={onDiscardAll}>
+            Discard all
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+}
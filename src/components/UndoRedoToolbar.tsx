@@ -0,0 +1,73 @@
+import { Box, IconButton, Tooltip } from "@mui/material";
+import UndoIcon from "@mui/icons-material/Undo";
+import RedoIcon from "@mui/icons-material/Redo";
+
+import { Colors } from "../styles/styles";
+
+/**
+ * Props for the UndoRedoToolbar component.
+ */
+type UndoRedoToolbarProps = {
+  /** Whether there is a change to undo. */
+  canUndo: boolean;
+  /** Whether there is an undone change to redo. */
+  canRedo: boolean;
+  /** Undoes the latest change. */
+  onUndo: () => void;
+  /** Redoes the latest undone change. */
+  onRedo: () => void;
+  /** The color theme of the buttons. */
+  color: Colors;
+  /** Optional flag to disable both buttons, e.g. while a generation is running. */
+  disabled?: boolean;
+};
+
+/**
+ * UndoRedoToolbar shows undo and redo buttons for the story history.
+ *
+ * @param props - The props for the component. See {@link UndoRedoToolbarProps}.
+ * @returns The UndoRedoToolbar component.
+ */
+export default function UndoRedoToolbar({
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  color,
+  disabled = false,
+}: UndoRedoToolbarProps) {
+  return (
+    <Box
+      sx={{ display: "flex", justifyContent: "flex-end", gap: 0.5 }}
+      role="toolbar"
+      aria-label="History"
+    >
+      <Tooltip title="Undo (Ctrl+Z)">
+        <span>
+          <IconButton
+            size="small"
+            color={color}
+            disabled={disabled || !canUndo}
+            onClick={onUndo}
+            aria-label="Undo"
+          >
+            <UndoIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Redo (Ctrl+Shift+Z)">
+        <span>
+          <IconButton
+            size="small"
+            color={color}
+            disabled={disabled || !canRedo}
+            onClick={onRedo}
+            aria-label="Redo"
+          >
+            <RedoIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+    </Box>
+  );
+}
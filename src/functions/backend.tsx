@@ -0,0 +1,31 @@
+/**
+ * @module backend
+ *
+ * The {@link GameBackend} instance used by the whole app.
+ *
+ * Set `VITE_BACKEND_MODE=mock` to run the UI against the in-browser mock
+ * ({@link module:mockBackend}) instead of the LLM server at `VITE_BACKEND_URL`.
+ * `VITE_MOCK_BENCHMARK_TURNS` then adds a mission with that many exchanges.
+ */
+
+import { GameBackend } from "../models/Backend";
+import { createHttpBackend } from "./httpBackend";
+import { createMockBackend } from "./mockBackend";
+
+/**
+ * Whether the in-browser mock backend is active.
+ * @constant
+ */
+export const USE_MOCK_BACKEND = import.meta.env.VITE_BACKEND_MODE === "mock";
+
+/**
+ * The active backend. Components should call it instead of {@link module:restInterface}.
+ * @constant
+ */
+export const backend: GameBackend = USE_MOCK_BACKEND
+  ? createMockBackend({
+      benchmarkTurns: Number(import.meta.env.VITE_MOCK_BENCHMARK_TURNS ?? 0),
+    })
+  : createHttpBackend();
+
+export default backend;
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import {
+  CHARACTER_FILE_FORMAT,
+  CHARACTER_FILE_VERSION,
+  CharacterFileError,
+  characterFileJson,
+  parseCharacterFile,
+} from "./characterFiles";
+import { completeSheet } from "./characters";
+import {
+  CharacterDraft,
+  CharacterKind,
+  CharacterProps,
+} from "../models/CharacterProps";
+import { getSheetSchemaForGameType } from "../models/CharacterSheets";
+import { GameType } from "../models/Types";
+
+const ghost: CharacterDraft = {
+  kind: CharacterKind.PARTY,
+  gameType: GameType.SHADOWRUN,
+  name: "Ghost",
+  race: "Elf",
+  role: "Decker",
+  description: "Never seen twice",
+  sheet: completeSheet(getSheetSchemaForGameType(GameType.SHADOWRUN), {
+    stats: { attributes: { Body: 3 }, skills: { Hacking: 6 } },
+    tracks: { physical: { current: 2, max: 10 } },
+    numbers: { armor: 4 },
+    texts: { weapon: "Ares Predator" },
+    lists: { cyberware: ["Cyberdeck"] },
+  }),
+};
+
+/** A file of the current version with `character` in it. */
+const fileWith = (character: unknown, version = CHARACTER_FILE_VERSION) =>
+  JSON.stringify({ format: CHARACTER_FILE_FORMAT, version, character });
+
+/** The message `parseCharacterFile` rejects `text` with. */
+function rejection(text: string): string {
+  try {
+    parseCharacterFile(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(CharacterFileError);
+    return (error as CharacterFileError).message;
+  }
+  throw new Error("The file was imported");
+}
+
+describe("parseCharacterFile", () => {
+  it("imports an exported character unchanged", () => {
+    expect(parseCharacterFile(characterFileJson(ghost))).toEqual(ghost);
+  });
+
+  it("leaves the id out of exported files", () => {
+    const stored: CharacterProps = { id: 7, ...ghost };
+    const file = JSON.parse(characterFileJson(stored));
+
+    expect(file.version).toBe(CHARACTER_FILE_VERSION);
+    expect(file.character).not.toHaveProperty("id");
+  });
+
+  it("moves the Shadowrun fields of version 0 into a sheet", () => {
+    const character = parseCharacterFile(
+      fileWith(
+        {
+          kind: CharacterKind.PARTY,
+          name: "Ghost",
+          race: "Elf",
+          role: "Decker",
+          description: "Never seen twice",
+          attributes: { Body: 3 },
+          skills: { Hacking: 6 },
+          armor: 4,
+          weapon: "Ares Predator",
+          cyberware: ["Cyberdeck"],
+          damage: { physical: { current: 2, max: 10 } },
+        },
+        0,
+      ),
+    );
+
+    expect(character).toEqual(ghost);
+  });
+
+  it("rejects text that isn't JSON", () => {
+    expect(rejection("{ghost")).toBe("The file is not a JSON file");
+  });
+
+  it("rejects JSON of another format", () => {
+    expect(rejection(JSON.stringify({ format: "save-game" }))).toBe(
+      "The file is not a gamemAIster character",
+    );
+  });
+
+  it("rejects an invalid version", () => {
+    expect(rejection(fileWith(ghost, -1))).toBe(
+      "The file has an invalid version",
+    );
+  });
+
+  it("rejects files of a newer version", () => {
+    expect(rejection(fileWith(ghost, CHARACTER_FILE_VERSION + 1))).toBe(
+      "The character was exported by a newer version of gamemAIster; update to import it",
+    );
+  });
+
+  it("rejects a file without a character", () => {
+    expect(rejection(fileWith(null))).toBe("The file contains no character");
+  });
+
+  it("names fields of the wrong type", () => {
+    expect(rejection(fileWith({ ...ghost, name: 7 }))).toBe(
+      "The character has invalid fields: name: expected string, found number 7",
+    );
+  });
+
+  it("describes sheet problems in the words of the game system", () => {
+    const sheet = structuredClone(ghost.sheet);
+    sheet.stats.attributes.Body = 13;
+    sheet.tracks.stun = { current: 0, max: 0 };
+    sheet.numbers.armor = 100;
+
+    expect(rejection(fileWith({ ...ghost, sheet }))).toBe(
+      "The character sheet has problems: Attributes, Body: 0 to 12; " +
+        "Stun Damage maximum: At least 1; Armor: 0 to 99",
+    );
+  });
+
+  it("counts the problems beyond the listed ones", () => {
+    const sheet = structuredClone(ghost.sheet);
+    sheet.stats.attributes = { Body: 13, Agility: 13, Reaction: 13 };
+    sheet.stats.skills = { Hacking: 13, Firearms: 13 };
+
+    const message = rejection(fileWith({ ...ghost, sheet }));
+
+    expect(message).toBe(
+      "The character sheet has problems: Attributes, Body: 0 to 12; " +
+        "Attributes, Agility: 0 to 12; Attributes, Reaction: 0 to 12 and 2 more",
+    );
+  });
+
+  it("keeps every problem on the error", () => {
+    const sheet = structuredClone(ghost.sheet);
+    sheet.stats.skills = { Hacking: 13, Firearms: 13, Sneaking: 13, Con: 13 };
+
+    expect(() => parseCharacterFile(fileWith({ ...ghost, sheet }))).toThrow(
+      expect.objectContaining({
+        problems: [
+          "Skills, Hacking: 0 to 12",
+          "Skills, Firearms: 0 to 12",
+          "Skills, Sneaking: 0 to 12",
+          "Skills, Con: 0 to 12",
+        ],
+      }),
+    );
+  });
+});
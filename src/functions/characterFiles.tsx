@@ -0,0 +1,347 @@
+/**
+ * @module characterFiles
+ *
+ * Character sheets outside of a mission: JSON files to take a character from one mission to
+ * another, and a printable page of a sheet for the table.
+ *
+ * A character file is versioned like the persisted stores (see {@link module:persistMigrations}):
+ * `characterFileMigrations[n]` turns a character of file version `n` into version `n + 1`.
+ * Unlike persisted state, an imported file is never repaired: every problem is reported to the
+ * player, in the words of the sheet, and nothing is imported.
+ */
+
+import {
+  CharacterDraft,
+  CharacterFile,
+  CharacterKind,
+  CharacterSheetSchema,
+  TrackMeaning,
+} from "../models/CharacterProps";
+import { getSheetSchemaForGameType } from "../models/CharacterSheets";
+import { characterDraftSchema } from "../models/PersistedSchemas";
+import { getThemeForGameType } from "../theme";
+import {
+  characterWithShadowrunSheet,
+  completeSheet,
+  toCharacterForm,
+  validateCharacterForm,
+} from "./characters";
+import { Migration } from "./persistMigrations";
+import { ValidationIssue } from "./schema";
+
+/** Marks a JSON file as a character sheet of gamemAIster. */
+export const CHARACTER_FILE_FORMAT = "gamemaister-character";
+
+/**
+ * Version 0 has the Shadowrun fields of characters stored before sheets depended on the game
+ * system. Version 1 has the game system and a sheet.
+ */
+export const characterFileMigrations: Migration[] = [
+  characterWithShadowrunSheet,
+];
+
+/** The version files are exported with. */
+export const CHARACTER_FILE_VERSION = characterFileMigrations.length;
+
+/** How many problems of an imported file are listed; the rest are counted. */
+const LISTED_PROBLEMS = 3;
+
+/** Tracks up to this maximum are printed as boxes to tick off. */
+const MAX_PRINTED_BOXES = 30;
+
+/**
+ * Thrown by {@link parseCharacterFile} for a file that can't be imported. The message is
+ * meant for the player.
+ */
+export class CharacterFileError extends Error {
+  /** Everything that is wrong with the file, e.g. `Attributes, Body: 0 to 12`. */
+  readonly problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(
+      problems.length === 0
+        ? message
+        : `${message}: ${problems.slice(0, LISTED_PROBLEMS).join("; ")}` +
+            (problems.length > LISTED_PROBLEMS
+              ? ` and ${problems.length - LISTED_PROBLEMS} more`
+              : ""),
+    );
+    this.name = "CharacterFileError";
+    this.problems = problems;
+  }
+}
+
+////////////////////
+// Helper Logic   //
+////////////////////
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Describes a field of the file that doesn't have the expected type. */
+const describeIssue = ({ path, expected, received }: ValidationIssue) =>
+  `${path.replace(/^character\./, "")}: expected ${expected}, found ${received}`;
+
+/**
+ * Describes a problem of the sheet in the words of its game system.
+ *
+ * @param path - The path of the problem, see {@link validateCharacterForm}.
+ * @param message - What's wrong, e.g. `0 to 12`.
+ * @param character - The imported character; stat rows are keyed by position.
+ * @param schema - The sheet layout of its game system.
+ */
+function describeSheetProblem(
+  path: string,
+  message: string,
+  character: CharacterDraft,
+  schema: CharacterSheetSchema,
+): string {
+  const [section, key, row] = path.split(".");
+  switch (section) {
+    case "stats": {
+      const label = schema.stats.find((field) => field.key === key)?.label;
+      const stat = Object.keys(character.sheet.stats[key] ?? {})[Number(row)];
+      return `${label ?? key}, ${stat || "unnamed"}: ${message}`;
+    }
+    case "tracks":
+    case "numbers": {
+      const fields = section === "tracks" ? schema.tracks : schema.numbers;
+      const label = fields.find((field) => field.key === key)?.label ?? key;
+      return row === "max"
+        ? `${label} maximum: ${message}`
+        : `${label}: ${message}`;
+    }
+    default:
+      return `${path}: ${message}`;
+  }
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/** Escapes text for use in HTML. */
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+
+////////////////////
+// JSON files     //
+////////////////////
+
+/**
+ * Writes a character to a file that can be imported into any mission.
+ * The `id` is left out; the mission it is imported into assigns a new one.
+ *
+ * @param {CharacterDraft} character - The character, stored or not.
+ * @returns {string} - The content of the file.
+ */
+export function characterFileJson(character: CharacterDraft): string {
+  const { name, kind, gameType, race, role, description, sheet } = character;
+  const file: CharacterFile = {
+    format: CHARACTER_FILE_FORMAT,
+    version: CHARACTER_FILE_VERSION,
+    character: { name, kind, gameType, race, role, description, sheet },
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Suggests a name for the file of a character.
+ *
+ * @param {CharacterDraft} character - The exported character.
+ * @param {string} extension - The file extension, e.g. `json`.
+ * @returns {string} - The file name.
+ */
+export function characterFileName(
+  character: CharacterDraft,
+  extension: string,
+): string {
+  const safeName = character.name.replace(/[^a-z0-9-_]+/gi, "_");
+  return `${safeName || "character"}.${extension}`;
+}
+
+/**
+ * Reads a character from an exported file, upgrading files of older versions.
+ *
+ * @param {string} text - The content of the file.
+ * @returns {CharacterDraft} - The character, ready to be added to a roster.
+ * @throws {CharacterFileError} If the file isn't a character file or its sheet has problems.
+ */
+export function parseCharacterFile(text: string): CharacterDraft {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new CharacterFileError("The file is not a JSON file");
+  }
+  if (!isRecord(file) || file.format !== CHARACTER_FILE_FORMAT) {
+    throw new CharacterFileError("The file is not a gamemAIster character");
+  }
+  const { version } = file;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 0
+  ) {
+    throw new CharacterFileError("The file has an invalid version");
+  }
+  if (version > CHARACTER_FILE_VERSION) {
+    throw new CharacterFileError(
+      "The character was exported by a newer version of gamemAIster; update to import it",
+    );
+  }
+  if (!isRecord(file.character)) {
+    throw new CharacterFileError("The file contains no character");
+  }
+
+  let migrated = file.character;
+  for (let step = version; step < CHARACTER_FILE_VERSION; step++) {
+    migrated = characterFileMigrations[step](migrated);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const parsed = characterDraftSchema.parse(migrated, "character", issues);
+  if (issues.length > 0) {
+    throw new CharacterFileError(
+      "The character has invalid fields",
+      issues.map(describeIssue),
+    );
+  }
+
+  const schema = getSheetSchemaForGameType(parsed.gameType);
+  const character = { ...parsed, sheet: completeSheet(schema, parsed.sheet) };
+  const errors = validateCharacterForm(toCharacterForm(character), schema);
+  const problems = Object.entries(errors).map(([path, message]) =>
+    describeSheetProblem(path, message, character, schema),
+  );
+  if (problems.length > 0) {
+    throw new CharacterFileError("The character sheet has problems", problems);
+  }
+  return character;
+}
+
+////////////////////
+// Printing       //
+////////////////////
+
+/**
+ * Renders the sheet of a character as a standalone page for printing, laid out like the
+ * CharacterCard and styled with the theme of its game system. On paper the background is
+ * dropped and tracks become boxes to tick off with a pencil.
+ *
+ * @param {CharacterDraft} character - The character to print.
+ * @returns {string} - The HTML document.
+ */
+export function characterSheetHtml(character: CharacterDraft): string {
+  const schema = getSheetSchemaForGameType(character.gameType);
+  const { stats, tracks, numbers, texts, lists } = completeSheet(
+    schema,
+    character.sheet,
+  );
+  const theme = getThemeForGameType(character.gameType);
+  const { palette, typography } = theme;
+  const headingFont = typography.h5.fontFamily ?? typography.fontFamily;
+  // The light accent of dark themes fades on white paper
+  const printAccent =
+    palette.mode === "dark" ? palette.primary.dark : palette.primary.main;
+
+  const box = (label: string, content: string) =>
+    `<section class="box"><h2>${escapeHtml(label)}</h2>${content}</section>`;
+  const rows = (entries: [string, string | number][]) =>
+    `<table>${entries
+      .map(
+        ([label, value]) =>
+          `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(String(value))}</td></tr>`,
+      )
+      .join("")}</table>`;
+
+  const details = [
+    ...schema.numbers.map(({ key, label }): [string, number] => [
+      label,
+      numbers[key],
+    ]),
+    ...schema.texts.map(({ key, label }): [string, string] => [
+      label,
+      texts[key],
+    ]),
+  ];
+  const sections = [
+    ...(details.length > 0 ? [box("Details", rows(details))] : []),
+    ...schema.lists.map(({ key, label }) =>
+      box(
+        label,
+        `<ul>${lists[key].map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`,
+      ),
+    ),
+    ...schema.stats.map(({ key, label }) =>
+      box(label, rows(Object.entries(stats[key]))),
+    ),
+    ...schema.tracks.map(({ key, label, meaning }) => {
+      const { current, max } = tracks[key];
+      const boxes =
+        max <= MAX_PRINTED_BOXES
+          ? `<div class="boxes">${Array.from(
+              { length: max },
+              (_, index) =>
+                `<span class="${index < current ? "tick filled" : "tick"}"></span>`,
+            ).join("")}</div>`
+          : "";
+      const state = meaning === TrackMeaning.DAMAGE ? "taken" : "left";
+      return box(label, `${boxes}<p>${current} / ${max} ${state}</p>`);
+    }),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(character.name)}</title>
+<style>
+@page { margin: 15mm; }
+:root { --accent: ${palette.primary.main}; }
+body {
+  margin: 0;
+  padding: 24px;
+  font-family: ${typography.fontFamily};
+  color: ${palette.text.primary};
+  background: ${palette.background.paper};
+}
+h1, h2 { font-family: ${headingFont}; color: var(--accent); margin: 0 0 8px; }
+h1 { font-size: 1.8rem; }
+h2 { font-size: 1.1rem; }
+.meta { margin: 0 0 4px; }
+.sheet { display: grid; grid-template-columns: repeat(auto-fill, minmax(200px, 1fr)); gap: 12px; margin-top: 16px; }
+.box { border: 1px solid var(--accent); border-radius: ${theme.shape.borderRadius}px; padding: 8px 12px; break-inside: avoid; }
+.box p, .box ul { margin: 4px 0; }
+table { border-collapse: collapse; width: 100%; }
+th { text-align: left; font-weight: normal; }
+td { text-align: right; }
+.boxes { display: flex; flex-wrap: wrap; gap: 3px; }
+.tick { width: 14px; height: 14px; border: 1px solid var(--accent); }
+.tick.filled { background: var(--accent); }
+.print { margin-top: 16px; }
+@media print {
+  :root { --accent: ${printAccent}; }
+  * { print-color-adjust: exact; -webkit-print-color-adjust: exact; }
+  body { padding: 0; color: #000; background: #fff; }
+  .print { display: none; }
+}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(character.name)}</h1>
+<p class="meta">${character.kind === CharacterKind.NPC ? "NPC" : "Party member"}</p>
+<p class="meta">${escapeHtml(schema.raceLabel)}: ${escapeHtml(character.race)}</p>
+<p class="meta">${escapeHtml(schema.roleLabel)}: ${escapeHtml(character.role)}</p>
+<p class="meta">${escapeHtml(character.description)}</p>
+<main class="sheet">${sections.join("\n")}</main>
+<button class="print" onclick="window.print()">Print</button>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,343 @@
+/**
+ * @module characters
+ *
+ * Helpers for the character sheets of the party members and NPCs of a mission:
+ * new sheets, the fields a sheet shows, and the conversion and validation of sheets
+ * in edit mode.
+ */
+
+import {
+  CharacterDraft,
+  CharacterForm,
+  CharacterFormErrors,
+  CharacterKind,
+  CharacterSheet,
+  CharacterSheetSchema,
+  GeneratedCharacter,
+  ListRow,
+  SheetTrack,
+  StatRow,
+  TrackField,
+  TrackForm,
+  TrackMeaning,
+} from "../models/CharacterProps";
+import { getSheetSchemaForGameType } from "../models/CharacterSheets";
+import { GameType } from "../models/Types";
+
+////////////////////
+// Sheets         //
+////////////////////
+
+/** A track as a new character has it: without damage, or with the resource full. */
+const newTrack = (field: TrackField): SheetTrack => ({
+  current: field.meaning === TrackMeaning.DAMAGE ? 0 : field.max,
+  max: field.max,
+});
+
+/**
+ * Fills in the fields a sheet of `schema` has but `sheet` lacks, e.g. fields added to the
+ * game system after the character was created. Fields the schema doesn't know are kept.
+ *
+ * @param {CharacterSheetSchema} schema - The layout of the sheet.
+ * @param {CharacterSheet} sheet - The stored sheet.
+ * @returns {CharacterSheet} - The sheet with a value for every field of the schema.
+ */
+export function completeSheet(
+  schema: CharacterSheetSchema,
+  sheet: CharacterSheet,
+): CharacterSheet {
+  const complete = structuredClone(sheet);
+  for (const field of schema.stats) {
+    complete.stats[field.key] ??= { ...field.defaults };
+  }
+  for (const field of schema.tracks) {
+    complete.tracks[field.key] ??= newTrack(field);
+  }
+  for (const field of schema.numbers) {
+    complete.numbers[field.key] ??= field.initial;
+  }
+  for (const field of schema.texts) {
+    complete.texts[field.key] ??= "";
+  }
+  for (const field of schema.lists) {
+    complete.lists[field.key] ??= [];
+  }
+  return complete;
+}
+
+/**
+ * Creates an empty sheet for a new character.
+ *
+ * @param {CharacterKind} kind - Party member or NPC.
+ * @param {GameType} gameType - The game system of the mission.
+ * @returns {CharacterDraft} - The sheet, ready to be filled in and stored.
+ */
+export function newCharacterDraft(
+  kind: CharacterKind,
+  gameType: GameType,
+): CharacterDraft {
+  return {
+    name: kind === CharacterKind.NPC ? "New NPC" : "New Character",
+    kind,
+    gameType,
+    race: "",
+    role: "",
+    description: "",
+    sheet: completeSheet(getSheetSchemaForGameType(gameType), {
+      stats: {},
+      tracks: {},
+      numbers: {},
+      texts: {},
+      lists: {},
+    }),
+  };
+}
+
+/**
+ * Turns an NPC generated so far into a sheet; fields that are still to come keep the
+ * values of an empty NPC.
+ *
+ * @param {GeneratedCharacter} generated - The fields generated so far.
+ * @param {GameType} gameType - The game system of the mission.
+ * @returns {CharacterDraft} - The NPC, ready to be shown, edited or stored.
+ */
+export function draftFromGeneratedNpc(
+  generated: GeneratedCharacter,
+  gameType: GameType,
+): CharacterDraft {
+  const draft = newCharacterDraft(CharacterKind.NPC, gameType);
+  const sheet = generated.sheet ?? {};
+  return {
+    ...draft,
+    name: generated.name || draft.name,
+    race: generated.race ?? draft.race,
+    role: generated.role ?? draft.role,
+    description: generated.description ?? draft.description,
+    sheet: {
+      stats: { ...draft.sheet.stats, ...sheet.stats },
+      tracks: { ...draft.sheet.tracks, ...sheet.tracks },
+      numbers: { ...draft.sheet.numbers, ...sheet.numbers },
+      texts: { ...draft.sheet.texts, ...sheet.texts },
+      lists: { ...draft.sheet.lists, ...sheet.lists },
+    },
+  };
+}
+
+/**
+ * Moves the fields of a character stored before sheets depended on the game system into a
+ * Shadowrun sheet, the only system characters had back then.
+ *
+ * @param {Record<string, unknown>} character - A character with `attributes`, `skills`,
+ *   `armor`, `weapon`, `cyberware` and `damage`.
+ * @returns {Record<string, unknown>} - The character with `gameType` and `sheet` instead.
+ */
+export function characterWithShadowrunSheet(
+  character: Record<string, unknown>,
+): Record<string, unknown> {
+  const { attributes, skills, armor, weapon, cyberware, damage, ...rest } =
+    character;
+  return {
+    ...rest,
+    gameType: GameType.SHADOWRUN,
+    sheet: {
+      stats: { attributes, skills },
+      tracks: damage ?? {},
+      numbers: { armor },
+      texts: { weapon },
+      lists: { cyberware },
+    },
+  };
+}
+
+////////////////////
+// Edit mode      //
+////////////////////
+
+const toStatRows = (stats: Record<string, number>): StatRow[] =>
+  Object.entries(stats).map(([name, value], key) => ({
+    key,
+    name,
+    value: String(value),
+  }));
+
+const toTrackForm = (track: SheetTrack): TrackForm => ({
+  current: String(track.current),
+  max: String(track.max),
+});
+
+/** Applies `convert` to every value of `record`. */
+const mapValues = <T, U>(
+  record: Record<string, T>,
+  convert: (value: T) => U,
+): Record<string, U> =>
+  Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, convert(value)]),
+  );
+
+/**
+ * Turns a character into a sheet that can be edited.
+ *
+ * @param {CharacterDraft} character - The character to edit, stored or not.
+ * @returns {CharacterForm} - Its sheet with every field of its game system, numbers as text.
+ */
+export function toCharacterForm(character: CharacterDraft): CharacterForm {
+  const sheet = completeSheet(
+    getSheetSchemaForGameType(character.gameType),
+    character.sheet,
+  );
+  return {
+    name: character.name,
+    race: character.race,
+    role: character.role,
+    description: character.description,
+    stats: mapValues(sheet.stats, toStatRows),
+    tracks: mapValues(sheet.tracks, toTrackForm),
+    numbers: mapValues(sheet.numbers, String),
+    texts: sheet.texts,
+    lists: mapValues(sheet.lists, (values) =>
+      values.map((value, key) => ({ key, value })),
+    ),
+  };
+}
+
+/**
+ * Finds an unused key for a new row of an edited list.
+ *
+ * @param {Array<StatRow | ListRow>} rows - The rows of the list.
+ * @returns {number} - A key none of the rows has.
+ */
+export function nextRowKey(rows: Array<StatRow | ListRow>): number {
+  return rows.reduce((max, { key }) => Math.max(max, key + 1), 0);
+}
+
+/**
+ * Reads a whole number as typed on a sheet.
+ *
+ * @param {string} text - The typed text.
+ * @returns {number | null} - The number, or `null` if the text isn't one.
+ */
+export function parseSheetNumber(text: string): number | null {
+  const trimmed = text.trim();
+  return /^-?\d+$/.test(trimmed) ? Number(trimmed) : null;
+}
+
+/**
+ * Describes what's wrong with a typed number, if anything.
+ */
+const checkNumber = (
+  text: string,
+  min: number,
+  max: number,
+): string | undefined => {
+  const value = parseSheetNumber(text);
+  if (value === null) return "Whole number";
+  if (value < min || value > max) return `${min} to ${max}`;
+  return undefined;
+};
+
+const validateStatRows = (
+  rows: StatRow[],
+  path: string,
+  min: number,
+  max: number,
+  errors: CharacterFormErrors,
+) => {
+  const seen = new Set<string>();
+  for (const { key, name, value } of rows) {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      errors[`${path}.${key}.name`] = "Name required";
+    } else if (seen.has(trimmed.toLowerCase())) {
+      errors[`${path}.${key}.name`] = "Name already used";
+    }
+    seen.add(trimmed.toLowerCase());
+    const problem = checkNumber(value, min, max);
+    if (problem) errors[`${path}.${key}.value`] = problem;
+  }
+};
+
+const validateTrack = (
+  track: TrackForm,
+  path: string,
+  errors: CharacterFormErrors,
+) => {
+  const max = parseSheetNumber(track.max);
+  const current = parseSheetNumber(track.current);
+  if (max === null || max < 1) {
+    errors[`${path}.max`] = "At least 1";
+  }
+  if (current === null || current < 0) {
+    errors[`${path}.current`] = "Whole number";
+  } else if (max !== null && current > max) {
+    errors[`${path}.current`] = `At most ${max}`;
+  }
+};
+
+/**
+ * Checks an edited sheet before it is saved, against the limits of its game system.
+ *
+ * @param {CharacterForm} form - The edited sheet.
+ * @param {CharacterSheetSchema} schema - The layout of the sheet.
+ * @returns {CharacterFormErrors} - Its problems; empty if it can be saved.
+ */
+export function validateCharacterForm(
+  form: CharacterForm,
+  schema: CharacterSheetSchema,
+): CharacterFormErrors {
+  const errors: CharacterFormErrors = {};
+  if (!form.name.trim()) errors.name = "Name required";
+  for (const { key, min, max } of schema.stats) {
+    validateStatRows(form.stats[key] ?? [], `stats.${key}`, min, max, errors);
+  }
+  for (const { key } of schema.tracks) {
+    if (form.tracks[key]) {
+      validateTrack(form.tracks[key], `tracks.${key}`, errors);
+    }
+  }
+  for (const { key, min, max } of schema.numbers) {
+    const problem = checkNumber(form.numbers[key] ?? "", min, max);
+    if (problem) errors[`numbers.${key}`] = problem;
+  }
+  return errors;
+}
+
+const fromStatRows = (rows: StatRow[]): Record<string, number> =>
+  Object.fromEntries(
+    rows.map(({ name, value }) => [name.trim(), parseSheetNumber(value) ?? 0]),
+  );
+
+const fromTrackForm = (track: TrackForm): SheetTrack => ({
+  current: parseSheetNumber(track.current) ?? 0,
+  max: parseSheetNumber(track.max) ?? 1,
+});
+
+/**
+ * Applies an edited sheet to the character it was made from.
+ * Expects a sheet without problems, see {@link validateCharacterForm}.
+ *
+ * @param {CharacterDraft} character - The character being edited, stored or not.
+ * @param {CharacterForm} form - Its edited sheet.
+ * @returns {CharacterDraft} - The character with the edits, ready to be saved.
+ */
+export function fromCharacterForm<C extends CharacterDraft>(
+  character: C,
+  form: CharacterForm,
+): C {
+  return {
+    ...character,
+    name: form.name.trim(),
+    race: form.race.trim(),
+    role: form.role.trim(),
+    description: form.description.trim(),
+    sheet: {
+      stats: mapValues(form.stats, fromStatRows),
+      tracks: mapValues(form.tracks, fromTrackForm),
+      numbers: mapValues(form.numbers, (text) => parseSheetNumber(text) ?? 0),
+      texts: mapValues(form.texts, (text) => text.trim()),
+      // Empty entries are left over from adding rows; drop them
+      lists: mapValues(form.lists, (rows) =>
+        rows.map(({ value }) => value.trim()).filter((value) => value !== ""),
+      ),
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { findOccurrences, searchHistory } from "./historySearch";
+import { renderedTexts } from "./markdownText";
+import { appendChild, createStoryTree } from "./storyTree";
+import { SearchScope } from "../models/SearchTypes";
+import { ROOT_ID } from "../models/HistoryTypes";
+
+/** A tree with one exchange per answer, and the ids of the exchanges. */
+function treeOf(...answers: string[]) {
+  const tree = createStoryTree();
+  let parentId = ROOT_ID;
+  const ids = answers.map((llmOutput) => {
+    parentId = appendChild(tree, parentId, {
+      playerInput: "",
+      llmOutput,
+      llmThinking: "",
+    }).id;
+    return parentId;
+  });
+  return { tree, ids };
+}
+
+describe("findOccurrences", () => {
+  it("ignores case and returns offsets into the original text", () => {
+    expect(findOccurrences("İstanbul, ISTANBUL", "istanbul")).toEqual([
+      { start: 10, end: 18 },
+    ]);
+    expect(findOccurrences("İİ dragon", "DRAGON")).toEqual([
+      { start: 3, end: 9 },
+    ]);
+  });
+
+  it("finds non-overlapping occurrences of a trimmed query", () => {
+    expect(findOccurrences("aaaa", " aa ")).toEqual([
+      { start: 0, end: 2 },
+      { start: 2, end: 4 },
+    ]);
+    expect(findOccurrences("text", "  ")).toEqual([]);
+  });
+
+  it("matches regular expression syntax literally", () => {
+    expect(findOccurrences("1+1 (or 2)? a-b [x]", "(or 2)?")).toEqual([
+      { start: 4, end: 11 },
+    ]);
+    expect(findOccurrences("a-b [x] c/d", "[x]")).toHaveLength(1);
+    expect(findOccurrences("a-b c/d \\", "-b c/d \\")).toHaveLength(1);
+  });
+});
+
+describe("renderedTexts", () => {
+  it("leaves out Markdown syntax", () => {
+    expect(
+      renderedTexts("A **bold** [link](https://dragon.example)").join(""),
+    ).not.toContain("dragon");
+  });
+});
+
+describe("searchHistory", () => {
+  const countHits = (answer: string, query: string) => {
+    const { tree, ids } = treeOf(answer);
+    return searchHistory(tree, ids, query, SearchScope.GAMEMASTER).length;
+  };
+
+  it("counts matches in the rendered text, not in the Markdown", () => {
+    expect(countHits("[a cave](https://cave.example)", "cave")).toBe(1);
+    expect(countHits("**bold**", "*")).toBe(0);
+    expect(countHits("1\\*2", "1*2")).toBe(1);
+  });
+
+  it("doesn't count matches spanning formatting", () => {
+    expect(countHits("a dra**gon** and a dragon", "dragon")).toBe(1);
+  });
+
+  it("numbers the hits of each text in reading order", () => {
+    const { tree, ids } = treeOf("orc *orc*", "no match", "Orc");
+
+    expect(searchHistory(tree, ids, "orc", SearchScope.ALL)).toEqual([
+      { nodeId: ids[0], field: "llmOutput", occurrence: 0 },
+      { nodeId: ids[0], field: "llmOutput", occurrence: 1 },
+      { nodeId: ids[2], field: "llmOutput", occurrence: 0 },
+    ]);
+  });
+});
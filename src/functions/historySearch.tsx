@@ -0,0 +1,134 @@
+/**
+ * @module historySearch
+ *
+ * Full-text search over the exchanges of a story tree. Matching is case-insensitive and
+ * works on the rendered text of the Markdown (see {@link renderedTexts}), so the
+ * occurrences found here are the ones `MarkdownRenderer` highlights.
+ */
+
+import { StoryNode, StoryTree } from "../models/HistoryTypes";
+import {
+  SearchField,
+  SearchHit,
+  SearchScope,
+  TextMatch,
+} from "../models/SearchTypes";
+import { renderedTexts } from "./markdownText";
+
+/** The texts each scope searches, in display order. */
+const FIELDS_BY_SCOPE: Record<SearchScope, SearchField[]> = {
+  [SearchScope.ALL]: ["playerInput", "llmOutput"],
+  [SearchScope.PLAYER]: ["playerInput"],
+  [SearchScope.GAMEMASTER]: ["llmOutput"],
+};
+
+/** Rendered texts of each exchange, by field; exchanges are immutable, so they stay valid. */
+const renderedTextCache = new WeakMap<
+  StoryNode,
+  Partial<Record<SearchField, string[]>>
+>();
+
+/**
+ * The rendered texts of a field of an exchange, cached as rendering is costly.
+ */
+function renderedTextsOf(node: StoryNode, field: SearchField): string[] {
+  let fields = renderedTextCache.get(node);
+  if (!fields) {
+    fields = {};
+    renderedTextCache.set(node, fields);
+  }
+  return (fields[field] ??= renderedTexts(node[field]));
+}
+
+/**
+ * Finds all non-overlapping occurrences of `query` in `text`, ignoring case.
+ *
+ * Case is folded by the regular expression instead of lower-casing both strings, since
+ * lower-casing can change the length of a text (e.g. "İ") and with it the offsets.
+ *
+ * @param {string} text - The text to search.
+ * @param {string} query - The text to find; blank queries match nothing.
+ * @returns {TextMatch[]} - The occurrences as offsets into `text`, in order.
+ */
+export function findOccurrences(text: string, query: string): TextMatch[] {
+  const needle = query.trim();
+  if (!needle) return [];
+
+  const pattern = new RegExp(
+    needle.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&"),
+    "giu",
+  );
+  return Array.from(text.matchAll(pattern), (match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+/**
+ * Cuts an excerpt around a match out of a longer text, e.g. for a list of search results.
+ *
+ * @param {string} text - The full text.
+ * @param {number} start - Start index of the match.
+ * @param {number} length - Length of the match.
+ * @param {number} [context=60] - Characters kept on each side of the match.
+ * @returns {string} - The excerpt on a single line, with "…" where text was cut off.
+ */
+export function createSnippet(
+  text: string,
+  start: number,
+  length: number,
+  context = 60,
+): string {
+  const from = Math.max(0, start - context);
+  const to = Math.min(text.length, start + length + context);
+  return (
+    (from > 0 ? "…" : "") +
+    text.slice(from, to).replace(/\s+/g, " ").trim() +
+    (to < text.length ? "…" : "")
+  );
+}
+
+/**
+ * Whether a search in `scope` looks at `field`.
+ *
+ * @param {SearchScope} scope - The scope of the search.
+ * @param {SearchField} field - A text of an exchange.
+ * @returns {boolean} - `true` if matches in `field` count.
+ */
+export function searchesField(scope: SearchScope, field: SearchField): boolean {
+  return FIELDS_BY_SCOPE[scope].includes(field);
+}
+
+/**
+ * Searches the given exchanges, e.g. the active path, for `query`.
+ *
+ * @param {StoryTree} tree - The story tree.
+ * @param {string[]} nodeIds - The exchanges to search, in story order.
+ * @param {string} query - The text to find.
+ * @param {SearchScope} scope - Which texts to search.
+ * @returns {SearchHit[]} - One hit per occurrence, in reading order.
+ */
+export function searchHistory(
+  tree: StoryTree,
+  nodeIds: string[],
+  query: string,
+  scope: SearchScope,
+): SearchHit[] {
+  const hits: SearchHit[] = [];
+  if (!query.trim()) return hits;
+
+  for (const nodeId of nodeIds) {
+    const node = tree[nodeId];
+    if (!node) continue;
+    for (const field of FIELDS_BY_SCOPE[scope]) {
+      const count = renderedTextsOf(node, field).reduce(
+        (sum, text) => sum + findOccurrences(text, query).length,
+        0,
+      );
+      for (let occurrence = 0; occurrence < count; occurrence++) {
+        hits.push({ nodeId, field, occurrence });
+      }
+    }
+  }
+  return hits;
+}
@@ -0,0 +1,59 @@
+/**
+ * @module httpBackend
+ *
+ * {@link GameBackend} implementation talking to the real LLM server through
+ * the functions of {@link module:restInterface}.
+ */
+
+import { GameBackend } from "../models/Backend";
+import {
+  deleteCharacter,
+  getCharacters,
+  getListMissions,
+  getLoadMissions,
+  getMission,
+  getSearchMissions,
+  patchInteraction,
+  postCharacter,
+  postNewMission,
+  postRewind,
+  postSaveMission,
+  postSelectBranch,
+  postStopGeneration,
+  putCharacter,
+  sendPlayerInputToLlm,
+  sendSpeechToText,
+  sendTextToSpeech,
+  sendTextToSpeechStream,
+  streamNpcGeneration,
+} from "./restInterface";
+
+/**
+ * Creates the HTTP backend. It holds no state of its own; configuration such as
+ * `VITE_BACKEND_URL` is read by {@link module:httpClient}.
+ *
+ * @returns {GameBackend} - The backend instance.
+ */
+export function createHttpBackend(): GameBackend {
+  return {
+    newMission: postNewMission,
+    saveMission: postSaveMission,
+    getMission,
+    listMissions: getListMissions,
+    searchMissions: getSearchMissions,
+    loadMission: getLoadMissions,
+    listCharacters: getCharacters,
+    createCharacter: postCharacter,
+    updateCharacter: putCharacter,
+    deleteCharacter,
+    generateNpcs: streamNpcGeneration,
+    streamInteraction: sendPlayerInputToLlm,
+    selectBranch: postSelectBranch,
+    patchInteraction,
+    rewind: postRewind,
+    stopGeneration: postStopGeneration,
+    textToSpeech: sendTextToSpeech,
+    textToSpeechStream: sendTextToSpeechStream,
+    speechToText: sendSpeechToText,
+  };
+}
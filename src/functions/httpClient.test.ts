@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { httpJson, httpStream } from "./httpClient";
+import { MalformedResponseError, ServerError } from "./httpErrors";
+
+vi.mock("../auth/firebase", () => ({ auth: { currentUser: null } }));
+
+const fetchMock = vi.fn<typeof fetch>();
+
+/** A caller signal that counts the abort listeners currently attached to it. */
+function countedSignal() {
+  const controller = new AbortController();
+  const listeners = new Set<EventListenerOrEventListenerObject>();
+  const { signal } = controller;
+  const add = signal.addEventListener.bind(signal);
+  const remove = signal.removeEventListener.bind(signal);
+  vi.spyOn(signal, "addEventListener").mockImplementation(
+    (type, listener, options) => {
+      if (listener) listeners.add(listener);
+      add(type, listener, options);
+    },
+  );
+  vi.spyOn(signal, "removeEventListener").mockImplementation(
+    (type, listener, options) => {
+      if (listener) listeners.delete(listener);
+      remove(type, listener, options);
+    },
+  );
+  return { controller, signal, listeners };
+}
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", fetchMock);
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("httpJson", () => {
+  it("reports a malformed body as a typed error", async () => {
+    fetchMock.mockResolvedValue(new Response("{not json", { status: 200 }));
+
+    const error = await httpJson("/missions").catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(MalformedResponseError);
+    expect(error).toMatchObject({ status: 200, detail: "{not json" });
+  });
+
+  it("leaves no abort listeners on the caller's signal after retries", async () => {
+    vi.useFakeTimers();
+    const { signal, listeners } = countedSignal();
+    fetchMock
+      .mockResolvedValueOnce(new Response("", { status: 503 }))
+      .mockResolvedValueOnce(new Response("", { status: 502 }))
+      .mockResolvedValueOnce(Response.json({ ok: true }));
+
+    const result = httpJson("/missions", { signal });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(listeners.size).toBe(0);
+  });
+
+  it("leaves no abort listeners after the last retry fails", async () => {
+    vi.useFakeTimers();
+    const { signal, listeners } = countedSignal();
+    fetchMock.mockImplementation(() =>
+      Promise.resolve(new Response("", { status: 500 })),
+    );
+
+    const result = httpJson("/missions", { signal }).catch(
+      (err: unknown) => err,
+    );
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBeInstanceOf(ServerError);
+    expect(listeners.size).toBe(0);
+  });
+});
+
+describe("httpStream", () => {
+  it("keeps the stream cancellable by the caller's signal", async () => {
+    const { controller, signal, listeners } = countedSignal();
+    let requestSignal: AbortSignal | undefined;
+    fetchMock.mockImplementation((_url, init) => {
+      requestSignal = init?.signal ?? undefined;
+      return Promise.resolve(new Response(new ReadableStream()));
+    });
+
+    await httpStream("/interactions", { signal });
+    controller.abort();
+
+    expect(requestSignal?.aborted).toBe(true);
+    expect(listeners.size).toBe(1);
+  });
+});
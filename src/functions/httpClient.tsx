@@ -0,0 +1,352 @@
+/**
+ * @module httpClient
+ *
+ * The single place where the frontend talks HTTP to the backend.
+ * Every call in {@link module:restInterface} goes through {@link httpRequest}, which provides:
+ * - auth header injection (Firebase bearer token, or `X-Demo-User` in demo mode)
+ * - a per-request timeout, combined with an optional caller `AbortSignal`
+ * - retries with exponential backoff and full jitter, for idempotent requests only
+ * - mapping of failures to the typed errors of {@link module:httpErrors}
+ */
+
+import { auth } from "../auth/firebase";
+import {
+  AuthError,
+  HttpError,
+  MalformedResponseError,
+  NetworkError,
+  NotFoundError,
+  ServerError,
+  StreamProtocolError,
+} from "./httpErrors";
+
+////////////////////
+// Configuration  //
+////////////////////
+
+/**
+ * The base URL for all backend API requests.
+ * @constant
+ */
+export const API_BASE =
+  import.meta.env.VITE_BACKEND_URL || "http://localhost:8000";
+const USE_FIREBASE = import.meta.env.VITE_USE_FIREBASE !== "false";
+
+/**
+ * Default timeout per request attempt, overridable via `VITE_HTTP_TIMEOUT_MS`.
+ * @constant
+ */
+const DEFAULT_TIMEOUT_MS =
+  Number(import.meta.env.VITE_HTTP_TIMEOUT_MS) || 30_000;
+const DEFAULT_IDEMPOTENT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+const RETRY_MAX_DELAY_MS = 4000;
+
+/**
+ * Options of a single backend request.
+ */
+export interface HttpRequestOptions {
+  /** HTTP method. Defaults to `GET`. */
+  method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+  /** JSON-serialisable payload, or `FormData` for uploads. */
+  body?: unknown;
+  /** Caller-controlled cancellation. Aborts are re-thrown as-is, never retried. */
+  signal?: AbortSignal;
+  /**
+   * Timeout per attempt in milliseconds; `0` disables it. For streamed responses it only
+   * covers the time until the response headers arrive.
+   */
+  timeoutMs?: number;
+  /** Whether the request may safely be repeated. Defaults to `true` for `GET`. */
+  idempotent?: boolean;
+  /** Retries after a network or server error. Defaults to 2 if idempotent, else 0. */
+  retries?: number;
+}
+
+////////////////////
+// Helper Logic   //
+////////////////////
+
+/**
+ * Builds the authentication headers for the current user.
+ *
+ * @async
+ * @returns {Promise<Record<string, string>>} - Either an `Authorization` or an `X-Demo-User` header.
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  if (USE_FIREBASE) {
+    // Add Firebase token if available
+    if (auth.currentUser) {
+      const token = await auth.currentUser.getIdToken();
+      return { Authorization: `Bearer ${token}` };
+    }
+    return {};
+  }
+  // Demo mode: send username from localStorage
+  return { "X-Demo-User": localStorage.getItem("demoUser") || "demo-user" };
+}
+
+/**
+ * Maps a non-OK response to the matching {@link HttpError} subclass.
+ */
+async function toHttpError(response: Response, url: string) {
+  let detail = "";
+  try {
+    detail = await response.text();
+  } catch {
+    // Body unreadable; the status alone has to do
+  }
+  const message = `Request to ${url} failed [${response.status}]${
+    detail ? `: ${detail}` : ""
+  }`;
+
+  if (response.status === 401 || response.status === 403) {
+    return new AuthError(message, url, response.status, detail);
+  }
+  if (response.status === 404) {
+    return new NotFoundError(message, url, response.status, detail);
+  }
+  if (response.status >= 500) {
+    return new ServerError(message, url, response.status, detail);
+  }
+  return new HttpError(message, url, response.status, detail);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in `[0, min(cap, base * 2^attempt))`.
+ */
+const retryDelay = (attempt: number) =>
+  Math.random() *
+  Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+
+const isRetryable = (error: unknown) =>
+  error instanceof NetworkError || error instanceof ServerError;
+
+/**
+ * Waits for `ms` milliseconds, rejecting early with the abort reason if `signal` fires.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+////////////////////
+// Main API Logic //
+////////////////////
+
+/**
+ * Performs one backend request and hands the OK response to `read`.
+ * The timeout of each attempt covers `read` as well, so body parsing can't hang forever.
+ *
+ * @async
+ * @template T - The result type produced by `read`.
+ * @param {string} path - API endpoint path (relative to `API_BASE`).
+ * @param {HttpRequestOptions} options - Method, body, timeout and retry options.
+ * @param {function(Response): Promise<T>} read - Consumes the OK response.
+ * @returns {Promise<T>} - Resolves with the result of `read`.
+ * @throws {HttpError} A subclass matching the failure, once all retries are used up.
+ * @throws {DOMException} The abort reason, if `options.signal` is aborted.
+ */
+export async function httpRequest<T>(
+  path: string,
+  options: HttpRequestOptions,
+  read: (response: Response) => Promise<T>,
+): Promise<T> {
+  const url = `${API_BASE}${path}`;
+  const method = options.method ?? "GET";
+  const idempotent = options.idempotent ?? method === "GET";
+  const retries =
+    options.retries ?? (idempotent ? DEFAULT_IDEMPOTENT_RETRIES : 0);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const isFormData = options.body instanceof FormData;
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : undefined;
+    const forwardAbort = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener("abort", forwardAbort, { once: true });
+    let keepAbortLink = false;
+
+    try {
+      if (options.signal?.aborted) {
+        throw options.signal.reason;
+      }
+
+      const headers: Record<string, string> = {
+        ...(await getAuthHeaders()),
+        // FormData sets its own multipart Content-Type including the boundary
+        ...(isFormData || options.body === undefined
+          ? {}
+          : { "Content-Type": "application/json" }),
+      };
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers,
+          signal: controller.signal,
+          ...(options.body === undefined
+            ? {}
+            : {
+                body: isFormData
+                  ? (options.body as FormData)
+                  : JSON.stringify(options.body),
+              }),
+        });
+      } catch (err) {
+        if (options.signal?.aborted) throw options.signal.reason;
+        throw new NetworkError(
+          timedOut
+            ? `Request to ${url} timed out after ${timeoutMs}ms`
+            : `Request to ${url} failed: ${
+                err instanceof Error ? err.message : String(err)
+              }`,
+          url,
+          timedOut,
+        );
+      }
+
+      if (!response.ok) {
+        throw await toHttpError(response, url);
+      }
+
+      try {
+        const result = await read(response);
+        // A body that is still unread, i.e. a stream, must remain cancellable
+        keepAbortLink = response.body !== null && !response.bodyUsed;
+        return result;
+      } catch (err) {
+        if (options.signal?.aborted) throw options.signal.reason;
+        if (timedOut) {
+          throw new NetworkError(
+            `Reading the response of ${url} timed out after ${timeoutMs}ms`,
+            url,
+            true,
+          );
+        }
+        throw err;
+      }
+    } catch (err) {
+      if (attempt >= retries || !idempotent || !isRetryable(err)) {
+        throw err;
+      }
+      console.warn(
+        `Retrying ${method} ${path} (${attempt + 1}/${retries}):`,
+        err instanceof Error ? err.message : err,
+      );
+      await sleep(retryDelay(attempt), options.signal);
+    } finally {
+      clearTimeout(timer);
+      if (!keepAbortLink) {
+        options.signal?.removeEventListener("abort", forwardAbort);
+      }
+    }
+  }
+}
+
+/**
+ * Performs a request and parses the JSON response body.
+ * A `204 No Content` response resolves to an empty object.
+ *
+ * @async
+ * @template T - The expected type of the JSON response from the API.
+ * @param {string} path - API endpoint path (relative to `API_BASE`).
+ * @param {HttpRequestOptions} [options] - See {@link HttpRequestOptions}.
+ * @returns {Promise<T>} - Resolves to the parsed JSON response of type `T`.
+ * @throws {MalformedResponseError} If the body isn't valid JSON.
+ * @throws {HttpError} See {@link httpRequest}.
+ */
+export function httpJson<T>(
+  path: string,
+  options: HttpRequestOptions = {},
+): Promise<T> {
+  return httpRequest(path, options, async (response) => {
+    if (response.status === 204) {
+      return {} as T;
+    }
+    const text = await response.text();
+    try {
+      return JSON.parse(text) as T;
+    } catch (err) {
+      throw new MalformedResponseError(
+        `Response of ${response.url} is not valid JSON: ${
+          err instanceof Error ? err.message : String(err)
+        }`,
+        response.url,
+        response.status,
+        text,
+      );
+    }
+  });
+}
+
+/**
+ * Performs a request and returns the response body as a `Blob`.
+ *
+ * @async
+ * @param {string} path - API endpoint path (relative to `API_BASE`).
+ * @param {HttpRequestOptions} [options] - See {@link HttpRequestOptions}.
+ * @returns {Promise<Blob>} - Resolves to the response body.
+ * @throws {HttpError} See {@link httpRequest}.
+ */
+export function httpBlob(
+  path: string,
+  options: HttpRequestOptions = {},
+): Promise<Blob> {
+  return httpRequest(path, options, (response) => response.blob());
+}
+
+/**
+ * Performs a request and returns a reader for its streamed body.
+ * Streams are never retried here; resuming them is protocol-specific.
+ * The timeout only covers the time until the response headers arrive, while
+ * `options.signal` keeps cancelling the stream for its whole lifetime.
+ *
+ * @async
+ * @param {string} path - API endpoint path (relative to `API_BASE`).
+ * @param {HttpRequestOptions} [options] - See {@link HttpRequestOptions}.
+ * @returns {Promise<ReadableStreamDefaultReader<Uint8Array>>} - Reader of the response body.
+ * @throws {StreamProtocolError} If the response has no body.
+ * @throws {HttpError} See {@link httpRequest}.
+ */
+export function httpStream(
+  path: string,
+  options: HttpRequestOptions = {},
+): Promise<ReadableStreamDefaultReader<Uint8Array>> {
+  return httpRequest(
+    path,
+    { ...options, idempotent: false },
+    async (response) => {
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new StreamProtocolError(
+          "Unable to get reader from response body.",
+          response.url,
+          response.status,
+        );
+      }
+      return reader;
+    },
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * @module httpErrors
+ *
+ * Typed error hierarchy raised by the {@link module:httpClient}.
+ * Callers should branch on `instanceof` instead of parsing error messages.
+ *
+ * - {@link HttpError}: base class, also used for 4xx statuses without a dedicated class
+ *   - {@link NetworkError}: no response at all (offline, DNS, CORS, reset, timeout)
+ *   - {@link AuthError}: 401/403
+ *   - {@link NotFoundError}: 404
+ *   - {@link ServerError}: 5xx
+ *   - {@link StreamProtocolError}: response arrived but its stream is unusable
+ *   - {@link MalformedResponseError}: response arrived but its body isn't valid JSON
+ */
+
+import { ValidationError } from "./schema";
+
+/**
+ * Base class of all errors raised for a backend request.
+ */
+export class HttpError extends Error {
+  /** Full URL of the failed request. */
+  readonly url: string;
+  /** HTTP status code, if a response was received. */
+  readonly status?: number;
+  /** Response body text, if any could be read. */
+  readonly detail?: string;
+
+  constructor(message: string, url: string, status?: number, detail?: string) {
+    super(message);
+    this.name = new.target.name;
+    this.url = url;
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+/**
+ * The request never got a response, e.g. the backend is unreachable or the request timed out.
+ */
+export class NetworkError extends HttpError {
+  /** True if the request was cancelled by the client-side timeout. */
+  readonly timedOut: boolean;
+
+  constructor(message: string, url: string, timedOut = false) {
+    super(message, url);
+    this.timedOut = timedOut;
+  }
+}
+
+/**
+ * The backend rejected the credentials (401) or the user lacks permission (403).
+ */
+export class AuthError extends HttpError {}
+
+/**
+ * The requested resource does not exist (404).
+ */
+export class NotFoundError extends HttpError {}
+
+/**
+ * The backend failed to process the request (5xx).
+ */
+export class ServerError extends HttpError {}
+
+/**
+ * The response arrived, but its body is missing or violates the stream protocol.
+ */
+export class StreamProtocolError extends HttpError {}
+
+/**
+ * The response arrived, but its body couldn't be parsed as JSON.
+ */
+export class MalformedResponseError extends HttpError {}
+
+/**
+ * Maps a failed request to a short, user-facing message.
+ *
+ * @param {unknown} error - Anything thrown by a backend call.
+ * @returns {string} - A message suitable for display in the UI.
+ */
+export function describeHttpError(error: unknown): string {
+  if (error instanceof NetworkError) {
+    return error.timedOut
+      ? "The server took too long to respond."
+      : "Cannot reach the server. Check your connection.";
+  }
+  if (error instanceof AuthError) {
+    return "Your session has expired. Please log in again.";
+  }
+  if (error instanceof NotFoundError) {
+    return "The requested mission no longer exists.";
+  }
+  if (error instanceof ServerError) {
+    return "The server ran into an error. Please try again.";
+  }
+  if (
+    error instanceof StreamProtocolError ||
+    error instanceof MalformedResponseError
+  ) {
+    return "The server sent an unreadable response.";
+  }
+  if (error instanceof ValidationError) {
+    return "The server sent data in an unexpected format.";
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,181 @@
+/**
+ * @module indexedDb
+ *
+ * Minimal promise-based access to the app's IndexedDB database, plus a
+ * zustand `StateStorage` backed by it for stores that outgrow `localStorage`.
+ *
+ * All object stores live in one database. To add a store, append its name to
+ * {@link OBJECT_STORES} and bump {@link DB_VERSION}; missing stores are created on upgrade.
+ */
+
+import { StateStorage } from "zustand/middleware";
+
+////////////////////
+// Configuration  //
+////////////////////
+
+const DB_NAME = "gamemaister";
+const DB_VERSION = 4;
+
+/**
+ * Names of all object stores. Values are stored out-of-line under string keys.
+ * @constant
+ */
+export const OBJECT_STORES = {
+  /** Serialised zustand stores, keyed by their `persist` name. */
+  ZUSTAND: "zustand",
+  /** Locally cached history of each mission, keyed by mission id. */
+  MISSIONS: "missions",
+  /** Persisted state that couldn't be read, kept for recovery. */
+  QUARANTINE: "quarantine",
+  /** Missions of the in-browser mock backend, keyed by its storage key. */
+  MOCK_BACKEND: "mockBackend",
+} as const;
+
+export type ObjectStoreName =
+  (typeof OBJECT_STORES)[keyof typeof OBJECT_STORES];
+
+////////////////////
+// Helper Logic   //
+////////////////////
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps an `IDBRequest` into a promise.
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens (and on first use creates or upgrades) the database. The connection is shared.
+ *
+ * @async
+ * @returns {Promise<IDBDatabase>} - The open database.
+ * @throws {DOMException} If IndexedDB is unavailable, e.g. in some private browsing modes.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of Object.values(OBJECT_STORES)) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab is upgrading; let it, and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          databasePromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () =>
+        console.warn("IndexedDB upgrade is blocked by another open tab.");
+    }).catch((err) => {
+      databasePromise = null; // Allow a later retry
+      throw err;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Runs `action` on an object store within a single transaction.
+ */
+async function withStore<T>(
+  storeName: ObjectStoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return promisify(
+    action(db.transaction(storeName, mode).objectStore(storeName)),
+  );
+}
+
+////////////////////
+// Main API Logic //
+////////////////////
+
+/**
+ * Reads the value stored under `key`.
+ *
+ * @async
+ * @template T - The type of the stored value.
+ * @param {ObjectStoreName} storeName - The object store to read from.
+ * @param {string} key - The key of the value.
+ * @returns {Promise<T | undefined>} - The value, or `undefined` if there is none.
+ */
+export function idbGet<T>(
+  storeName: ObjectStoreName,
+  key: string,
+): Promise<T | undefined> {
+  return withStore(storeName, "readonly", (store) => store.get(key));
+}
+
+/**
+ * Reads all values of an object store, in key order.
+ *
+ * @async
+ * @template T - The type of the stored values.
+ * @param {ObjectStoreName} storeName - The object store to read from.
+ * @returns {Promise<T[]>} - All stored values.
+ */
+export function idbGetAll<T>(storeName: ObjectStoreName): Promise<T[]> {
+  return withStore(storeName, "readonly", (store) => store.getAll());
+}
+
+/**
+ * Stores `value` under `key`, replacing any previous value.
+ *
+ * @async
+ * @param {ObjectStoreName} storeName - The object store to write to.
+ * @param {string} key - The key of the value.
+ * @param {unknown} value - A structured-cloneable value.
+ * @returns {Promise<void>} - Resolves once the write has succeeded.
+ */
+export async function idbSet(
+  storeName: ObjectStoreName,
+  key: string,
+  value: unknown,
+): Promise<void> {
+  await withStore(storeName, "readwrite", (store) => store.put(value, key));
+}
+
+/**
+ * Deletes the value stored under `key`, if any.
+ *
+ * @async
+ * @param {ObjectStoreName} storeName - The object store to delete from.
+ * @param {string} key - The key of the value.
+ * @returns {Promise<void>} - Resolves once the deletion has succeeded.
+ */
+export async function idbDelete(
+  storeName: ObjectStoreName,
+  key: string,
+): Promise<void> {
+  await withStore(storeName, "readwrite", (store) => store.delete(key));
+}
+
+/**
+ * A zustand `StateStorage` persisting into the {@link OBJECT_STORES.ZUSTAND} object store.
+ * Use it with `createJSONStorage(() => indexedDbStorage)`.
+ * @constant
+ */
+export const indexedDbStorage: StateStorage = {
+  getItem: async (name) =>
+    (await idbGet<string>(OBJECT_STORES.ZUSTAND, name)) ?? null,
+  setItem: (name, value) => idbSet(OBJECT_STORES.ZUSTAND, name, value),
+  removeItem: (name) => idbDelete(OBJECT_STORES.ZUSTAND, name),
+};
@@ -0,0 +1,42 @@
+/**
+ * @module markdownText
+ *
+ * The text of a Markdown string as `MarkdownRenderer` shows it. The history search counts
+ * its matches in these texts, so that its n-th match is the n-th one the renderer marks:
+ * syntax such as link targets or emphasis markers isn't searched, and a match spanning
+ * formatting is no match in either.
+ */
+
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkRehype from "remark-rehype";
+import remarkBreaks from "remark-breaks";
+import type { Nodes } from "hast";
+
+/**
+ * The remark plugins `MarkdownRenderer` passes to `react-markdown`.
+ * @constant
+ */
+export const MARKDOWN_REMARK_PLUGINS = [remarkBreaks];
+
+/** The pipeline of `react-markdown` up to the rehype plugins, which see the same tree. */
+const processor = unified()
+  .use(remarkParse)
+  .use(MARKDOWN_REMARK_PLUGINS)
+  .use(remarkRehype, { allowDangerousHtml: true });
+
+/**
+ * Renders Markdown to the text nodes of its HTML tree.
+ *
+ * @param {string} markdown - The Markdown to render.
+ * @returns {string[]} - The values of all text nodes, in document order.
+ */
+export function renderedTexts(markdown: string): string[] {
+  const texts: string[] = [];
+  const visit = (node: Nodes) => {
+    if (node.type === "text") texts.push(node.value);
+    else if ("children" in node) node.children.forEach(visit);
+  };
+  visit(processor.runSync(processor.parse(markdown)));
+  return texts;
+}
@@ -0,0 +1,123 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { StorageValue } from "zustand/middleware";
+import { createMissionStorage } from "./missionCache";
+import { idbGet, idbSet } from "./indexedDb";
+
+// Node has neither IndexedDB nor a page to hide
+vi.mock("./indexedDb", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./indexedDb")>()),
+  idbDelete: vi.fn(() => Promise.resolve()),
+  idbGet: vi.fn(() => Promise.resolve(undefined)),
+  idbGetAll: vi.fn(() => Promise.resolve([])),
+  idbSet: vi.fn(() => Promise.resolve()),
+}));
+
+const page = Object.assign(new EventTarget(), {
+  setTimeout: (handler: () => void, ms: number) => setTimeout(handler, ms),
+  clearTimeout: (timer: number) => clearTimeout(timer),
+});
+const pageDocument = Object.assign(new EventTarget(), {
+  visibilityState: "visible",
+});
+vi.stubGlobal("window", page);
+vi.stubGlobal("document", pageDocument);
+vi.stubGlobal("localStorage", { getItem: () => null });
+
+interface MissionState {
+  missionId: number | null;
+  text: string;
+}
+
+let openMission: number | null = 1;
+const storage = createMissionStorage<MissionState>(() => openMission);
+
+const stateOf = (missionId: number | null, text: string) =>
+  ({ state: { missionId, text }, version: 1 }) as StorageValue<MissionState>;
+
+/** The values written to IndexedDB so far, by mission. */
+const written = () =>
+  vi
+    .mocked(idbSet)
+    .mock.calls.map(([, key, entry]) => [
+      key,
+      (entry as { value: StorageValue<MissionState> }).value.state.text,
+    ]);
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  // Leave nothing pending from the previous test
+  await storage.removeItem("history");
+  vi.clearAllMocks();
+  openMission = 1;
+  pageDocument.visibilityState = "visible";
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("createMissionStorage", () => {
+  it("writes only the latest state once the delay has passed", async () => {
+    for (const text of ["a", "ab", "abc"]) {
+      await storage.setItem("history", stateOf(1, text));
+    }
+    expect(idbSet).not.toHaveBeenCalled();
+
+    await vi.runAllTimersAsync();
+
+    expect(written()).toEqual([["1", "abc"]]);
+  });
+
+  it("keeps the latest state of each mission", async () => {
+    await storage.setItem("history", stateOf(1, "one"));
+    await storage.setItem("history", stateOf(2, "two"));
+    await storage.setItem("history", stateOf(null, "none"));
+
+    await vi.runAllTimersAsync();
+
+    expect(written()).toEqual([
+      ["1", "one"],
+      ["2", "two"],
+    ]);
+  });
+
+  it("flushes when the page is hidden", async () => {
+    await storage.setItem("history", stateOf(1, "draft"));
+
+    pageDocument.visibilityState = "hidden";
+    pageDocument.dispatchEvent(new Event("visibilitychange"));
+
+    expect(written()).toEqual([["1", "draft"]]);
+    await vi.runAllTimersAsync();
+    expect(idbSet).toHaveBeenCalledOnce();
+  });
+
+  it("flushes when the page is left", async () => {
+    await storage.setItem("history", stateOf(1, "draft"));
+
+    page.dispatchEvent(new Event("pagehide"));
+
+    expect(written()).toEqual([["1", "draft"]]);
+  });
+
+  it("writes pending state before reading", async () => {
+    await storage.setItem("history", stateOf(1, "draft"));
+
+    await storage.getItem("history");
+
+    expect(written()).toEqual([["1", "draft"]]);
+    expect(vi.mocked(idbSet).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(idbGet).mock.invocationCallOrder[0],
+    );
+  });
+
+  it("drops pending state of a removed mission", async () => {
+    await storage.setItem("history", stateOf(1, "draft"));
+
+    await storage.removeItem("history");
+    await vi.runAllTimersAsync();
+
+    expect(idbSet).not.toHaveBeenCalled();
+  });
+});
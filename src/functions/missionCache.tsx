@@ -0,0 +1,220 @@
+/**
+ * @module missionCache
+ *
+ * Local copy of each mission's history in IndexedDB, so that recently played missions open
+ * without waiting for the backend and tabs on different missions don't overwrite each other.
+ *
+ * Entries are keyed by mission id. Opening a mission marks it as recently used; once more
+ * than {@link MAX_CACHED_MISSIONS} missions are cached, the least recently opened ones are
+ * evicted. The backend stays the source of truth, so an evicted mission is simply loaded
+ * from it again.
+ *
+ * The history changes with every streamed token, so writes are coalesced: only the latest
+ * state of a mission is written, {@link WRITE_DELAY_MS} after the first change. Pending writes
+ * are flushed when the page is hidden or left, and before a mission is read.
+ */
+
+import { PersistStorage, StorageValue } from "zustand/middleware";
+import {
+  OBJECT_STORES,
+  idbDelete,
+  idbGet,
+  idbGetAll,
+  idbSet,
+} from "./indexedDb";
+
+////////////////////
+// Configuration  //
+////////////////////
+
+/**
+ * Number of missions kept in the cache.
+ * @constant
+ */
+const MAX_CACHED_MISSIONS = 20;
+
+/** Delay between a change and the write of the coalesced state. */
+const WRITE_DELAY_MS = 1_000;
+
+/** Key of the single history slot in `localStorage` used before the cache existed. */
+const LEGACY_HISTORY_KEY = "history-storage";
+/** Key of the app store in `localStorage`; it tells which mission the legacy slot belongs to. */
+const LEGACY_APP_KEY = "app-storage";
+
+/**
+ * A cached mission history.
+ * @typedef {object} CachedMission
+ * @property {number} missionId - The mission.
+ * @property {number} lastOpened - Epoch milliseconds of the last read or write.
+ * @property {StorageValue} value - The persisted store state with its version.
+ */
+interface CachedMission<S> {
+  missionId: number;
+  lastOpened: number;
+  value: StorageValue<S>;
+}
+
+////////////////////
+// Helper Logic   //
+////////////////////
+
+/** The latest unwritten state of each mission. */
+const pendingWrites = new Map<number, StorageValue<unknown>>();
+let writeTimer: number | null = null;
+let flushOnLeaveRegistered = false;
+
+/**
+ * Writes the pending states of all missions. A failed write only costs a reload from the
+ * backend, so it is logged and not retried.
+ */
+async function flushWrites(): Promise<void> {
+  if (writeTimer !== null) {
+    window.clearTimeout(writeTimer);
+    writeTimer = null;
+  }
+  const writes = [...pendingWrites];
+  pendingWrites.clear();
+  await Promise.all(
+    writes.map(async ([missionId, value]) => {
+      try {
+        await idbSet(OBJECT_STORES.MISSIONS, String(missionId), {
+          missionId,
+          lastOpened: Date.now(),
+          value,
+        } satisfies CachedMission<unknown>);
+      } catch (error) {
+        console.warn(`Could not cache mission ${missionId}:`, error);
+      }
+    }),
+  );
+}
+
+/**
+ * Flushes pending writes when the page is hidden or left, since the timer may never fire.
+ */
+function registerFlushOnLeave(): void {
+  if (flushOnLeaveRegistered || typeof window === "undefined") return;
+  flushOnLeaveRegistered = true;
+  const flush = () => void flushWrites();
+  window.addEventListener("pagehide", flush);
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") flush();
+  });
+}
+
+/**
+ * Deletes the least recently opened missions beyond {@link MAX_CACHED_MISSIONS}.
+ */
+async function evictLeastRecentlyOpened(): Promise<void> {
+  const entries = await idbGetAll<CachedMission<unknown>>(
+    OBJECT_STORES.MISSIONS,
+  );
+  if (entries.length <= MAX_CACHED_MISSIONS) return;
+
+  const evicted = entries
+    .sort((a, b) => b.lastOpened - a.lastOpened)
+    .slice(MAX_CACHED_MISSIONS);
+  await Promise.all(
+    evicted.map((entry) =>
+      idbDelete(OBJECT_STORES.MISSIONS, String(entry.missionId)),
+    ),
+  );
+}
+
+/**
+ * Takes over the old global `localStorage` history if it belongs to `missionId`,
+ * and removes it either way once a mission has been opened from the cache.
+ */
+function takeLegacyHistory<S>(missionId: number): StorageValue<S> | null {
+  try {
+    const history = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (!history) return null;
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+
+    const app = JSON.parse(localStorage.getItem(LEGACY_APP_KEY) ?? "{}");
+    if (app?.state?.mission !== missionId) return null;
+    const legacy = JSON.parse(history) as StorageValue<S>;
+    return { ...legacy, state: { ...legacy.state, missionId } };
+  } catch {
+    return null;
+  }
+}
+
+////////////////////
+// Main API Logic //
+////////////////////
+
+/**
+ * Creates a zustand `PersistStorage` that keeps one entry per mission in the
+ * {@link OBJECT_STORES.MISSIONS} object store. Values are stored as structured clones,
+ * without JSON serialisation.
+ *
+ * Writes go to the mission named in the persisted state itself, so a store can never
+ * overwrite another mission's cache while switching. Reads go to the mission returned by
+ * `getMissionId`, i.e. the one the tab is about to open.
+ *
+ * @template S - The persisted state; it must carry the mission it belongs to.
+ * @param {function(): number | null} getMissionId - The mission to read on hydration.
+ * @returns {PersistStorage<S>} - The storage for the `persist` middleware.
+ */
+export function createMissionStorage<S extends { missionId: number | null }>(
+  getMissionId: () => number | null,
+): PersistStorage<S> {
+  registerFlushOnLeave();
+  return {
+    getItem: async () => {
+      const missionId = getMissionId();
+      if (missionId === null) return null;
+
+      // A state still waiting to be written is newer than the cached one
+      await flushWrites();
+
+      const cached = await idbGet<CachedMission<S>>(
+        OBJECT_STORES.MISSIONS,
+        String(missionId),
+      );
+      const value = cached?.value ?? takeLegacyHistory<S>(missionId);
+      if (!value) return null;
+
+      // Opening counts as a use for the LRU order
+      await idbSet(OBJECT_STORES.MISSIONS, String(missionId), {
+        missionId,
+        lastOpened: Date.now(),
+        value,
+      } satisfies CachedMission<S>);
+      evictLeastRecentlyOpened().catch((error) =>
+        console.warn("Could not evict cached missions:", error),
+      );
+      return value;
+    },
+    // State is immutable, so keeping the latest one until it is written is safe
+    setItem: (_name, value) => {
+      const { missionId } = value.state;
+      if (missionId === null) return;
+      pendingWrites.set(missionId, value);
+      writeTimer ??= window.setTimeout(
+        () => void flushWrites(),
+        WRITE_DELAY_MS,
+      );
+    },
+    removeItem: async () => {
+      const missionId = getMissionId();
+      if (missionId !== null) {
+        pendingWrites.delete(missionId);
+        await idbDelete(OBJECT_STORES.MISSIONS, String(missionId));
+      }
+    },
+  };
+}
+
+/**
+ * Removes a mission from the cache, e.g. after the backend reported it gone.
+ *
+ * @async
+ * @param {number} missionId - The mission to forget.
+ * @returns {Promise<void>} - Resolves once the entry has been deleted.
+ */
+export function deleteCachedMission(missionId: number): Promise<void> {
+  pendingWrites.delete(missionId);
+  return idbDelete(OBJECT_STORES.MISSIONS, String(missionId));
+}
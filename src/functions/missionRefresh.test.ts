@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { refreshMission } from "./missionRefresh";
+import backend from "./backend";
+import useHistoryStore from "../stores/historyStore";
+import { MissionLoadData } from "../models/MissionModels";
+import { GenerationStatus } from "../models/HistoryTypes";
+import { GameType } from "../models/Types";
+
+vi.mock("./backend", () => ({ default: { loadMission: vi.fn() } }));
+
+// Node has no tab storage; the app and roster stores keep their state in memory
+vi.mock("./tabStorage", () => ({
+  tabStorage: { getItem: () => null, setItem: () => {}, removeItem: () => {} },
+}));
+
+// The mission cache lives in IndexedDB, which Node lacks
+vi.mock("./missionCache", () => ({
+  createMissionStorage: () => ({
+    getItem: () => null,
+    setItem: () => {},
+    removeItem: () => {},
+  }),
+}));
+
+const serverHistory: MissionLoadData = {
+  mission: {
+    missionId: 1,
+    name: "Heist",
+    nameCustom: "",
+    gameType: GameType.SHADOWRUN,
+    description: "",
+  },
+  interactions: [
+    { playerInput: "Look around", llmOutput: "A door." },
+    { playerInput: "Open the door", llmOutput: "It creaks open." },
+  ],
+  characters: [],
+};
+
+/** Lets `loadMission` answer only once `respond` is called. */
+function deferLoad() {
+  let respond = () => {};
+  vi.mocked(backend.loadMission).mockReturnValue(
+    new Promise((resolve) => {
+      respond = () => resolve(serverHistory);
+    }),
+  );
+  return () => respond();
+}
+
+/** The player inputs on the active path. */
+const shownInputs = () => {
+  const { interactions, playerInputOld } = useHistoryStore.getState();
+  return [
+    ...interactions.map(({ playerInput }) => playerInput),
+    playerInputOld,
+  ];
+};
+
+beforeEach(() => {
+  // The cached copy is one turn behind the server
+  useHistoryStore.setState({ missionId: 1 });
+  useHistoryStore.getState().loadHistoryData({
+    interactions: [],
+    lastPlayerInput: "Look around",
+    lastLlmThinking: "",
+    lastLlmOutput: "A door.",
+  });
+  useHistoryStore.setState({ past: [], future: [] });
+});
+
+describe("refreshMission", () => {
+  it("shows the server's history when nothing happened meanwhile", async () => {
+    const respond = deferLoad();
+
+    const refreshed = refreshMission(1);
+    respond();
+    await refreshed;
+
+    expect(shownInputs()).toEqual(["Look around", "Open the door"]);
+  });
+
+  it("leaves a history alone that streams a new turn", async () => {
+    const respond = deferLoad();
+
+    const refreshed = refreshMission(1);
+    useHistoryStore.getState().performOptimisticUpdate("Climb the fence");
+    respond();
+    await refreshed;
+
+    const { generationStatus, past } = useHistoryStore.getState();
+    expect(generationStatus).toBe(GenerationStatus.STREAMING);
+    expect(shownInputs()).toEqual(["Look around", "Climb the fence"]);
+    expect(past).toHaveLength(1);
+  });
+
+  it("leaves a history alone that changed since it was shown", async () => {
+    const respond = deferLoad();
+
+    const refreshed = refreshMission(1);
+    useHistoryStore.getState().performOptimisticUpdate("Climb the fence");
+    useHistoryStore.getState().updateLlmOutput("You climb.");
+    useHistoryStore.getState().setGenerationStatus(GenerationStatus.IDLE);
+    respond();
+    await refreshed;
+
+    expect(shownInputs()).toEqual(["Look around", "Climb the fence"]);
+  });
+
+  it("ignores a mission that is no longer open", async () => {
+    const respond = deferLoad();
+
+    const refreshed = refreshMission(1);
+    useHistoryStore.setState({ missionId: 2 });
+    respond();
+    await refreshed;
+
+    expect(shownInputs()).toEqual(["Look around"]);
+  });
+});
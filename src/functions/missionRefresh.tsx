@@ -0,0 +1,60 @@
+/**
+ * @module missionRefresh
+ *
+ * Brings the stores in line with the backend's copy of a mission, e.g. after a cached
+ * mission was shown right away. The history is only replaced if it differs from the
+ * local one, which keeps local alternatives and reasoning.
+ *
+ * The refresh may return while the player is already playing on: a turn or regeneration
+ * started meanwhile changes the local tree, and replacing it would pull the story out from
+ * under the stream. Such a history is left alone; the stream brings the backend up to date.
+ */
+
+import backend from "./backend";
+import { matchesActivePath } from "./storyTree";
+import { GenerationStatus } from "../models/HistoryTypes";
+import useAppStore from "../stores/appStore";
+import useHistoryStore from "../stores/historyStore";
+import useCharacterStore from "../stores/characterStore";
+
+/**
+ * Loads a mission from the backend into the app, character and history stores.
+ *
+ * @async
+ * @param {number} missionId - The mission to refresh; ignored once another one is open.
+ * @returns {Promise<void>} - Resolves once the stores are updated.
+ * @throws {HttpError} If the mission couldn't be loaded.
+ */
+export async function refreshMission(missionId: number): Promise<void> {
+  const { setAdventure, setGameType } = useAppStore.getState();
+  const shownNodes = useHistoryStore.getState().nodes;
+
+  const loaded = await backend.loadMission(missionId);
+
+  // The player may have switched to another mission meanwhile
+  const history = useHistoryStore.getState();
+  if (history.missionId !== missionId) return;
+
+  setAdventure(loaded.mission.nameCustom || loaded.mission.name);
+  setGameType(loaded.mission.gameType);
+  useCharacterStore.getState().replaceRoster(missionId, loaded.characters);
+
+  if (
+    history.generationStatus === GenerationStatus.STREAMING ||
+    history.nodes !== shownNodes
+  ) {
+    return;
+  }
+
+  const loadedInteractions = loaded.interactions;
+  if (matchesActivePath(history.nodes, loadedInteractions)) return;
+
+  const lastInteraction = loadedInteractions[loadedInteractions.length - 1];
+  history.loadHistoryData({
+    interactions: loadedInteractions.slice(0, -1),
+    lastPlayerInput: lastInteraction?.playerInput ?? "",
+    lastLlmThinking: lastInteraction?.llmThinking ?? "",
+    lastLlmOutput: lastInteraction?.llmOutput ?? "",
+    lastEdited: lastInteraction?.edited,
+  });
+}
@@ -0,0 +1,755 @@
+/**
+ * @module mockBackend
+ *
+ * In-browser {@link GameBackend} that needs no server at all, for offline play,
+ * demos and component tests.
+ *
+ * Missions and their story trees are kept in memory and, unless disabled, mirrored to
+ * IndexedDB so a reload keeps the current game; `localStorage` would overflow with long
+ * histories such as the benchmark mission.
+ *
+ * Answers are canned gamemaster texts streamed word by word with jittered delays,
+ * preceded by a short block of thinking, so the UI sees the same event sequence as with
+ * the real LLM server. Generated NPCs are picked from a small cast and fill in field by
+ * field.
+ */
+
+import { GameBackend } from "../models/Backend";
+import {
+  CharacterDraft,
+  CharacterProps,
+  GeneratedCharacter,
+} from "../models/CharacterProps";
+import { getSheetSchemaForGameType } from "../models/CharacterSheets";
+import {
+  characterWithShadowrunSheet,
+  draftFromGeneratedNpc,
+} from "./characters";
+import { Interaction, MissionLoadData } from "../models/MissionModels";
+import { PlayerInputData } from "../models/PlayerInputData";
+import { NpcGenerationData } from "../models/NpcGenerationData";
+import {
+  MissionPayload,
+  NewMissionPayload,
+  StreamOutcome,
+} from "../models/RestInterface";
+import { MissionSearchResult, SearchField } from "../models/SearchTypes";
+import { GameType } from "../models/Types";
+import { NotFoundError } from "./httpErrors";
+import { OBJECT_STORES, idbGet, idbSet } from "./indexedDb";
+import { createSnippet, findOccurrences } from "./historySearch";
+
+////////////////////
+// Configuration  //
+////////////////////
+
+/**
+ * Options of {@link createMockBackend}.
+ */
+export interface MockBackendOptions {
+  /** Mean delay between two streamed words. Defaults to 45 ms; use `0` in tests. */
+  tokenDelayMs?: number;
+  /** Delay before the first streamed event and of non-streamed calls. Defaults to 400 ms. */
+  latencyMs?: number;
+  /** IndexedDB key to persist missions under; `null` keeps them in memory only. */
+  storageKey?: string | null;
+  /** Adds a mission with this many exchanges, to benchmark long histories. Defaults to `0`. */
+  benchmarkTurns?: number;
+}
+
+const DEFAULT_STORAGE_KEY = "mock-backend";
+const MOCK_URL = "mock://backend";
+
+const MISSION_NAMES: Record<GameType, string> = {
+  [GameType.SHADOWRUN]: "Rain over Redmond",
+  [GameType.VAMPIRE_THE_MASQUERADE]: "The Prince's Debt",
+  [GameType.CALL_OF_CTHULHU]: "Whispers from Innsmouth",
+  [GameType.SEVENTH_SEA]: "The Drowned Crown",
+  [GameType.EXPANSE]: "Silence on Ceres Station",
+  [GameType.CUSTOM]: "An Unwritten Tale",
+};
+
+const THINKING = [
+  "The player acts decisively. Reward it, but keep a complication in reserve.",
+  "Recap what the character knows, then introduce a new clue that points to the antagonist.",
+  "The scene needs tension: a time limit, an unexpected witness, a choice with a cost.",
+];
+
+const ANSWERS = [
+  "The air grows heavy as you step forward. Somewhere behind you a door slams, and the echo rolls " +
+    "through the corridor long after it should have faded. On the floor, half hidden in the dust, " +
+    "lies a torn note with a single word on it: **tonight**.\n\nWhat do you do?",
+  "Your contact leans closer, voice barely above a whisper. \"They know you're here. I can get you " +
+    'out through the old service tunnels, but it will cost you — and not in money." Her eyes flick ' +
+    "towards the entrance, where two figures have just appeared.\n\nWhat do you do?",
+  "It works — almost. The lock gives way with a dull click, but an alarm starts wailing two floors " +
+    "below. You have perhaps three minutes before the guards arrive. Inside, a desk, a safe and a " +
+    "window that opens onto a narrow ledge.\n\nWhat do you do?",
+  "Silence answers you at first. Then, slowly, the stranger smiles, revealing far too many teeth. " +
+    '"You ask the right questions," he says, "but you ask them of the wrong people." He slides a ' +
+    "sealed envelope across the table.\n\nWhat do you do?",
+];
+
+const TRANSCRIPT = "I look around carefully and search for another way out.";
+
+const NPCS: GeneratedCharacter[] = [
+  {
+    name: "Mara Voss",
+    role: "Informant",
+    description: "Nervous, well connected and always two favours behind.",
+  },
+  {
+    name: "Old Tomas",
+    role: "Caretaker",
+    description: "Has seen everything that happened here and tells half of it.",
+  },
+  {
+    name: "The Grey Visitor",
+    role: "Rival",
+    description: "Polite, patient and never far behind the party.",
+  },
+  {
+    name: "Ilse Brandt",
+    role: "Guard captain",
+    description: "Loyal to whoever paid last, and proud of it.",
+  },
+];
+
+/** An exchange of the mock's story tree; alternatives are siblings. */
+type StoredNode = Interaction & {
+  children: StoredNode[];
+  /** Index of the child on the active branch, `-1` for a leaf. */
+  activeChild: number;
+};
+
+type StoredMission = {
+  mission: MissionPayload;
+  /** Virtual, empty root of the story tree. */
+  root: StoredNode;
+  characters: CharacterProps[];
+};
+
+type MockState = {
+  nextMissionId: number;
+  nextCharacterId: number;
+  missions: Record<number, StoredMission>;
+};
+
+////////////////////
+// Helper Logic   //
+////////////////////
+
+/**
+ * Waits for `ms` milliseconds, resolving early when `signal` is aborted.
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (ms <= 0 || signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    // Streams wait many times on the same signal, so don't let listeners pile up
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** A random delay in `[0.5, 1.5) * ms`, so streaming doesn't look mechanical. */
+const jitter = (ms: number) => ms * (0.5 + Math.random());
+
+/** Splits text into word-sized pieces, each keeping its trailing whitespace. */
+const words = (text: string) => text.match(/\S+\s*|\s+/gu) ?? [];
+
+/**
+ * Encodes `seconds` of silence as a mono 8 kHz, 8-bit PCM WAV file.
+ */
+function silentWav(seconds: number): Blob {
+  const sampleRate = 8000;
+  const samples = Math.round(sampleRate * seconds);
+  const buffer = new ArrayBuffer(44 + samples);
+  const view = new DataView(buffer);
+  const writeAscii = (offset: number, text: string) =>
+    [...text].forEach((char, i) =>
+      view.setUint8(offset + i, char.charCodeAt(0)),
+    );
+
+  writeAscii(0, "RIFF");
+  view.setUint32(4, 36 + samples, true);
+  writeAscii(8, "WAVE");
+  writeAscii(12, "fmt ");
+  view.setUint32(16, 16, true); // Size of the fmt chunk
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate, true); // Byte rate
+  view.setUint16(32, 1, true); // Block align
+  view.setUint16(34, 8, true); // Bits per sample
+  writeAscii(36, "data");
+  view.setUint32(40, samples, true);
+  new Uint8Array(buffer, 44).fill(128); // 8-bit PCM is unsigned, 128 is silence
+
+  return new Blob([buffer], { type: "audio/wav" });
+}
+
+const createNode = (
+  playerInput: string,
+  llmOutput: string,
+  llmThinking = "",
+): StoredNode => ({
+  playerInput,
+  llmOutput,
+  llmThinking,
+  children: [],
+  activeChild: -1,
+});
+
+/** Appends `child` below `parent` and makes it the active branch. */
+function appendNode(parent: StoredNode, child: StoredNode): void {
+  parent.children.push(child);
+  parent.activeChild = parent.children.length - 1;
+}
+
+/** The nodes of the active branch, without the root. */
+function activePath(root: StoredNode): StoredNode[] {
+  const path: StoredNode[] = [];
+  let node = root;
+  while (node.children[node.activeChild]) {
+    node = node.children[node.activeChild];
+    path.push(node);
+  }
+  return path;
+}
+
+/**
+ * Follows `branchPath` from the root and makes it the active branch on the way.
+ * Returns `undefined` if the path doesn't exist.
+ */
+function followBranchPath(
+  root: StoredNode,
+  branchPath: number[],
+): StoredNode | undefined {
+  let node: StoredNode | undefined = root;
+  for (const index of branchPath) {
+    if (!node?.children[index]) return undefined;
+    node.activeChild = index;
+    node = node.children[index];
+  }
+  return node;
+}
+
+/**
+ * Adds a mission whose active branch has `turns` exchanges, unless it exists already.
+ * Every third answer is twice as long, so the exchanges differ in height.
+ * Returns whether the mission was added.
+ */
+function seedBenchmarkMission(state: MockState, turns: number): boolean {
+  const name = `Benchmark (${turns} turns)`;
+  if (
+    Object.values(state.missions).some(({ mission }) => mission.name === name)
+  ) {
+    return false;
+  }
+  const root = createNode("", "");
+  let parent = root;
+  for (let turn = 0; turn < turns; turn++) {
+    const answer = ANSWERS[turn % ANSWERS.length];
+    const node = createNode(
+      `Turn ${turn + 1}: ${TRANSCRIPT}`,
+      turn % 3 === 0
+        ? `${answer}\n\n${ANSWERS[(turn + 1) % ANSWERS.length]}`
+        : answer,
+      THINKING[turn % THINKING.length],
+    );
+    appendNode(parent, node);
+    parent = node;
+  }
+  const missionId = state.nextMissionId++;
+  state.missions[missionId] = {
+    mission: {
+      mission_id: missionId,
+      name,
+      description: "A long mission for measuring how the history renders.",
+      game_type: GameType.SHADOWRUN,
+    },
+    root,
+    characters: [],
+  };
+  return true;
+}
+
+const emptyState = (): MockState => ({
+  nextMissionId: 1,
+  nextCharacterId: 1,
+  missions: {},
+});
+
+/**
+ * Reads the persisted missions. Missions kept in `localStorage` by earlier versions are
+ * moved to IndexedDB.
+ */
+async function loadState(storageKey: string | null): Promise<MockState> {
+  const empty = emptyState();
+  if (storageKey === null) return empty;
+  try {
+    let stored = await idbGet<string>(OBJECT_STORES.MOCK_BACKEND, storageKey);
+    if (stored === undefined) {
+      stored = localStorage.getItem(storageKey) ?? undefined;
+      if (stored === undefined) return empty;
+      await idbSet(OBJECT_STORES.MOCK_BACKEND, storageKey, stored);
+      localStorage.removeItem(storageKey);
+    }
+    const state = JSON.parse(stored) as MockState;
+    // Missions stored before the story tree kept a flat interaction list
+    for (const mission of Object.values(state.missions) as (Omit<
+      StoredMission,
+      "characters"
+    > & {
+      interactions?: Interaction[];
+      characters?: unknown[];
+    })[]) {
+      if (!mission.root) {
+        mission.root = createNode("", "");
+        let parent = mission.root;
+        for (const { playerInput, llmOutput } of mission.interactions ?? []) {
+          const node = createNode(playerInput, llmOutput);
+          appendNode(parent, node);
+          parent = node;
+        }
+        delete mission.interactions;
+      }
+      // Missions stored before characters existed have none, and characters stored
+      // before sheets depended on the game system were Shadowrun's
+      mission.characters = (mission.characters ?? []).map((character) =>
+        "sheet" in (character as object)
+          ? character
+          : characterWithShadowrunSheet(character as Record<string, unknown>),
+      );
+    }
+    state.nextCharacterId ??= 1;
+    return state;
+  } catch {
+    return empty;
+  }
+}
+
+////////////////////
+// Main API Logic //
+////////////////////
+
+/**
+ * Creates an independent mock backend.
+ *
+ * @param {MockBackendOptions} [options] - Timing and persistence options.
+ * @returns {GameBackend} - The backend instance.
+ */
+export function createMockBackend({
+  tokenDelayMs = 45,
+  latencyMs = 400,
+  storageKey = DEFAULT_STORAGE_KEY,
+  benchmarkTurns = 0,
+}: MockBackendOptions = {}): GameBackend {
+  let state = emptyState();
+  /** Request ids currently streaming. */
+  const activeRequests = new Set<string>();
+  /** Active request ids stopped through `stopGeneration`. */
+  const stoppedRequests = new Set<string>();
+
+  // Serialised right away: the write happens later, when the state may have moved on
+  const persist = () => {
+    if (storageKey === null) return;
+    idbSet(OBJECT_STORES.MOCK_BACKEND, storageKey, JSON.stringify(state)).catch(
+      (err) => console.warn("Mock backend could not persist its state:", err),
+    );
+  };
+
+  // Calls that touch the missions wait for this first
+  const loaded = loadState(storageKey).then((stored) => {
+    state = stored;
+    if (benchmarkTurns > 0 && seedBenchmarkMission(state, benchmarkTurns)) {
+      persist();
+    }
+  });
+
+  const findMission = (missionId: number): StoredMission => {
+    const stored = state.missions[missionId];
+    if (!stored) {
+      throw new NotFoundError(
+        `Mission ${missionId} not found`,
+        `${MOCK_URL}/mission/${missionId}`,
+        404,
+      );
+    }
+    return stored;
+  };
+
+  const findNode = (stored: StoredMission, branchPath: number[]) => {
+    const node = followBranchPath(stored.root, branchPath);
+    if (!node) {
+      throw new NotFoundError(
+        `No exchange at branch path [${branchPath.join(", ")}]`,
+        `${MOCK_URL}/interaction/${stored.mission.mission_id}`,
+        404,
+      );
+    }
+    return node;
+  };
+
+  /**
+   * Stores a finished answer the way the real backend does. A new prompt continues the
+   * exchange at `branchPath` (after syncing it with `prevInteraction`); a regeneration adds
+   * another alternative below `branchPath`. Without a path, the active branch is continued.
+   */
+  const recordInteraction = (
+    stored: StoredMission,
+    branchPath: number[] | undefined,
+    prompt: string | undefined,
+    prevInteraction: Interaction | undefined,
+    llmOutput: string,
+    llmThinking: string,
+  ) => {
+    const path = activePath(stored.root);
+    if (prompt) {
+      const parent = branchPath
+        ? findNode(stored, branchPath)
+        : (path[path.length - 1] ?? stored.root);
+      if (prevInteraction && parent !== stored.root) {
+        parent.playerInput = prevInteraction.playerInput;
+        parent.llmOutput = prevInteraction.llmOutput;
+      }
+      appendNode(parent, createNode(prompt, llmOutput, llmThinking));
+    } else {
+      const parent = branchPath
+        ? findNode(stored, branchPath)
+        : (path[path.length - 2] ?? stored.root);
+      appendNode(
+        parent,
+        createNode(
+          prevInteraction?.playerInput ??
+            path[path.length - 1]?.playerInput ??
+            "",
+          llmOutput,
+          llmThinking,
+        ),
+      );
+    }
+    persist();
+  };
+
+  const streamInteraction = async ({
+    missionId,
+    requestId,
+    signal,
+    branchPath,
+    setStateCallback,
+    playerInputField,
+    prevInteraction,
+  }: PlayerInputData): Promise<StreamOutcome> => {
+    await loaded;
+    const stored = findMission(missionId);
+    // Vary the answer with the position in the story and the number of alternatives
+    const turn =
+      activePath(stored.root).length +
+      (branchPath ? findNode(stored, branchPath).children.length : 0);
+    const thinking = THINKING[turn % THINKING.length];
+    const answer = ANSWERS[turn % ANSWERS.length];
+
+    let accumulatedText = "";
+    let accumulatedThinking = "";
+    const isStopped = () =>
+      signal?.aborted === true || stoppedRequests.has(requestId);
+
+    activeRequests.add(requestId);
+    await delay(latencyMs, signal);
+    for (const piece of words(thinking)) {
+      if (isStopped()) break;
+      accumulatedThinking += piece;
+      setStateCallback({
+        llmOutput: accumulatedText,
+        llmThinking: accumulatedThinking,
+      });
+      await delay(jitter(tokenDelayMs), signal);
+    }
+    for (const piece of words(answer)) {
+      if (isStopped()) break;
+      accumulatedText += piece;
+      setStateCallback({
+        llmOutput: accumulatedText,
+        llmThinking: accumulatedThinking,
+      });
+      await delay(jitter(tokenDelayMs), signal);
+    }
+
+    const outcome = isStopped()
+      ? StreamOutcome.STOPPED
+      : StreamOutcome.COMPLETED;
+    activeRequests.delete(requestId);
+    stoppedRequests.delete(requestId);
+    setStateCallback({
+      llmOutput: accumulatedText.trim(),
+      llmThinking: accumulatedThinking.trim(),
+    });
+    recordInteraction(
+      stored,
+      branchPath,
+      playerInputField,
+      prevInteraction,
+      accumulatedText.trim(),
+      accumulatedThinking.trim(),
+    );
+    return outcome;
+  };
+
+  return {
+    newMission: async (payload: NewMissionPayload) => {
+      await loaded;
+      await delay(latencyMs * 3);
+      const mission: MissionPayload = {
+        mission_id: state.nextMissionId++,
+        name: MISSION_NAMES[payload.game_type],
+        description: payload.background,
+        game_type: payload.game_type,
+      };
+      state.missions[mission.mission_id] = {
+        mission,
+        root: createNode("", ""),
+        characters: [],
+      };
+      persist();
+      return { ...mission };
+    },
+
+    saveMission: async (missionId: number, nameCustom: string) => {
+      await loaded;
+      await delay(latencyMs);
+      findMission(missionId).mission.name_custom = nameCustom;
+      persist();
+    },
+
+    getMission: async (missionId: number) => {
+      await loaded;
+      await delay(latencyMs);
+      const stored = state.missions[missionId];
+      return stored ? { ...stored.mission } : null;
+    },
+
+    listMissions: async () => {
+      await loaded;
+      await delay(latencyMs);
+      return Object.values(state.missions).map(({ mission }) => ({
+        ...mission,
+      }));
+    },
+
+    // Like the real backend: one match per text, at most 50
+    searchMissions: async (query: string): Promise<MissionSearchResult[]> => {
+      await loaded;
+      await delay(latencyMs);
+      const fields: SearchField[] = ["playerInput", "llmOutput"];
+      const results: MissionSearchResult[] = [];
+      for (const [missionId, { root }] of Object.entries(state.missions)) {
+        activePath(root).forEach((node, interactionIndex) => {
+          for (const field of fields) {
+            const [match] = findOccurrences(node[field], query);
+            if (match === undefined) continue;
+            results.push({
+              missionId: Number(missionId),
+              interactionIndex,
+              field,
+              snippet: createSnippet(
+                node[field],
+                match.start,
+                match.end - match.start,
+              ),
+            });
+          }
+        });
+      }
+      return results.slice(0, 50);
+    },
+
+    loadMission: async (missionId: number): Promise<MissionLoadData> => {
+      await loaded;
+      await delay(latencyMs);
+      const { mission, root, characters } = findMission(missionId);
+      return {
+        mission: {
+          missionId: mission.mission_id,
+          name: mission.name,
+          nameCustom: mission.name_custom,
+          description: mission.description,
+          gameType: mission.game_type,
+        },
+        interactions: activePath(root).map(
+          ({ playerInput, llmOutput, llmThinking, edited }) => ({
+            playerInput,
+            llmOutput,
+            llmThinking,
+            edited,
+          }),
+        ),
+        characters: structuredClone(characters),
+      };
+    },
+
+    listCharacters: async (missionId: number) => {
+      await loaded;
+      await delay(latencyMs);
+      return structuredClone(findMission(missionId).characters);
+    },
+
+    createCharacter: async (missionId: number, character: CharacterDraft) => {
+      await loaded;
+      await delay(latencyMs);
+      const stored: CharacterProps = {
+        ...structuredClone(character),
+        id: state.nextCharacterId++,
+      };
+      findMission(missionId).characters.push(stored);
+      persist();
+      return structuredClone(stored);
+    },
+
+    updateCharacter: async (missionId: number, character: CharacterProps) => {
+      await loaded;
+      await delay(latencyMs);
+      const { characters } = findMission(missionId);
+      const index = characters.findIndex(({ id }) => id === character.id);
+      if (index === -1) {
+        throw new NotFoundError(
+          `Character ${character.id} not found`,
+          `${MOCK_URL}/character/${character.id}`,
+          404,
+        );
+      }
+      characters[index] = structuredClone(character);
+      persist();
+    },
+
+    deleteCharacter: async (missionId: number, characterId: number) => {
+      await loaded;
+      await delay(latencyMs);
+      const stored = findMission(missionId);
+      stored.characters = stored.characters.filter(
+        ({ id }) => id !== characterId,
+      );
+      persist();
+    },
+
+    streamInteraction,
+
+    generateNpcs: async ({
+      missionId,
+      gameType,
+      count,
+      signal,
+      setStateCallback,
+    }: NpcGenerationData) => {
+      await loaded;
+      const { characters } = findMission(missionId);
+      const schema = getSheetSchemaForGameType(gameType);
+      const generated: GeneratedCharacter[] = [];
+      const emit = () =>
+        setStateCallback(
+          generated.map((npc) => draftFromGeneratedNpc(npc, gameType)),
+        );
+
+      await delay(latencyMs, signal);
+      for (let index = 0; index < count; index++) {
+        // Continue with other NPCs than the ones already on the roster
+        const { name, role, description } =
+          NPCS[(characters.length + index) % NPCS.length];
+        // The stat block fills in field by field, like a streamed answer
+        const steps: GeneratedCharacter[] = [
+          { name },
+          { role },
+          { description },
+          {
+            sheet: {
+              stats: Object.fromEntries(
+                schema.stats.map(({ key, defaults, max }) => [
+                  key,
+                  Object.fromEntries(
+                    Object.entries(defaults).map(([stat, value], i) => [
+                      stat,
+                      Math.min(max, value + ((index + i) % 3)),
+                    ]),
+                  ),
+                ]),
+              ),
+            },
+          },
+        ];
+        for (const step of steps) {
+          if (signal?.aborted) return StreamOutcome.STOPPED;
+          generated[index] = { ...generated[index], ...step };
+          emit();
+          await delay(jitter(tokenDelayMs * 4), signal);
+        }
+      }
+      return signal?.aborted ? StreamOutcome.STOPPED : StreamOutcome.COMPLETED;
+    },
+
+    selectBranch: async (missionId: number, branchPath: number[]) => {
+      await loaded;
+      await delay(latencyMs);
+      findNode(findMission(missionId), branchPath);
+      persist();
+    },
+
+    patchInteraction: async (
+      missionId: number,
+      branchPath: number[],
+      patch: Partial<Interaction>,
+    ) => {
+      await loaded;
+      await delay(latencyMs);
+      const node = findNode(findMission(missionId), branchPath);
+      node.playerInput = patch.playerInput ?? node.playerInput;
+      node.llmOutput = patch.llmOutput ?? node.llmOutput;
+      node.edited = true;
+      persist();
+    },
+
+    rewind: async (missionId: number, branchPath: number[]) => {
+      await loaded;
+      await delay(latencyMs);
+      const node = findNode(findMission(missionId), branchPath);
+      node.children = [];
+      node.activeChild = -1;
+      persist();
+    },
+
+    stopGeneration: async (_missionId: number, requestId: string) => {
+      if (activeRequests.has(requestId)) {
+        stoppedRequests.add(requestId);
+      }
+    },
+
+    textToSpeech: async (text: string) => {
+      await delay(latencyMs);
+      // Roughly the time it would take to read the text aloud, capped for demos
+      return silentWav(Math.min(3, Math.max(0.5, text.length / 100)));
+    },
+
+    textToSpeechStream: async (text: string) => {
+      await delay(latencyMs);
+      return new Audio(
+        URL.createObjectURL(
+          silentWav(Math.min(3, Math.max(0.5, text.length / 100))),
+        ),
+      );
+    },
+
+    speechToText: async () => {
+      await delay(latencyMs);
+      return TRANSCRIPT;
+    },
+  };
+}
@@ -0,0 +1,244 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { StateStorage } from "zustand/middleware";
+import {
+  createVersionedStorage,
+  migratePersistedState,
+  PersistedStateError,
+} from "./persistMigrations";
+import { getActivePath } from "./storyTree";
+import {
+  appStatePersistence,
+  characterRosterPersistence,
+  historyMigrations,
+  historyPersistence,
+} from "../models/PersistedSchemas";
+import { GenerationStatus, ROOT_ID } from "../models/HistoryTypes";
+import { CharacterKind } from "../models/CharacterProps";
+import { GameType } from "../models/Types";
+import useQuarantineStore from "../stores/quarantineStore";
+
+// Quarantined copies would go to IndexedDB, which Node lacks
+vi.mock("./indexedDb", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./indexedDb")>()),
+  idbSet: vi.fn(() => Promise.resolve()),
+}));
+
+/** A string storage kept in a map. */
+function memoryStorage(items: Record<string, string>): StateStorage {
+  return {
+    getItem: (name) => items[name] ?? null,
+    setItem: (name, value) => {
+      items[name] = value;
+    },
+    removeItem: (name) => {
+      delete items[name];
+    },
+  };
+}
+
+beforeEach(() => {
+  useQuarantineStore.setState({ entries: [] });
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("history v0 → v1 (historyFromFlatFields)", () => {
+  const migrate = (state: Record<string, unknown>) =>
+    migratePersistedState(state, 0, historyPersistence, "history");
+
+  it("turns past interactions and the latest exchange into a linear tree", () => {
+    const history = migrate({
+      missionId: 4,
+      interactions: [{ playerInput: "Look", llmOutput: "A door." }],
+      playerInputOld: "Open it",
+      llmOutput: "It creaks.",
+      llmThinking: "Suspense",
+      generationStatus: GenerationStatus.IDLE,
+      playerInput: "draft",
+    });
+
+    expect(history.missionId).toBe(4);
+    expect(history.playerInput).toBe("draft");
+    expect(
+      getActivePath(history.nodes).map(
+        ({ playerInput, llmOutput, llmThinking }) => ({
+          playerInput,
+          llmOutput,
+          llmThinking,
+        }),
+      ),
+    ).toEqual([
+      { playerInput: "Look", llmOutput: "A door.", llmThinking: "" },
+      {
+        playerInput: "Open it",
+        llmOutput: "It creaks.",
+        llmThinking: "Suspense",
+      },
+    ]);
+  });
+
+  it("keeps an empty history empty", () => {
+    const history = migrate({ missionId: null, interactions: [] });
+
+    expect(Object.keys(history.nodes)).toEqual([ROOT_ID]);
+    expect(getActivePath(history.nodes)).toEqual([]);
+  });
+
+  it("adds no exchange without playerInputOld and llmOutput", () => {
+    const { nodes } = historyMigrations[0]({
+      interactions: [{ playerInput: "Look", llmOutput: "A door." }],
+    });
+
+    // The root and the one past interaction
+    expect(Object.keys(nodes as object)).toHaveLength(2);
+  });
+
+  it("keeps the latest answer even without playerInputOld", () => {
+    const history = migrate({ interactions: [], llmOutput: "Intro" });
+
+    expect(getActivePath(history.nodes).map((node) => node.llmOutput)).toEqual([
+      "Intro",
+    ]);
+  });
+
+  it("fills in defaults for fields version 0 didn't have", () => {
+    const history = migrate({});
+
+    expect(history).toMatchObject({
+      missionId: null,
+      generationStatus: GenerationStatus.IDLE,
+      playerInput: "",
+    });
+  });
+});
+
+describe("character roster v0 → v1 (rosterWithSheets)", () => {
+  it("moves the Shadowrun fields into a sheet", () => {
+    const roster = migratePersistedState(
+      {
+        missionId: 2,
+        characters: [
+          {
+            id: 9,
+            kind: CharacterKind.PARTY,
+            name: "Ghost",
+            race: "Elf",
+            role: "Decker",
+            description: "",
+            attributes: { Body: 3 },
+            skills: { Hacking: 6 },
+            armor: 4,
+            weapon: "Ares Predator",
+            cyberware: ["Cyberdeck"],
+            damage: { physical: { current: 2, max: 10 } },
+          },
+        ],
+      },
+      0,
+      characterRosterPersistence,
+      "characters",
+    );
+
+    expect(roster).toEqual({
+      missionId: 2,
+      characters: [
+        {
+          id: 9,
+          kind: CharacterKind.PARTY,
+          gameType: GameType.SHADOWRUN,
+          name: "Ghost",
+          race: "Elf",
+          role: "Decker",
+          description: "",
+          sheet: {
+            stats: { attributes: { Body: 3 }, skills: { Hacking: 6 } },
+            tracks: { physical: { current: 2, max: 10 } },
+            numbers: { armor: 4 },
+            texts: { weapon: "Ares Predator" },
+            lists: { cyberware: ["Cyberdeck"] },
+          },
+        },
+      ],
+    });
+  });
+
+  it("migrates a roster without characters", () => {
+    expect(
+      migratePersistedState({}, 0, characterRosterPersistence, "characters"),
+    ).toEqual({ missionId: null, characters: [] });
+  });
+});
+
+describe("migratePersistedState", () => {
+  it("fills in defaults after migrating", () => {
+    expect(
+      migratePersistedState(
+        { mission: 3, gameType: "chess" },
+        0,
+        appStatePersistence,
+        "app",
+      ),
+    ).toEqual({
+      mission: 3,
+      adventure: "GamemAIster",
+      gameType: GameType.SHADOWRUN,
+      showThinking: true,
+    });
+  });
+
+  it("rejects state of a newer version", () => {
+    expect(() =>
+      migratePersistedState({}, 99, historyPersistence, "history"),
+    ).toThrow(PersistedStateError);
+  });
+});
+
+describe("createVersionedStorage", () => {
+  it("quarantines state of a future version instead of throwing", () => {
+    const items = {
+      history: JSON.stringify({ state: {}, version: 99 }),
+    };
+    const storage = createVersionedStorage(
+      () => memoryStorage(items),
+      historyPersistence,
+    )!;
+
+    expect(storage.getItem("history")).toBeNull();
+    expect(items).toEqual({});
+    expect(useQuarantineStore.getState().entries).toEqual([
+      expect.objectContaining({
+        storeName: "history",
+        reason: expect.stringContaining("newer version"),
+      }),
+    ]);
+  });
+
+  it("quarantines unparsable state", () => {
+    const storage = createVersionedStorage(
+      () => memoryStorage({ history: "{not json" }),
+      historyPersistence,
+    )!;
+
+    expect(storage.getItem("history")).toBeNull();
+    expect(useQuarantineStore.getState().entries).toHaveLength(1);
+  });
+
+  it("migrates stored state and tags it with the current version", () => {
+    const storage = createVersionedStorage(
+      () =>
+        memoryStorage({
+          history: JSON.stringify({
+            state: { missionId: 1, interactions: [] },
+            version: 0,
+          }),
+        }),
+      historyPersistence,
+    )!;
+
+    expect(storage.getItem("history")).toMatchObject({
+      state: { missionId: 1 },
+      version: historyPersistence.version,
+    });
+    expect(useQuarantineStore.getState().entries).toEqual([]);
+  });
+});
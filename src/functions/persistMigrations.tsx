@@ -0,0 +1,323 @@
+/**
+ * @module persistMigrations
+ *
+ * Versioned persistence for the zustand stores.
+ *
+ * Each persisted store describes its state with a {@link VersionedState}: a schema of the
+ * current shape and an ordered list of migrations, where `migrations[n]` turns state written
+ * with version `n` into version `n + 1`. The current version is the number of migrations, so
+ * changing the persisted shape means appending a step and adapting the schema.
+ *
+ * The storages created here restore state before `persist` sees it:
+ * 1. the migrations run from the stored version up to the current one,
+ * 2. the result is checked against the schema; missing or invalid fields get their defaults,
+ * 3. the state is handed to `persist` tagged with the current version.
+ *
+ * State that can't be restored at all (unparsable, not an object, written by a newer version
+ * of the app, or rejected by a migration) is moved to the {@link OBJECT_STORES.QUARANTINE}
+ * object store and the store starts from its initial state. The copy stays there until the
+ * player downloads or discards it.
+ */
+
+import { PersistStorage, StateStorage, StorageValue } from "zustand/middleware";
+import { Schema, ValidationError, ValidationIssue } from "./schema";
+import {
+  OBJECT_STORES,
+  idbDelete,
+  idbGet,
+  idbGetAll,
+  idbSet,
+} from "./indexedDb";
+import { QuarantineEntry, QuarantinedState } from "../models/PersistenceTypes";
+import useQuarantineStore from "../stores/quarantineStore";
+
+/**
+ * Upgrades persisted state by one version. May throw if the state can't be upgraded.
+ */
+export type Migration = (
+  state: Record<string, unknown>,
+) => Record<string, unknown>;
+
+/**
+ * How the persisted state of a store looks now and how older versions are upgraded.
+ * @typedef {object} VersionedState
+ * @property {number} version - The current version, i.e. the number of migrations.
+ * @property {Schema} schema - The shape of the current version.
+ * @property {Migration[]} migrations - `migrations[n]` upgrades version `n` to `n + 1`.
+ */
+export interface VersionedState<S> {
+  version: number;
+  schema: Schema<S>;
+  migrations: Migration[];
+}
+
+/**
+ * Thrown by {@link migratePersistedState} for state that can't be restored.
+ */
+export class PersistedStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PersistedStateError";
+  }
+}
+
+////////////////////
+// Helper Logic   //
+////////////////////
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Drops the possibly large value of a quarantine entry. */
+function describeEntry(entry: QuarantineEntry): QuarantinedState {
+  return {
+    id: entry.id,
+    storeName: entry.storeName,
+    reason: entry.reason,
+    quarantinedAt: entry.quarantinedAt,
+  };
+}
+
+/**
+ * Keeps a copy of unreadable state in the quarantine and reports it to the player.
+ * The copy is written in the background, so that hydration of synchronous storages
+ * stays synchronous.
+ */
+function quarantine(storeName: string, value: unknown, error: unknown): void {
+  console.error(
+    `Could not restore ${storeName}; its state was set aside:`,
+    error,
+  );
+  const entry: QuarantineEntry = {
+    id: `${storeName}:${crypto.randomUUID()}`,
+    storeName,
+    reason: error instanceof Error ? error.message : String(error),
+    quarantinedAt: Date.now(),
+    value,
+  };
+  idbSet(OBJECT_STORES.QUARANTINE, entry.id, entry).catch((storeError) =>
+    console.warn("Could not keep a copy of the unreadable state:", storeError),
+  );
+  useQuarantineStore.getState().addEntries([describeEntry(entry)]);
+}
+
+/**
+ * Restores a stored value, or quarantines it and removes it from the storage.
+ */
+function restoreOrQuarantine<S>(
+  name: string,
+  raw: unknown,
+  read: (raw: unknown) => unknown,
+  versioned: VersionedState<S>,
+  removeItem: () => unknown,
+): StorageValue<S> | null {
+  try {
+    const stored = read(raw);
+    if (!isRecord(stored)) {
+      throw new PersistedStateError(`${name} is not a persisted state.`);
+    }
+    const version = stored.version ?? 0;
+    return {
+      state: migratePersistedState(
+        stored.state,
+        typeof version === "number" ? version : NaN,
+        versioned,
+        name,
+      ),
+      version: versioned.version,
+    };
+  } catch (error) {
+    quarantine(name, raw, error);
+    removeItem();
+    return null;
+  }
+}
+
+/**
+ * Applies `restore` to a value that may or may not be a promise, without adding one.
+ */
+function thenOrNow<T, R>(
+  value: T | Promise<T>,
+  restore: (value: T) => R,
+): R | Promise<R> {
+  return value instanceof Promise ? value.then(restore) : restore(value);
+}
+
+////////////////////
+// Main API Logic //
+////////////////////
+
+/**
+ * Describes the persisted state of a store.
+ *
+ * @template S - The persisted state.
+ * @param {Schema<S>} schema - The shape of the current version.
+ * @param {Migration[]} migrations - Upgrades from every older version, oldest first.
+ * @returns {VersionedState<S>} - The description; its `version` goes into the `persist` options.
+ */
+export function versionedState<S>(
+  schema: Schema<S>,
+  migrations: Migration[],
+): VersionedState<S> {
+  return { version: migrations.length, schema, migrations };
+}
+
+/**
+ * Brings persisted state of any older version into the current shape.
+ *
+ * @template S - The persisted state.
+ * @param {unknown} state - The stored state.
+ * @param {number} version - The version it was stored with.
+ * @param {VersionedState<S>} versioned - The store's current state description.
+ * @param {string} name - Name of the store, used in messages.
+ * @returns {S} - The migrated state; invalid fields are replaced by their defaults.
+ * @throws {PersistedStateError} If the state can't be migrated.
+ */
+export function migratePersistedState<S>(
+  state: unknown,
+  version: number,
+  versioned: VersionedState<S>,
+  name: string,
+): S {
+  if (!isRecord(state)) {
+    throw new PersistedStateError(`The state of ${name} is not an object.`);
+  }
+  if (!Number.isInteger(version) || version < 0) {
+    throw new PersistedStateError(`${name} has an invalid version.`);
+  }
+  if (version > versioned.version) {
+    throw new PersistedStateError(
+      `${name} was written by a newer version of the app ` +
+        `(version ${version}, supported up to ${versioned.version}).`,
+    );
+  }
+
+  let migrated = state;
+  for (let step = version; step < versioned.version; step++) {
+    try {
+      migrated = versioned.migrations[step](migrated);
+    } catch (error) {
+      throw new PersistedStateError(
+        `Migrating ${name} from version ${step} failed: ` +
+          (error instanceof Error ? error.message : String(error)),
+      );
+    }
+  }
+
+  // Unlike backend payloads, old local state is expected to be incomplete
+  const issues: ValidationIssue[] = [];
+  const result = versioned.schema.parse(migrated, name, issues);
+  if (issues.length > 0) {
+    console.warn(
+      `${new ValidationError(name, issues).message}\nUsing fallback values.`,
+    );
+  }
+  return result;
+}
+
+/**
+ * Creates a JSON-serialising `PersistStorage` that migrates state on read, like
+ * `createJSONStorage` does for unversioned stores.
+ *
+ * @template S - The persisted state.
+ * @param {function(): StateStorage} getStorage - The underlying string storage.
+ * @param {VersionedState<S>} versioned - The store's current state description.
+ * @returns {PersistStorage<S> | undefined} - The storage, or `undefined` if it is unavailable.
+ */
+export function createVersionedStorage<S>(
+  getStorage: () => StateStorage,
+  versioned: VersionedState<S>,
+): PersistStorage<S> | undefined {
+  let storage: StateStorage;
+  try {
+    storage = getStorage();
+  } catch {
+    // E.g. localStorage disabled; persist then warns and keeps the state in memory
+    return undefined;
+  }
+  return {
+    // localStorage is read synchronously, so the state is there right after creation
+    getItem: (name) =>
+      thenOrNow(storage.getItem(name), (raw) =>
+        raw === null
+          ? null
+          : restoreOrQuarantine(
+              name,
+              raw,
+              (value) => JSON.parse(value as string),
+              versioned,
+              () => storage.removeItem(name),
+            ),
+      ),
+    setItem: (name, value) => storage.setItem(name, JSON.stringify(value)),
+    removeItem: (name) => storage.removeItem(name),
+  };
+}
+
+/**
+ * Adds migration on read to a `PersistStorage` that stores values as they are,
+ * such as the mission cache.
+ *
+ * @template S - The persisted state.
+ * @param {PersistStorage<S>} storage - The underlying storage.
+ * @param {VersionedState<S>} versioned - The store's current state description.
+ * @returns {PersistStorage<S>} - The migrating storage.
+ */
+export function withVersionedState<S>(
+  storage: PersistStorage<S>,
+  versioned: VersionedState<S>,
+): PersistStorage<S> {
+  return {
+    getItem: (name) =>
+      thenOrNow(storage.getItem(name), (stored) =>
+        stored === null
+          ? null
+          : restoreOrQuarantine(
+              name,
+              stored,
+              (value) => value,
+              versioned,
+              () => storage.removeItem(name),
+            ),
+      ),
+    setItem: (name, value) => storage.setItem(name, value),
+    removeItem: (name) => storage.removeItem(name),
+  };
+}
+
+/**
+ * Lists all states in the quarantine, e.g. to show them again after a reload.
+ *
+ * @async
+ * @returns {Promise<QuarantinedState[]>} - The quarantined states, without their values.
+ */
+export async function listQuarantinedStates(): Promise<QuarantinedState[]> {
+  const entries = await idbGetAll<QuarantineEntry>(OBJECT_STORES.QUARANTINE);
+  return entries.map(describeEntry);
+}
+
+/**
+ * Reads a quarantined state including its value.
+ *
+ * @async
+ * @param {string} id - The id of the quarantined state.
+ * @returns {Promise<QuarantineEntry | undefined>} - The entry, or `undefined` if it is gone.
+ */
+export function getQuarantinedState(
+  id: string,
+): Promise<QuarantineEntry | undefined> {
+  return idbGet<QuarantineEntry>(OBJECT_STORES.QUARANTINE, id);
+}
+
+/**
+ * Deletes a quarantined state for good.
+ *
+ * @async
+ * @param {string} id - The id of the quarantined state.
+ * @returns {Promise<void>} - Resolves once the copy has been deleted.
+ */
+export async function discardQuarantinedState(id: string): Promise<void> {
+  await idbDelete(OBJECT_STORES.QUARANTINE, id);
+  useQuarantineStore.getState().removeEntry(id);
+}
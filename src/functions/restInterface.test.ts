@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { streamNpcGeneration } from "./restInterface";
+import { httpStream } from "./httpClient";
+import { StreamOutcome } from "../models/RestInterface";
+import { CharacterDraft } from "../models/CharacterProps";
+import { GameType } from "../models/Types";
+
+vi.mock("./httpClient", () => ({
+  API_BASE: "http://backend.test",
+  httpBlob: vi.fn(),
+  httpJson: vi.fn(),
+  httpStream: vi.fn(),
+}));
+
+/** Lets the mocked backend answer with one NDJSON line per value. */
+function respondWith(lines: unknown[]) {
+  const body = lines.map((line) => JSON.stringify(line) + "\n").join("");
+  vi.mocked(httpStream).mockResolvedValue(
+    new Blob([body]).stream().getReader(),
+  );
+}
+
+const npcLine = (index: unknown, name: string) => ({
+  type: "npc",
+  index,
+  character: { name },
+});
+
+/** Generates `count` NPCs and returns every list shown on the way. */
+async function generate(count: number) {
+  const shown: CharacterDraft[][] = [];
+  const outcome = await streamNpcGeneration({
+    missionId: 1,
+    gameType: GameType.SHADOWRUN,
+    count,
+    interactions: [],
+    setStateCallback: (npcs) => shown.push(npcs),
+  });
+  return { outcome, shown };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("streamNpcGeneration", () => {
+  it("shows NPCs in index order as their lines arrive", async () => {
+    respondWith([npcLine(1, "Old Tomas"), npcLine(0, "Mara Voss")]);
+
+    const { outcome, shown } = await generate(2);
+
+    expect(outcome).toBe(StreamOutcome.COMPLETED);
+    expect(shown.at(-1)?.map(({ name }) => name)).toEqual([
+      "Mara Voss",
+      "Old Tomas",
+    ]);
+  });
+
+  it.each([-1, 0.5, 2, 1e9])("skips a line with index %s", async (index) => {
+    respondWith([npcLine(0, "Mara Voss"), npcLine(index, "Intruder")]);
+
+    const { shown } = await generate(2);
+
+    expect(shown.at(-1)?.map(({ name }) => name)).toEqual(["Mara Voss"]);
+    expect(console.error).toHaveBeenCalledOnce();
+  });
+
+  it("fails on an error line", async () => {
+    respondWith([{ type: "error", detail: "No scene" }]);
+
+    await expect(generate(1)).rejects.toThrow("No scene");
+  });
+});
@@ -11,14 +11,17 @@
  * - Data type definitions for game entities and payloads
  *
  * ## Key Features:
- * - Type-safe interfaces for all API contracts
+ * - Type-safe interfaces for all API contracts, checked at runtime (see {@link module:schema})
  * - Consistent, robust error handling patterns
  * - Stream processing for real-time LLM responses
  * - Data transformation between API and client formats
  *
  * ## API Endpoints:
- * - Base: Configured via `API_BASE` constant (e.g., http://127.0.0.1:8000).
+ * - Base: Configured via `API_BASE` in {@link module:httpClient} (e.g., http://127.0.0.1:8000).
+ *   All requests go through that client for auth headers, timeouts, retries and typed errors
+ *   (see {@link module:httpErrors}).
  * - Includes: `/interaction/` and `/mission/` routes for game interactions and mission management respectively.
+ * - `/character` routes manage the party members and NPCs of a mission and generate new NPCs.
  * - Also includes `/tts/` routes for Text-to-Speech services.
  *
  * @version 1.0.0
@@ -26,130 +29,196 @@
  */
 
 import { Interaction, Mission, MissionLoadData } from "../models/MissionModels";
-import { MissionPayload, PromptPayload } from "../models/RestInterface";
+import {
+  CharacterPayload,
+  MissionPayload,
+  NewCharacterPayload,
+  NewMissionPayload,
+  PromptPayload,
+  SelectBranchPayload,
+  RewindPayload,
+  InteractionPatchPayload,
+  NpcGenerationPayload,
+  StopGenerationPayload,
+  StreamOutcome,
+} from "../models/RestInterface";
 import { PlayerInputData } from "../models/PlayerInputData";
-import { MissionLoadPayload } from "../models/RestInterface";
-import { GameType } from "../models/Types";
-import { auth } from "../auth/firebase";
+import { NpcGenerationData } from "../models/NpcGenerationData";
+import { MissionSearchResult } from "../models/SearchTypes";
+import { CharacterDraft, CharacterProps } from "../models/CharacterProps";
+import {
+  STREAM_TRANSPORT_TYPE,
+  openInteractionStream,
+} from "./streamTransports";
+import { readNdjsonEvents } from "./streamDecoder";
+import { draftFromGeneratedNpc } from "./characters";
+import { ValidationError, validate } from "./schema";
+import {
+  characterListPayloadSchema,
+  characterPayloadSchema,
+  errorEventSchema,
+  missionListPayloadSchema,
+  missionLoadPayloadSchema,
+  missionPayloadSchema,
+  missionSearchPayloadSchema,
+  npcStreamPayloadSchema,
+  speechToTextPayloadSchema,
+} from "../models/RestSchemas";
+import { API_BASE, httpBlob, httpJson, httpStream } from "./httpClient";
+import {
+  HttpError,
+  NetworkError,
+  NotFoundError,
+  ServerError,
+} from "./httpErrors";
 
 ////////////////////
-// Configuration  //
+// Main API Logic //
 ////////////////////
 
 /**
- * The base URL for all backend API requests.
+ * Delay before the first reconnect attempt of an interrupted stream; doubled per attempt.
  * @constant
  */
-const API_BASE = import.meta.env.VITE_BACKEND_URL || "http://localhost:8000";
-const USE_FIREBASE = import.meta.env.VITE_USE_FIREBASE !== "false";
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+const RECONNECT_MAX_ATTEMPTS = 5;
 
-////////////////////
-// Helper Logic   //
-////////////////////
+/**
+ * Long-running LLM requests: mission generation may take minutes.
+ * @constant
+ */
+const NEW_MISSION_TIMEOUT_MS = 5 * 60_000;
 
 /**
- * Performs a fetch-based API request with streamlined error reporting and JSON parsing.
- * It's a generic function designed to be used by other specific API call functions.
- *
- * @async
- * @template T - The expected type of the JSON response from the API.
- * @param {string} path - API endpoint path (relative to `API_BASE`).
- * @param {"GET"|"POST"} method - HTTP method.
- * @param {any} [body] - Optional body payload for POST requests. This will be JSON.stringify-ed.
- * @returns {Promise<T>} - Resolves to the parsed JSON response of type `T`.
- * @throws {Error} If the fetch operation, network request, or response processing (e.g., non-OK status) fails.
- *                 The error message will contain details about the URL and status code if available.
+ * Maximum number of matches a search over all missions returns.
+ * @constant
  */
-async function apiRequest<T>(
-  path: string,
-  method: "GET" | "POST",
-  body?: any,
-): Promise<T> {
-  const url = `${API_BASE}${path}`;
-  try {
-    let headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
-    if (USE_FIREBASE) {
-      // Add Firebase token if available
-      if (auth.currentUser) {
-        const token = await auth.currentUser.getIdToken();
-        headers["Authorization"] = `Bearer ${token}`;
-      }
-    } else {
-      // Demo mode: send username from localStorage
-      const demoUser = localStorage.getItem("demoUser") || "demo-user";
-      headers["X-Demo-User"] = demoUser;
-    }
-    const res = await fetch(url, {
-      method,
-      headers,
-      ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
-    });
+const MISSION_SEARCH_LIMIT = 50;
 
-    if (!res.ok) {
-      let errorDetail = "";
-      try {
-        errorDetail = "\n" + (await res.text());
-      } catch {}
-      throw new Error(
-        `Request to ${url} failed [${res.status}]: ${errorDetail}`,
-      );
-    }
+/**
+ * Whether an interrupted stream is worth resuming: dropped connections and
+ * temporary server failures, but never rejected requests or protocol faults.
+ */
+const isResumable = (error: unknown) =>
+  error instanceof NetworkError || error instanceof ServerError;
 
-    // 204 No Content? (rare, but handle)
-    if (res.status === 204) {
-      return {} as T;
-    }
+/**
+ * Counts Unicode code points, the unit the backend uses for resume offsets.
+ */
+const codePointLength = (text: string) => Array.from(text).length;
 
-    const json = (await res.json()) as T;
-    return json;
-  } catch (err) {
-    throw new Error(
-      `API request to "${path}" failed: ${
-        err instanceof Error ? err.message : String(err)
-      }`,
+/**
+ * Truncates `text` to at most `offset` Unicode code points.
+ */
+const sliceCodePoints = (text: string, offset: number) =>
+  Array.from(text).slice(0, offset).join("");
+
+/**
+ * Maps a character from the API format to the client format.
+ */
+const toCharacter = (payload: CharacterPayload): CharacterProps => ({
+  id: payload.character_id,
+  kind: payload.kind,
+  gameType: payload.game_type,
+  name: payload.name,
+  race: payload.race,
+  role: payload.role,
+  description: payload.description,
+  sheet: payload.sheet,
+});
+
+/**
+ * Maps a character of `missionId` from the client format to the API format.
+ */
+const toNewCharacterPayload = (
+  missionId: number,
+  character: CharacterDraft,
+): NewCharacterPayload => ({
+  mission_id: missionId,
+  kind: character.kind,
+  game_type: character.gameType,
+  name: character.name,
+  race: character.race,
+  role: character.role,
+  description: character.description,
+  sheet: character.sheet,
+});
+
+/**
+ * Waits for `ms` milliseconds, resolving early when `signal` is aborted.
+ */
+function waitForReconnect(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
     );
-  }
+  });
 }
 
-////////////////////
-// Main API Logic //
-////////////////////
-
 /**
  * Sends player input to the LLM and streams the response in real-time.
  * This function is designed for client-side usage to handle interactive scenarios
  * where the LLM's response is displayed as it arrives.
  * It constructs a payload including the current prompt and, optionally, the previous interaction,
- * then makes a POST request to the `/interaction/gamemaster-send` endpoint.
- * The response is expected to be a stream of JSON objects, each containing a `text` field.
- * These chunks are decoded, accumulated, and passed to the `setStateCallback` to update the UI.
+ * then opens the interaction stream with the transport configured in {@link module:streamTransports}
+ * (by default a POST request to `/interaction/gamemaster-send` answered with newline-delimited JSON).
+ * Every transport delivers the same `thinking`, `text` and `resume` events.
+ * The event contents are accumulated and passed to the `setStateCallback` to update the UI.
+ *
+ * In resumable mode an interrupted stream is retried with exponential backoff under the same
+ * `request_id`, sending `resume_offset`/`resume_thinking_offset` with the text received so far.
+ * The backend may answer with a `resume` event to replay from an earlier offset; without one the
+ * stream is assumed to continue exactly at the sent offsets. While waiting, `setStateCallback`
+ * is invoked with `reconnecting: true`.
  *
  * @async
  * @param {PlayerInputData} params - Object containing parameters for sending player input.
  * @param {number} params.missionId - The ID of the current mission.
+ * @param {string} params.requestId - Client-generated id of this generation, sent as `request_id`
+ *   so that {@link postStopGeneration} can target it.
+ * @param {AbortSignal} [params.signal] - Optional. Aborting it stops reading the stream immediately.
+ *   The text received so far is passed to `setStateCallback` and the promise resolves with
+ *   {@link StreamOutcome.STOPPED} instead of rejecting.
+ * @param {boolean} [params.resumable] - Optional. Reconnect and resume interrupted streams.
+ * @param {number[]} [params.branchPath] - Optional. Position in the story tree the answer continues.
  * @param {function({ llmOutput: string }): void} params.setStateCallback - A callback function
  *   that is invoked with the accumulated LLM output as new chunks arrive. This is used to update the
  *   application's state and display the streaming text.
  * @param {string} params.playerInputField - The text input provided by the player.
  * @param {Interaction} [params.prevInteraction] - Optional. The previous interaction (player input and LLM output)
  *   to provide context to the LLM.
- * @returns {Promise<void>} - A promise that resolves when the stream has ended.
- * @throws {Error} On network errors, if the API returns a non-OK response, if the response body cannot be read,
- *                 or if there's an error during stream processing/decoding. An error is also thrown into `setStateCallback`
- *                 if an error occurs during streaming.
+ * @returns {Promise<StreamOutcome>} - Resolves when the stream has ended, telling whether it completed
+ *   or was stopped through `signal`.
+ * @throws {HttpError} The typed error of the failure (see {@link module:httpErrors}): e.g. a
+ *                 {@link NetworkError} on connection problems, {@link StreamProtocolError} if the response has
+ *                 no body. An error message is also passed to `setStateCallback`. In resumable mode,
+ *                 interruptions only throw once all reconnect attempts are used up.
  */
 export async function sendPlayerInputToLlm({
   missionId,
+  requestId,
+  signal,
+  resumable = false,
+  branchPath,
   setStateCallback,
   playerInputField,
   prevInteraction,
-}: PlayerInputData): Promise<void> {
+}: PlayerInputData): Promise<StreamOutcome> {
   const payload: PromptPayload = {
     mission_id: missionId,
+    request_id: requestId,
     prompt: playerInputField,
   };
+  if (branchPath) {
+    payload.branch_path = branchPath;
+  }
   if (prevInteraction) {
     payload.prev_interaction = {
       user_input: prevInteraction.playerInput,
@@ -157,99 +226,232 @@ export async function sendPlayerInputToLlm({
     };
   }
 
-  try {
-    let headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
-    if (USE_FIREBASE) {
-      if (auth.currentUser) {
-        const token = await auth.currentUser.getIdToken();
-        headers["Authorization"] = `Bearer ${token}`;
-      }
-    } else {
-      const demoUser = localStorage.getItem("demoUser") || "demo-user";
-      headers["X-Demo-User"] = demoUser;
-    }
-    const response = await fetch(`${API_BASE}/interaction/gamemaster-send`, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to stream LLM: ${response.statusText}`);
-    }
+  let accumulatedText = "";
+  let accumulatedThinking = "";
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error("Unable to get reader from response body.");
+  /**
+   * Performs one request and reads its stream to the end into the accumulators.
+   * Throws a {@link NetworkError} if the connection breaks off.
+   */
+  const streamOnce = async (requestPayload: PromptPayload) => {
+    try {
+      for await (const events of openInteractionStream(
+        requestPayload,
+        signal,
+      )) {
+        for (const event of events) {
+          if (event.type === "thinking") {
+            accumulatedThinking += event.content;
+          } else if (event.type === "text") {
+            accumulatedText += event.content;
+          } else if (event.type === "resume") {
+            accumulatedText = sliceCodePoints(accumulatedText, event.offset);
+            accumulatedThinking = sliceCodePoints(
+              accumulatedThinking,
+              event.thinkingOffset,
+            );
+          }
+        }
+        setStateCallback({
+          llmOutput: accumulatedText,
+          llmThinking: accumulatedThinking,
+        });
+      }
+    } catch (err) {
+      if (
+        signal?.aborted ||
+        err instanceof HttpError ||
+        err instanceof ValidationError
+      ) {
+        throw err;
+      }
+      // The stream broke off mid-transfer, e.g. the connection dropped
+      throw new NetworkError(
+        `LLM stream (${STREAM_TRANSPORT_TYPE}) interrupted: ${
+          err instanceof Error ? err.message : String(err)
+        }`,
+        API_BASE,
+      );
     }
+  };
 
-    let accumulatedText = "";
-    let accumulatedThinking = "";
-
+  try {
+    let attempt = 0;
     while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = new TextDecoder().decode(value);
-      const lines = chunk
-        .split("\n")
-        .map((line) => line.trim())
-        .filter(Boolean);
-
-      for (const line of lines) {
-        try {
-          const jsonData = JSON.parse(line);
-          if (jsonData.type === "thinking") {
-            accumulatedThinking += jsonData.content;
-          } else if (jsonData.type === "text") {
-            accumulatedText += jsonData.content;
-          }
-        } catch {
-          // Could be an incomplete/faulty chunk, just log for debugging
-          console.error("Unable to parse JSON chunk from LLM stream:", line);
+      try {
+        await streamOnce(
+          attempt === 0
+            ? payload
+            : {
+                ...payload,
+                resume_offset: codePointLength(accumulatedText),
+                resume_thinking_offset: codePointLength(accumulatedThinking),
+              },
+        );
+        break;
+      } catch (err) {
+        if (
+          !resumable ||
+          signal?.aborted ||
+          !isResumable(err) ||
+          attempt >= RECONNECT_MAX_ATTEMPTS
+        ) {
+          throw err;
+        }
+        attempt++;
+        setStateCallback({
+          llmOutput: accumulatedText,
+          llmThinking: accumulatedThinking,
+          reconnecting: true,
+        });
+        const backoff = Math.min(
+          RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1),
+          RECONNECT_MAX_DELAY_MS,
+        );
+        console.warn(
+          `LLM stream interrupted, reconnect ${attempt}/${RECONNECT_MAX_ATTEMPTS} in ${backoff}ms:`,
+          (err as HttpError).message,
+        );
+        await waitForReconnect(backoff, signal);
+        if (signal?.aborted) {
+          throw err;
         }
       }
-      setStateCallback({
-        llmOutput: accumulatedText,
-        llmThinking: accumulatedThinking,
-      });
     }
     setStateCallback({
       llmOutput: accumulatedText.trim(),
       llmThinking: accumulatedThinking.trim(),
     });
+    return StreamOutcome.COMPLETED;
   } catch (err) {
+    if (signal?.aborted) {
+      // Stopped by the player: keep what arrived so far instead of failing
+      setStateCallback({
+        llmOutput: accumulatedText.trim(),
+        llmThinking: accumulatedThinking.trim(),
+      });
+      return StreamOutcome.STOPPED;
+    }
     setStateCallback({
       llmOutput: "❌ Error receiving LLM response.",
       llmThinking: "",
     });
-    throw new Error(
-      `Error streaming LLM output: ${
-        err instanceof Error ? err.message : String(err)
-      }`,
-    );
+    throw err;
   }
 }
 
 /**
- * Sends a command to the backend to stop any ongoing LLM generation for the current session or context.
- * This is typically used to allow the user to interrupt a long or unwanted response from the LLM.
+ * Tells the backend to stop a specific ongoing LLM generation.
+ * The local stream read is aborted separately through the `AbortSignal` passed to
+ * {@link sendPlayerInputToLlm}; this call only frees the generation on the server.
  *
  * @async
+ * @param {number} missionId - The mission the generation belongs to.
+ * @param {string} requestId - The `requestId` the generation was started with.
  * @returns {Promise<void>} - A promise that resolves when the stop command has been successfully sent.
- * @throws {Error} Propagated from `apiRequest` if the network request or server response fails.
+ * @throws {HttpError} Propagated from `httpJson` if the network request or server response fails.
+ */
+export async function postStopGeneration(
+  missionId: number,
+  requestId: string,
+): Promise<void> {
+  const payload: StopGenerationPayload = {
+    mission_id: missionId,
+    request_id: requestId,
+  };
+  await httpJson<void>("/interaction/stop-generation", {
+    method: "POST",
+    body: payload,
+  });
+}
+
+/**
+ * Tells the backend which alternative branch of the story tree the player continues with,
+ * so that loading the mission later restores the same story.
+ *
+ * @async
+ * @param {number} missionId - The mission whose story tree is changed.
+ * @param {number[]} branchPath - Sibling index chosen at each level, down to the latest exchange.
+ * @returns {Promise<void>} - A promise that resolves when the selection has been stored.
+ * @throws {HttpError} Propagated from `httpJson` if the network request or server response fails.
+ */
+export async function postSelectBranch(
+  missionId: number,
+  branchPath: number[],
+): Promise<void> {
+  const payload: SelectBranchPayload = {
+    mission_id: missionId,
+    branch_path: branchPath,
+  };
+  await httpJson<void>("/interaction/select-branch", {
+    method: "POST",
+    body: payload,
+    // Selecting the same branch twice is harmless
+    idempotent: true,
+  });
+}
+
+/**
+ * Tells the backend to discard every exchange after the one at `branchPath`,
+ * including alternative branches, so that it becomes the latest exchange of the story.
+ *
+ * @async
+ * @param {number} missionId - The mission whose story is rewound.
+ * @param {number[]} branchPath - Sibling index chosen at each level, down to the exchange to rewind to.
+ * @returns {Promise<void>} - A promise that resolves when the later exchanges have been discarded.
+ * @throws {HttpError} Propagated from `httpJson` if the network request or server response fails.
+ */
+export async function postRewind(
+  missionId: number,
+  branchPath: number[],
+): Promise<void> {
+  const payload: RewindPayload = {
+    mission_id: missionId,
+    branch_path: branchPath,
+  };
+  await httpJson<void>("/interaction/rewind", {
+    method: "POST",
+    body: payload,
+    // Rewinding to the same exchange twice is harmless
+    idempotent: true,
+  });
+}
+
+/**
+ * Replaces the player input and/or the gamemaster answer of an exchange, e.g. to fix a
+ * continuity error. The backend marks the exchange as edited.
+ *
+ * @async
+ * @param {number} missionId - The mission the exchange belongs to.
+ * @param {number[]} branchPath - Sibling index chosen at each level, down to the changed exchange.
+ * @param {Partial<Interaction>} patch - The new texts; missing fields stay unchanged.
+ * @returns {Promise<void>} - A promise that resolves when the change has been stored.
+ * @throws {HttpError} Propagated from `httpJson` if the network request or server response fails.
  */
-export async function postStopGeneration(): Promise<void> {
-  await apiRequest<void>("/interaction/stop-generation", "POST", {});
+export async function patchInteraction(
+  missionId: number,
+  branchPath: number[],
+  patch: Partial<Interaction>,
+): Promise<void> {
+  const payload: InteractionPatchPayload = {
+    mission_id: missionId,
+    branch_path: branchPath,
+    user_input: patch.playerInput,
+    llm_output: patch.llmOutput,
+  };
+  await httpJson<void>("/interaction", {
+    method: "PATCH",
+    body: payload,
+    // Applying the same texts twice is harmless
+    idempotent: true,
+  });
 }
 
 /**
  * Creates a new mission on the server.
  *
  * @async
- * @param {object} payload - Payload containing the necessary information to create a new mission.
+ * @param {NewMissionPayload} payload - Payload containing the necessary information to create a new mission.
  * @param {GameType} payload.game_type - The specific game type for the new mission (e.g., Shadowrun, Vampire).
  * @param {string} payload.background - A string providing the background story or context for the new mission.
  * @param {string} payload.detailed_background - A string providing a more detailed background story or context for the new mission.
@@ -257,20 +459,18 @@ export async function postStopGeneration(): Promise<void> {
  * @param {boolean} payload.oracle - A boolean indicating whether the mission uses the oracle feature.
  * @returns {Promise<MissionPayload>} - A promise that resolves with the data of the newly created mission,
  *                                      as defined by {@link MissionPayload}.
- * @throws {Error} Propagated from `apiRequest` if the network request or server response fails.
+ * @throws {HttpError} Propagated from `httpJson` if the network request or server response fails.
+ * @throws {ValidationError} In development, if the response doesn't match its schema.
  */
-export async function postNewMission(payload: {
-  game_type: GameType;
-  background: string;
-  detailed_background: string;
-  non_hero_mode: boolean;
-  oracle: boolean;
-}): Promise<MissionPayload> {
-  return await apiRequest<MissionPayload>(
-    "/mission/new-mission",
-    "POST",
-    payload,
-  );
+export async function postNewMission(
+  payload: NewMissionPayload,
+): Promise<MissionPayload> {
+  const data = await httpJson<unknown>("/mission/new-mission", {
+    method: "POST",
+    body: payload,
+    timeoutMs: NEW_MISSION_TIMEOUT_MS,
+  });
+  return validate(missionPayloadSchema, data, "MissionPayload");
 }
 
 /**
@@ -280,15 +480,20 @@ export async function postNewMission(payload: {
  * @param {number} missionId - The unique identifier of the mission to be saved.
  * @param {string} nameCustom - An arbitrary custom name for the mission, provided by the user for later identification.
  * @returns {Promise<void>} - A promise that resolves when the mission has been successfully saved.
- * @throws {Error} Propagated from `apiRequest` if the network request or server response fails.
+ * @throws {HttpError} Propagated from `httpJson` if the network request or server response fails.
  */
 export async function postSaveMission(
   missionId: number,
   nameCustom: string,
 ): Promise<void> {
-  await apiRequest<void>("/mission/save-mission", "POST", {
-    mission_id: missionId,
-    name_custom: nameCustom,
+  await httpJson<void>("/mission/save-mission", {
+    method: "POST",
+    body: {
+      mission_id: missionId,
+      name_custom: nameCustom,
+    },
+    // Saving the same name twice is harmless
+    idempotent: true,
   });
 }
 
@@ -298,18 +503,25 @@ export async function postSaveMission(
  * @async
  * @param {number} mission_id - The numeric ID of the mission to retrieve.
  * @returns {Promise<MissionPayload | null>} - A promise that resolves with the mission's metadata (see {@link MissionPayload}).
- *                                            Returns `null` if the mission is not found (though the current `apiRequest`
- *                                            implementation might throw an error for a 404, this indicates intended behavior
- *                                            if the API were to return, e.g., 204 or a specific "not found" JSON).
- * @throws {Error} Propagated from `apiRequest` if the network request or server response fails.
+ *                                            Returns `null` if the backend answers 404 (mission not found).
+ * @throws {HttpError} Propagated from `httpJson` for any other failure of the network request or server response.
+ * @throws {ValidationError} In development, if the response doesn't match its schema.
  */
 export async function getMission(
   mission_id: number,
 ): Promise<MissionPayload | null> {
-  return await apiRequest<MissionPayload>(
-    `/mission/mission/${mission_id}`,
-    "GET",
-  );
+  try {
+    return validate(
+      missionPayloadSchema,
+      await httpJson<unknown>(`/mission/mission/${mission_id}`),
+      "MissionPayload",
+    );
+  } catch (err) {
+    if (err instanceof NotFoundError) {
+      return null;
+    }
+    throw err;
+  }
 }
 
 /**
@@ -319,10 +531,44 @@ export async function getMission(
  * @async
  * @returns {Promise<MissionPayload[]>} - A promise that resolves with an array of mission descriptors ({@link MissionPayload}).
  *                                       Each object in the array represents a mission summary.
- * @throws {Error} Propagated from `apiRequest` if the network request or server response fails.
+ * @throws {HttpError} Propagated from `httpJson` if the network request or server response fails.
+ * @throws {ValidationError} In development, if the response doesn't match its schema.
  */
 export async function getListMissions(): Promise<MissionPayload[]> {
-  return await apiRequest<MissionPayload[]>("/mission/missions", "GET");
+  return validate(
+    missionListPayloadSchema,
+    await httpJson<unknown>("/mission/missions"),
+    "MissionPayload[]",
+  );
+}
+
+/**
+ * Searches the interaction content of all missions of the current user.
+ *
+ * @async
+ * @param {string} query - The text to find.
+ * @returns {Promise<MissionSearchResult[]>} - The matches with a snippet each, best first.
+ * @throws {HttpError} Propagated from `httpJson` if the network request or server response fails.
+ * @throws {ValidationError} In development, if the response doesn't match its schema.
+ */
+export async function getSearchMissions(
+  query: string,
+): Promise<MissionSearchResult[]> {
+  const params = new URLSearchParams({
+    query,
+    limit: String(MISSION_SEARCH_LIMIT),
+  });
+  const results = validate(
+    missionSearchPayloadSchema,
+    await httpJson<unknown>(`/mission/search?${params}`),
+    "MissionSearchPayload[]",
+  );
+  return results.map(({ mission_id, interaction_index, field, snippet }) => ({
+    missionId: mission_id,
+    interactionIndex: interaction_index,
+    field: field === "user_input" ? "playerInput" : "llmOutput",
+    snippet,
+  }));
 }
 
 /**
@@ -336,15 +582,17 @@ export async function getListMissions(): Promise<MissionPayload[]> {
  * @param {number} mission_id - The numeric identifier of the mission to load.
  * @returns {Promise<MissionLoadData>} - A promise that resolves with the full mission details and its interactions,
  *                                       formatted for client-side use.
- * @throws {Error} Propagated from `apiRequest` if the network request or server response fails.
- *                 Also throws if the received data structure is not as expected (e.g., `data.interactions` not an array).
+ * @throws {HttpError} Propagated from `httpJson` if the network request or server response fails.
+ * @throws {ValidationError} In development, if the payload doesn't match {@link missionLoadPayloadSchema}.
+ *                 In production, malformed fields are replaced by fallbacks (e.g. `[]` for `interactions`).
  */
 export async function getLoadMissions(
   mission_id: number,
 ): Promise<MissionLoadData> {
-  const data = await apiRequest<MissionLoadPayload>(
-    `/mission/load-mission/${mission_id}`,
-    "GET",
+  const data = validate(
+    missionLoadPayloadSchema,
+    await httpJson<unknown>(`/mission/load-mission/${mission_id}`),
+    "MissionLoadPayload",
   );
 
   // Transform Mission data from MissionLoadPayload.mission to Mission
@@ -357,17 +605,198 @@ export async function getLoadMissions(
   };
 
   // Transform interactions from MissionLoadPayload.interactions to Interaction[]
-  const interactions: Interaction[] = Array.isArray(data.interactions)
-    ? data.interactions.map(({ user_input, llm_output }) => ({
-        playerInput: user_input, // Map API's snake_case to client's camelCase
-        llmOutput: llm_output, // Map API's snake_case to client's camelCase
-      }))
-    : []; // Default to an empty array if data.interactions is not an array
+  const interactions: Interaction[] = data.interactions.map(
+    ({ user_input, llm_output, llm_thinking, edited }) => ({
+      playerInput: user_input, // Map API's snake_case to client's camelCase
+      llmOutput: llm_output, // Map API's snake_case to client's camelCase
+      llmThinking: llm_thinking,
+      edited,
+    }),
+  );
 
   return {
     mission,
     interactions,
+    characters: (data.characters ?? []).map(toCharacter),
+  };
+}
+
+/**
+ * Fetches the party members and NPCs of a mission.
+ *
+ * @async
+ * @param {number} missionId - The mission whose roster is fetched.
+ * @returns {Promise<CharacterProps[]>} - The characters, in creation order.
+ * @throws {HttpError} Propagated from `httpJson` if the network request or server response fails.
+ * @throws {ValidationError} In development, if the response doesn't match its schema.
+ */
+export async function getCharacters(
+  missionId: number,
+): Promise<CharacterProps[]> {
+  const characters = validate(
+    characterListPayloadSchema,
+    await httpJson<unknown>(`/character/characters/${missionId}`),
+    "CharacterPayload[]",
+  );
+  return characters.map(toCharacter);
+}
+
+/**
+ * Adds a character to the roster of a mission.
+ *
+ * @async
+ * @param {number} missionId - The mission the character joins.
+ * @param {CharacterDraft} character - The character sheet.
+ * @returns {Promise<CharacterProps>} - The stored character with its backend-assigned id.
+ * @throws {HttpError} Propagated from `httpJson` if the network request or server response fails.
+ * @throws {ValidationError} In development, if the response doesn't match its schema.
+ */
+export async function postCharacter(
+  missionId: number,
+  character: CharacterDraft,
+): Promise<CharacterProps> {
+  const data = await httpJson<unknown>("/character", {
+    method: "POST",
+    body: toNewCharacterPayload(missionId, character),
+  });
+  return toCharacter(
+    validate(characterPayloadSchema, data, "CharacterPayload"),
+  );
+}
+
+/**
+ * Replaces the sheet of a stored character.
+ *
+ * @async
+ * @param {number} missionId - The mission the character belongs to.
+ * @param {CharacterProps} character - The complete new sheet.
+ * @returns {Promise<void>} - A promise that resolves when the sheet has been stored.
+ * @throws {HttpError} Propagated from `httpJson` if the network request or server response fails.
+ */
+export async function putCharacter(
+  missionId: number,
+  character: CharacterProps,
+): Promise<void> {
+  const payload: CharacterPayload = {
+    character_id: character.id,
+    ...toNewCharacterPayload(missionId, character),
   };
+  await httpJson<void>(`/character/${character.id}`, {
+    method: "PUT",
+    body: payload,
+    // Storing the same sheet twice is harmless
+    idempotent: true,
+  });
+}
+
+/**
+ * Removes a character from the roster of its mission.
+ *
+ * @async
+ * @param {number} missionId - The mission the character belongs to.
+ * @param {number} characterId - The id of the character.
+ * @returns {Promise<void>} - A promise that resolves when the character has been deleted.
+ * @throws {HttpError} Propagated from `httpJson` if the network request or server response fails.
+ */
+export async function deleteCharacter(
+  missionId: number,
+  characterId: number,
+): Promise<void> {
+  const params = new URLSearchParams({ mission_id: String(missionId) });
+  await httpJson<void>(`/character/${characterId}?${params}`, {
+    method: "DELETE",
+    // Deleting twice leaves the same roster
+    idempotent: true,
+  });
+}
+
+/**
+ * Generates NPCs that fit the current scene and streams their stat blocks as they are filled in.
+ * The backend answers `/character/generate-npcs` with newline-delimited JSON: one line per update
+ * of an NPC (see {@link NpcStreamPayload}), or `{"type": "error", "detail": "..."}` if it fails.
+ * Each NPC is passed on following the sheet of `gameType`; its missing fields keep the values of
+ * an empty NPC until they arrive. Nothing is stored; the player decides which NPCs join the roster.
+ *
+ * @async
+ * @param {NpcGenerationData} params - Object containing parameters for the generation.
+ * @param {number} params.missionId - The mission the NPCs are generated for.
+ * @param {GameType} params.gameType - The game system whose sheet the NPCs follow.
+ * @param {number} params.count - How many NPCs to generate.
+ * @param {Interaction[]} params.interactions - The latest exchanges, sent as scene context.
+ * @param {AbortSignal} [params.signal] - Optional. Aborting it stops reading the stream; the
+ *   promise then resolves with {@link StreamOutcome.STOPPED}.
+ * @param {function(CharacterDraft[]): void} params.setStateCallback - Invoked with all NPCs
+ *   received so far whenever a chunk of the stream arrives.
+ * @returns {Promise<StreamOutcome>} - Resolves when the stream has ended, telling whether it
+ *   completed or was stopped through `signal`.
+ * @throws {HttpError} Propagated from `httpStream`, or a {@link ServerError} for an error line.
+ * @throws {ValidationError} In development, if a line doesn't match its schema.
+ */
+export async function streamNpcGeneration({
+  missionId,
+  gameType,
+  count,
+  interactions,
+  signal,
+  setStateCallback,
+}: NpcGenerationData): Promise<StreamOutcome> {
+  const path = "/character/generate-npcs";
+  const payload: NpcGenerationPayload = {
+    mission_id: missionId,
+    count,
+    interactions: interactions.map(({ playerInput, llmOutput }) => ({
+      user_input: playerInput,
+      llm_output: llmOutput,
+    })),
+  };
+  const npcs: CharacterDraft[] = [];
+
+  try {
+    const reader = await httpStream(path, {
+      method: "POST",
+      body: payload,
+      signal,
+    });
+    for await (const events of readNdjsonEvents(reader)) {
+      for (const event of events) {
+        // NPC lines aren't interaction events, so the decoder passes them on untouched
+        if (event.type !== "unknown") continue;
+        if (event.originalType === "error") {
+          const { detail } = validate(
+            errorEventSchema,
+            event.payload,
+            "NpcStreamEvent(error)",
+          );
+          throw new ServerError(
+            `NPC generation failed${detail ? `: ${detail}` : ""}`,
+            `${API_BASE}${path}`,
+            undefined,
+            detail,
+          );
+        }
+        if (event.originalType !== "npc") continue;
+        const { index, character } = validate(
+          npcStreamPayloadSchema,
+          event.payload,
+          "NpcStreamPayload",
+        );
+        // An index from the backend must not grow the list beyond the NPCs asked for
+        if (!Number.isInteger(index) || index < 0 || index >= count) {
+          console.error("NPC line with an invalid index skipped:", index);
+          continue;
+        }
+        npcs[index] = draftFromGeneratedNpc(character, gameType);
+      }
+      // Lines may arrive out of order; show what has arrived
+      setStateCallback(npcs.filter((npc) => npc !== undefined));
+    }
+    return StreamOutcome.COMPLETED;
+  } catch (err) {
+    if (signal?.aborted) {
+      return StreamOutcome.STOPPED;
+    }
+    throw err;
+  }
 }
 
 /**
@@ -378,25 +807,16 @@ export async function getLoadMissions(
  * @async
  * @param {string} text - The text content to be converted to speech.
  * @returns {Promise<Blob>} - A promise that resolves with a Blob containing the MP3 audio data.
- * @throws {Error} If the TTS request to the backend fails (e.g., network error, non-OK HTTP response).
+ * @throws {HttpError} If the TTS request to the backend fails (e.g., network error, non-OK HTTP response).
  */
 export async function sendTextToSpeech(text: string): Promise<Blob> {
-  // Send POST request to TTS service, expecting a Blob (audio/mp3)
-  const response = await fetch(`${API_BASE}/tts/tts`, {
+  // Send POST request to TTS service, expecting a Blob (audio/mp3).
+  // Synthesis has no side effects, so it is safe to retry.
+  return await httpBlob("/tts/tts", {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ text }),
+    body: { text },
+    idempotent: true,
   });
-
-  if (!response.ok) {
-    throw new Error(
-      `TTS request failed: ${response.status} ${response.statusText}`,
-    );
-  }
-
-  return await response.blob();
 }
 
 /**
@@ -426,30 +846,22 @@ export async function sendTextToSpeech(text: string): Promise<Blob> {
  *                                       to play the streaming audio. The caller can use this element
  *                                       to control playback (e.g., pause, volume) or listen to events.
  *                                       Playback typically starts automatically once enough data is buffered.
- * @throws {Error} If the TTS streaming request fails (e.g., network error, non-OK HTTP response),
+ * @throws {HttpError} If the TTS streaming request fails (e.g., network error, non-OK HTTP response),
  *                 if the browser does not support the required `MediaSource` and MIME type (`audio/webm; codecs="opus"`),
  *                 or if any error occurs during the streaming and `MediaSource` handling process.
  */
 export async function sendTextToSpeechStream(
   text: string,
 ): Promise<HTMLAudioElement> {
-  const response = await fetch(`${API_BASE}/tts/tts-stream`, {
+  const reader = await httpStream("/tts/tts-stream", {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ text }),
+    body: { text },
   });
 
-  if (!response.ok || !response.body) {
-    throw new Error(
-      `TTS stream request failed: ${response.status} ${response.statusText}`,
-    );
-  }
-
   // Use WebM Opus MIME type for streaming audio
   const mimeType = 'audio/webm; codecs="opus"';
   if (!window.MediaSource.isTypeSupported(mimeType)) {
+    reader.cancel().catch(() => {}); // Don't keep the unused stream open
     // This error should be caught by the caller and handled, e.g., by falling back to non-streaming TTS.
     throw new Error(`Browser does not support ${mimeType} streaming`);
   }
@@ -483,7 +895,6 @@ export async function sendTextToSpeechStream(
       isSourceOpen = true;
       sourceBuffer = mediaSource.addSourceBuffer(mimeType); // Add a source buffer for WebM/Opus audio.
 
-      const reader = response.body!.getReader(); // Get reader for the response body stream.
       let appendQueue: Uint8Array[] = []; // Queue to hold audio chunks before appending to sourceBuffer.
       let isBufferUpdating = false; // Flag to prevent appending while sourceBuffer is busy.
       let isEnded = false; // Flag to indicate if the stream has ended.
@@ -616,27 +1027,18 @@ export async function sendTextToSpeechStream(
  * @async
  * @param {Blob} audioBlob - The audio data to transcribe (should be audio/webm or audio/wav).
  * @returns {Promise<string>} - The transcribed text from the backend.
- * @throws {Error} If the request fails or the backend returns an error.
+ * @throws {HttpError} If the request fails or the backend returns an error.
  */
 export async function sendSpeechToText(audioBlob: Blob): Promise<string> {
   const formData = new FormData();
   formData.append("file", audioBlob, "audio.webm");
 
-  const response = await fetch(`${API_BASE}/tts/stt-upload`, {
+  const data = await httpJson<unknown>("/tts/stt-upload", {
     method: "POST",
     body: formData,
+    // Transcription has no side effects, so it is safe to retry.
+    idempotent: true,
   });
-
-  if (!response.ok) {
-    throw new Error(
-      `Speech-to-text request failed: ${response.status} ${response.statusText}`,
-    );
-  }
-
-  const data = await response.json();
   // Expecting { text: "..." }
-  if (typeof data.text !== "string") {
-    throw new Error("Invalid response from speech-to-text endpoint.");
-  }
-  return data.text;
+  return validate(speechToTextPayloadSchema, data, "SpeechToTextPayload").text;
 }
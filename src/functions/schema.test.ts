@@ -0,0 +1,251 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  Schema,
+  ValidationError,
+  ValidationIssue,
+  array,
+  nullable,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  validate,
+} from "./schema";
+import {
+  characterPayloadSchema,
+  missionLoadPayloadSchema,
+  missionPayloadSchema,
+} from "../models/RestSchemas";
+
+/** Parses `value` leniently and returns the result with every issue found. */
+function parse<T>(schema: Schema<T>, value: unknown) {
+  const issues: ValidationIssue[] = [];
+  return { result: schema.parse(value, "Payload", issues), issues };
+}
+
+/** The issues `validate` throws for `value` in strict mode. */
+function strictIssues<T>(
+  schema: Schema<T>,
+  value: unknown,
+  name: string,
+): ValidationIssue[] {
+  try {
+    validate(schema, value, name);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    return (error as ValidationError).issues;
+  }
+  return [];
+}
+
+const mission = {
+  mission_id: 7,
+  name: "Heist",
+  description: "A run",
+  game_type: "shadowrun",
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("combinators", () => {
+  it("reports wrong types and falls back", () => {
+    const schema = object({ name: string("?"), count: number(1) });
+
+    expect(parse(schema, { name: 3, count: "3" })).toEqual({
+      result: { name: "?", count: 1 },
+      issues: [
+        { path: "Payload.name", expected: "string", received: "number 3" },
+        { path: "Payload.count", expected: "number", received: 'string "3"' },
+      ],
+    });
+  });
+
+  it("treats non-finite numbers as wrong", () => {
+    expect(parse(number(), NaN).issues).toEqual([
+      { path: "Payload", expected: "number", received: "number NaN" },
+    ]);
+  });
+
+  it("reports missing required fields", () => {
+    const schema = object({ name: string(), tags: array(string()) });
+
+    expect(parse(schema, {})).toEqual({
+      result: { name: "", tags: [] },
+      issues: [
+        { path: "Payload.name", expected: "string", received: "undefined" },
+        { path: "Payload.tags", expected: "array", received: "undefined" },
+      ],
+    });
+  });
+
+  it("distinguishes null from absent", () => {
+    const schema = object({
+      maybe: optional(string()),
+      orNull: nullable(string()),
+      required: string(),
+    });
+
+    expect(parse(schema, { maybe: null, required: null })).toEqual({
+      result: { orNull: null, required: "" },
+      issues: [
+        { path: "Payload.required", expected: "string", received: "null" },
+      ],
+    });
+    expect(parse(schema, { maybe: "a", orNull: "b", required: "c" })).toEqual({
+      result: { maybe: "a", orNull: "b", required: "c" },
+      issues: [],
+    });
+  });
+
+  it("drops extra fields without reporting them", () => {
+    const { result, issues } = parse(object({ id: number() }), {
+      id: 1,
+      extra: "ignored",
+    });
+
+    expect(result).toEqual({ id: 1 });
+    expect(issues).toEqual([]);
+  });
+
+  it("reports a missing object once instead of per property", () => {
+    const schema = object({ inner: object({ a: string(), b: number() }) });
+
+    expect(parse(schema, { inner: "nope" }).issues).toEqual([
+      { path: "Payload.inner", expected: "object", received: 'string "nope"' },
+    ]);
+  });
+
+  it("builds paths through arrays and records", () => {
+    const schema = object({
+      list: array(object({ value: number() })),
+      byKey: record(number()),
+    });
+
+    expect(
+      parse(schema, {
+        list: [{ value: 1 }, { value: "two" }],
+        byKey: { ok: 1, bad: [] },
+      }).issues,
+    ).toEqual([
+      {
+        path: "Payload.list[1].value",
+        expected: "number",
+        received: 'string "two"',
+      },
+      { path: "Payload.byKey.bad", expected: "number", received: "array(0)" },
+    ]);
+  });
+
+  it("shortens long strings in issues", () => {
+    const [issue] = parse(number(), "x".repeat(100)).issues;
+
+    expect(issue.received).toBe(`string "${"x".repeat(40)}…"`);
+  });
+});
+
+describe("validate", () => {
+  it("returns valid payloads unchanged", () => {
+    expect(validate(missionPayloadSchema, mission, "MissionPayload")).toEqual(
+      mission,
+    );
+  });
+
+  it("throws all issues of a payload in development", () => {
+    expect(
+      strictIssues(
+        missionLoadPayloadSchema,
+        {
+          mission: { ...mission, game_type: "chess" },
+          interactions: [
+            { user_input: "hi", llm_output: "hello" },
+            { user_input: null, llm_output: "?", edited: "yes" },
+          ],
+          characters: null,
+        },
+        "MissionLoadPayload",
+      ),
+    ).toEqual([
+      {
+        path: "MissionLoadPayload.mission.game_type",
+        expected:
+          "one of shadowrun, vampire_the_masquerade, call_of_cthulhu, seventh_sea, expanse, custom",
+        received: 'string "chess"',
+      },
+      {
+        path: "MissionLoadPayload.interactions[1].user_input",
+        expected: "string",
+        received: "null",
+      },
+      {
+        path: "MissionLoadPayload.interactions[1].edited",
+        expected: "boolean",
+        received: 'string "yes"',
+      },
+    ]);
+  });
+
+  it("reports the paths of nested sheet fields", () => {
+    expect(
+      strictIssues(
+        characterPayloadSchema,
+        {
+          character_id: 1,
+          mission_id: 7,
+          kind: "party",
+          game_type: "shadowrun",
+          name: "Ghost",
+          race: "Elf",
+          role: "Decker",
+          description: "",
+          sheet: {
+            stats: { attributes: { Body: "3" } },
+            tracks: { stun: { current: 1 } },
+            numbers: {},
+            texts: {},
+            lists: { cyberware: ["eye", 4] },
+          },
+        },
+        "CharacterPayload",
+      ),
+    ).toEqual([
+      {
+        path: "CharacterPayload.sheet.stats.attributes.Body",
+        expected: "number",
+        received: 'string "3"',
+      },
+      {
+        path: "CharacterPayload.sheet.tracks.stun.max",
+        expected: "number",
+        received: "undefined",
+      },
+      {
+        path: "CharacterPayload.sheet.lists.cyberware[1]",
+        expected: "string",
+        received: "number 4",
+      },
+    ]);
+  });
+
+  it("warns and repairs in production", async () => {
+    vi.stubEnv("DEV", false);
+    vi.resetModules();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { validate: validateInProduction } = await import("./schema");
+    const { missionPayloadSchema: schema } =
+      await import("../models/RestSchemas");
+
+    const repaired = validateInProduction(
+      schema,
+      { ...mission, name: 5 },
+      "MissionPayload",
+    );
+
+    expect(repaired).toEqual({ ...mission, name: "" });
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn.mock.calls[0][0]).toContain("MissionPayload.name");
+  });
+});
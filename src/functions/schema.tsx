@@ -0,0 +1,243 @@
+/**
+ * @module schema
+ *
+ * Minimal declarative runtime validation for backend payloads.
+ *
+ * A {@link Schema} both checks and repairs a value: every problem is recorded as a
+ * {@link ValidationIssue} and replaced by the schema's fallback, so a payload can always
+ * be turned into a well-typed value. {@link validate} then decides what to do with the issues:
+ * - in development (`import.meta.env.DEV`) it throws a {@link ValidationError} listing all of them,
+ *   so backend contract changes surface immediately;
+ * - in production it logs a warning and returns the repaired value, so the UI keeps working.
+ */
+
+/**
+ * A single mismatch between a payload and its schema.
+ */
+export interface ValidationIssue {
+  /** Location of the value, e.g. `MissionLoadPayload.interactions[3].llm_output`. */
+  path: string;
+  /** What was expected at that location. */
+  expected: string;
+  /** Short description of what was found instead. */
+  received: string;
+}
+
+/**
+ * Thrown by {@link validate} in strict mode.
+ */
+export class ValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(name: string, issues: ValidationIssue[]) {
+    super(
+      `Invalid ${name}:\n` +
+        issues
+          .map(
+            (issue) =>
+              `  - ${issue.path}: expected ${issue.expected}, received ${issue.received}`,
+          )
+          .join("\n"),
+    );
+    this.name = "ValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Checks `value` and returns it (or its repaired version). Problems are pushed to `issues`.
+ */
+export type Schema<T> = {
+  parse: (value: unknown, path: string, issues: ValidationIssue[]) => T;
+};
+
+const STRICT_VALIDATION = import.meta.env.DEV;
+
+/**
+ * Describes a received value for error messages without dumping large payloads.
+ */
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (value === undefined) return "undefined";
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (typeof value === "string") {
+    return value.length > 40
+      ? `string "${value.slice(0, 40)}…"`
+      : `string "${value}"`;
+  }
+  if (typeof value === "object") return "object";
+  return `${typeof value} ${String(value)}`;
+}
+
+/**
+ * Builds a schema for a primitive type from a type guard.
+ */
+function primitive<T>(
+  expected: string,
+  guard: (value: unknown) => value is T,
+  fallback: T,
+): Schema<T> {
+  return {
+    parse: (value, path, issues) => {
+      if (guard(value)) return value;
+      issues.push({ path, expected, received: describe(value) });
+      return fallback;
+    },
+  };
+}
+
+////////////////////
+// Combinators    //
+////////////////////
+
+/** A string; falls back to `fallback` (default `""`). */
+export const string = (fallback = "") =>
+  primitive(
+    "string",
+    (value): value is string => typeof value === "string",
+    fallback,
+  );
+
+/** A finite number; falls back to `fallback` (default `0`). */
+export const number = (fallback = 0) =>
+  primitive(
+    "number",
+    (value): value is number =>
+      typeof value === "number" && Number.isFinite(value),
+    fallback,
+  );
+
+/** A boolean; falls back to `fallback` (default `false`). */
+export const boolean = (fallback = false) =>
+  primitive(
+    "boolean",
+    (value): value is boolean => typeof value === "boolean",
+    fallback,
+  );
+
+/** One of the values of a string enum; falls back to `fallback`. */
+export function enumValue<E extends string>(
+  values: Record<string, E>,
+  fallback: E,
+): Schema<E> {
+  const allowed = Object.values(values);
+  return primitive(
+    `one of ${allowed.join(", ")}`,
+    (value): value is E => allowed.includes(value as E),
+    fallback,
+  );
+}
+
+/** Accepts `undefined` and `null` (returned as `undefined`), otherwise delegates to `schema`. */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse: (value, path, issues) =>
+      value === undefined || value === null
+        ? undefined
+        : schema.parse(value, path, issues),
+  };
+}
+
+/** Accepts `null`, otherwise delegates to `schema`. A missing value becomes `null`. */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    parse: (value, path, issues) =>
+      value === undefined || value === null
+        ? null
+        : schema.parse(value, path, issues),
+  };
+}
+
+/** An array whose items match `item`; a non-array falls back to `[]`. */
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    parse: (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: "array", received: describe(value) });
+        return [];
+      }
+      return value.map((entry, index) =>
+        item.parse(entry, `${path}[${index}]`, issues),
+      );
+    },
+  };
+}
+
+/**
+ * An object with the given properties. Unknown properties are dropped,
+ * missing or invalid ones are replaced by their schema's fallback.
+ */
+export function object<T extends object>(shape: {
+  [K in keyof T]-?: Schema<T[K]>;
+}): Schema<T> {
+  return {
+    parse: (value, path, issues) => {
+      const isObject =
+        typeof value === "object" && value !== null && !Array.isArray(value);
+      if (!isObject) {
+        issues.push({ path, expected: "object", received: describe(value) });
+      }
+      const source = (isObject ? value : {}) as Record<string, unknown>;
+      const result = {} as T;
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        const parsed = shape[key].parse(
+          source[key],
+          `${path}.${key}`,
+          isObject ? issues : [], // Report a missing object once, not per property
+        );
+        if (parsed !== undefined) {
+          result[key] = parsed;
+        }
+      }
+      return result;
+    },
+  };
+}
+
+/** An object used as a dictionary whose values match `item`; anything else falls back to `{}`. */
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return {
+    parse: (value, path, issues) => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: "object", received: describe(value) });
+        return {};
+      }
+      const result: Record<string, T> = {};
+      for (const [key, entry] of Object.entries(value)) {
+        result[key] = item.parse(entry, `${path}.${key}`, issues);
+      }
+      return result;
+    },
+  };
+}
+
+////////////////////
+// Entry point    //
+////////////////////
+
+/**
+ * Validates `value` against `schema` according to the current mode (see module docs).
+ *
+ * @template T - The validated type.
+ * @param {Schema<T>} schema - The schema describing the expected shape.
+ * @param {unknown} value - The untrusted value, e.g. a parsed JSON response.
+ * @param {string} name - Name of the payload, used as root of issue paths.
+ * @returns {T} - The value, repaired where necessary.
+ * @throws {ValidationError} In development, if any issue was found.
+ */
+export function validate<T>(
+  schema: Schema<T>,
+  value: unknown,
+  name: string,
+): T {
+  const issues: ValidationIssue[] = [];
+  const result = schema.parse(value, name, issues);
+  if (issues.length > 0) {
+    const error = new ValidationError(name, issues);
+    if (STRICT_VALIDATION) {
+      throw error;
+    }
+    console.warn(`${error.message}\nUsing fallback values.`);
+  }
+  return result;
+}
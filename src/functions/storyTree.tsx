@@ -0,0 +1,232 @@
+/**
+ * @module storyTree
+ *
+ * Pure helpers for the story tree of {@link useHistoryStore}.
+ *
+ * The tree holds every exchange ever generated; following `activeChildId` from the root
+ * yields the active path, i.e. the story as currently shown. Mutating helpers change the
+ * tree in place, so they can be used on immer drafts.
+ */
+
+import { Interaction } from "../models/MissionModels";
+import { ROOT_ID, StoryNode, StoryTree } from "../models/HistoryTypes";
+
+/**
+ * The content of an exchange, without its position in the tree.
+ */
+export type StoryContent = Pick<
+  StoryNode,
+  "playerInput" | "llmOutput" | "llmThinking" | "edited"
+>;
+
+/**
+ * Creates a tree that only contains the root.
+ *
+ * @returns {StoryTree} - An empty story.
+ */
+export function createStoryTree(): StoryTree {
+  return {
+    [ROOT_ID]: {
+      id: ROOT_ID,
+      parentId: null,
+      playerInput: "",
+      llmOutput: "",
+      llmThinking: "",
+      childIds: [],
+      activeChildId: null,
+    },
+  };
+}
+
+/**
+ * Adds a new exchange below `parentId` and puts it on the active path.
+ *
+ * @param {StoryTree} tree - The tree to change.
+ * @param {string} parentId - The exchange the new one continues.
+ * @param {StoryContent} content - Player input and answer of the new exchange.
+ * @returns {StoryNode} - The new node.
+ */
+export function appendChild(
+  tree: StoryTree,
+  parentId: string,
+  content: StoryContent,
+): StoryNode {
+  const node: StoryNode = {
+    id: crypto.randomUUID(),
+    parentId,
+    ...content,
+    childIds: [],
+    activeChildId: null,
+  };
+  tree[node.id] = node;
+  tree[parentId].childIds.push(node.id);
+  tree[parentId].activeChildId = node.id;
+  return node;
+}
+
+/**
+ * Builds a tree with a single branch, e.g. from a mission loaded from the backend.
+ *
+ * @param {StoryContent[]} exchanges - The exchanges in story order.
+ * @returns {StoryTree} - The new tree.
+ */
+export function createLinearTree(exchanges: StoryContent[]): StoryTree {
+  const tree = createStoryTree();
+  let parentId = ROOT_ID;
+  for (const exchange of exchanges) {
+    parentId = appendChild(tree, parentId, exchange).id;
+  }
+  return tree;
+}
+
+/**
+ * Returns the nodes of the active path in story order, without the root.
+ *
+ * @param {StoryTree} tree - The tree.
+ * @returns {StoryNode[]} - The active path.
+ */
+export function getActivePath(tree: StoryTree): StoryNode[] {
+  const path: StoryNode[] = [];
+  let node = tree[ROOT_ID];
+  while (node.activeChildId && tree[node.activeChildId]) {
+    node = tree[node.activeChildId];
+    path.push(node);
+  }
+  return path;
+}
+
+/**
+ * Makes `nodeId` part of the active path, continuing below it with its own active branch.
+ *
+ * @param {StoryTree} tree - The tree to change.
+ * @param {string} nodeId - The exchange to show.
+ */
+export function selectNode(tree: StoryTree, nodeId: string): void {
+  let node = tree[nodeId];
+  while (node?.parentId) {
+    tree[node.parentId].activeChildId = node.id;
+    node = tree[node.parentId];
+  }
+}
+
+/**
+ * Removes everything that follows `nodeId`, including all alternative continuations,
+ * and makes it the latest exchange of the active path.
+ *
+ * @param {StoryTree} tree - The tree to change.
+ * @param {string} nodeId - The exchange that becomes the end of the story.
+ */
+export function pruneBelow(tree: StoryTree, nodeId: string): void {
+  const pending = [...tree[nodeId].childIds];
+  while (pending.length > 0) {
+    const id = pending.pop() as string;
+    pending.push(...tree[id].childIds);
+    delete tree[id];
+  }
+  tree[nodeId].childIds = [];
+  tree[nodeId].activeChildId = null;
+  selectNode(tree, nodeId);
+}
+
+/**
+ * Returns a copy of `tree` that also contains the exchanges only `previous` has, as
+ * inactive alternatives. Used when undoing, so that exchanges the backend already stored
+ * stay reachable and sibling indices keep matching the backend's `branch_path`s.
+ *
+ * @param {StoryTree} tree - The tree to show, e.g. a restored undo state.
+ * @param {StoryTree} previous - The tree that was shown before.
+ * @returns {StoryTree} - The merged tree; `tree` itself is left unchanged.
+ */
+export function withMissingBranches(
+  tree: StoryTree,
+  previous: StoryTree,
+): StoryTree {
+  const merged: StoryTree = { ...previous, ...tree };
+  for (const node of Object.values(previous)) {
+    const restored = merged[node.id];
+    const extra = restored.childIds.filter((id) => !node.childIds.includes(id));
+    const childIds = [...node.childIds, ...extra];
+    if (
+      childIds.length !== restored.childIds.length ||
+      childIds.some((id, i) => id !== restored.childIds[i])
+    ) {
+      merged[node.id] = { ...restored, childIds };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Describes the position of a node as the sibling index chosen at each level below the root.
+ * This is the `branch_path` the backend uses to address an exchange.
+ *
+ * @param {StoryTree} tree - The tree.
+ * @param {string} nodeId - The node to locate; the root yields `[]`.
+ * @returns {number[]} - Sibling indices from the first exchange down to `nodeId`.
+ */
+export function getBranchPath(tree: StoryTree, nodeId: string): number[] {
+  const path: number[] = [];
+  let node = tree[nodeId];
+  while (node?.parentId) {
+    path.unshift(tree[node.parentId].childIds.indexOf(node.id));
+    node = tree[node.parentId];
+  }
+  return path;
+}
+
+/**
+ * Derives the flat view of the active path that most components work with:
+ * the completed interactions plus the content of the latest exchange.
+ *
+ * @param {StoryTree} tree - The tree.
+ * @returns {object} - `interactions`, the latest `playerInputOld`/`llmOutput`/`llmThinking`,
+ *   and `activePathIds`, the ids of all exchanges on the active path.
+ */
+export function flattenActivePath(tree: StoryTree): {
+  interactions: Interaction[];
+  playerInputOld: string;
+  llmOutput: string;
+  llmThinking: string;
+  activePathIds: string[];
+} {
+  const path = getActivePath(tree);
+  const latest = path[path.length - 1];
+  return {
+    interactions: path
+      .slice(0, -1)
+      .map(({ playerInput, llmOutput, llmThinking }) => ({
+        playerInput,
+        llmOutput,
+        llmThinking,
+      })),
+    playerInputOld: latest?.playerInput ?? "",
+    llmOutput: latest?.llmOutput ?? "",
+    llmThinking: latest?.llmThinking ?? "",
+    activePathIds: path.map((node) => node.id),
+  };
+}
+
+/**
+ * Whether the active path shows exactly `interactions`, e.g. the history the backend returned.
+ *
+ * @param {StoryTree} tree - The tree.
+ * @param {Interaction[]} interactions - The exchanges to compare with, in story order.
+ * @returns {boolean} - `true` if player inputs, answers and reasoning match one by one.
+ */
+export function matchesActivePath(
+  tree: StoryTree,
+  interactions: Interaction[],
+): boolean {
+  const path = getActivePath(tree);
+  return (
+    path.length === interactions.length &&
+    path.every(
+      (node, i) =>
+        node.playerInput === interactions[i].playerInput &&
+        node.llmOutput === interactions[i].llmOutput &&
+        // Backends that don't keep the reasoning leave the local copy alone
+        (interactions[i].llmThinking === undefined ||
+          node.llmThinking === interactions[i].llmThinking),
+    )
+  );
+}
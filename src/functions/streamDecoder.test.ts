@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createNdjsonDecoder, readNdjsonEvents } from "./streamDecoder";
+import { StreamEvent } from "../models/RestInterface";
+
+const encoder = new TextEncoder();
+
+/** Feeds `chunks` to a fresh decoder and collects every event, including the flushed ones. */
+function decodeChunks(chunks: Uint8Array[]): StreamEvent[] {
+  const decoder = createNdjsonDecoder();
+  return [
+    ...chunks.flatMap((chunk) => decoder.push(chunk)),
+    ...decoder.flush(),
+  ];
+}
+
+/** Splits `bytes` at the given byte offsets. */
+function splitAt(bytes: Uint8Array, offsets: number[]): Uint8Array[] {
+  const bounds = [0, ...offsets, bytes.length];
+  return bounds.slice(1).map((end, index) => bytes.slice(bounds[index], end));
+}
+
+/** A reader that returns `chunks` one per read. */
+function readerOf(chunks: Uint8Array[]) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  }).getReader();
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("createNdjsonDecoder", () => {
+  it("decodes a multi-byte character split across chunks", () => {
+    const bytes = encoder.encode('{"type":"text","content":"Grüße 🐉"}\n');
+    const umlaut = bytes.indexOf(0xc3); // First byte of "ü"
+    const dragon = bytes.indexOf(0xf0); // First byte of the 4-byte emoji
+
+    const events = decodeChunks(splitAt(bytes, [umlaut + 1, dragon + 2]));
+
+    expect(events).toEqual([{ type: "text", content: "Grüße 🐉" }]);
+  });
+
+  it("decodes every byte as its own chunk", () => {
+    const bytes = encoder.encode(
+      '{"type":"thinking","content":"ä"}\n{"type":"text","content":"€"}\n',
+    );
+    const chunks = Array.from(bytes, (byte) => Uint8Array.of(byte));
+
+    expect(decodeChunks(chunks)).toEqual([
+      { type: "thinking", content: "ä" },
+      { type: "text", content: "€" },
+    ]);
+  });
+
+  it("joins a line whose delimiter arrives in the next chunk", () => {
+    const decoder = createNdjsonDecoder();
+
+    expect(
+      decoder.push(encoder.encode('{"type":"text","content":"a"}')),
+    ).toEqual([]);
+    expect(
+      decoder.push(encoder.encode('\n{"type":"text","content":"b"}\r')),
+    ).toEqual([{ type: "text", content: "a" }]);
+    expect(decoder.push(encoder.encode("\n"))).toEqual([
+      { type: "text", content: "b" },
+    ]);
+    expect(decoder.flush()).toEqual([]);
+  });
+
+  it("returns a trailing line without newline on flush", () => {
+    const decoder = createNdjsonDecoder();
+
+    expect(
+      decoder.push(encoder.encode('{"type":"text","content":"a"}\n{"type":')),
+    ).toEqual([{ type: "text", content: "a" }]);
+    expect(decoder.push(encoder.encode('"text","content":"end"}'))).toEqual([]);
+    expect(decoder.flush()).toEqual([{ type: "text", content: "end" }]);
+  });
+
+  it("logs and skips a truncated last line at the end of the stream", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const events = decodeChunks([
+      encoder.encode('{"type":"text","content":"a"}\n{"type":"te'),
+    ]);
+
+    expect(events).toEqual([{ type: "text", content: "a" }]);
+    expect(error).toHaveBeenCalledOnce();
+  });
+
+  it("skips blank lines and passes unknown events on", () => {
+    const events = decodeChunks([
+      encoder.encode('\n\n{"type":"usage","tokens":3}\n\n'),
+    ]);
+
+    expect(events).toEqual([
+      {
+        type: "unknown",
+        originalType: "usage",
+        payload: { type: "usage", tokens: 3 },
+      },
+    ]);
+  });
+
+  it("maps resume offsets", () => {
+    const events = decodeChunks([
+      encoder.encode('{"type":"resume","offset":0}\n'),
+      encoder.encode('{"type":"resume","offset":5,"thinking_offset":2}\n'),
+    ]);
+
+    expect(events).toEqual([
+      { type: "resume", offset: 0, thinkingOffset: 0 },
+      { type: "resume", offset: 5, thinkingOffset: 2 },
+    ]);
+  });
+});
+
+describe("readNdjsonEvents", () => {
+  it("yields one batch per chunk and the flushed rest last", async () => {
+    const bytes = encoder.encode(
+      '{"type":"text","content":"a"}\n{"type":"text","content":"ö"}',
+    );
+    const batches: StreamEvent[][] = [];
+
+    for await (const batch of readNdjsonEvents(
+      readerOf(splitAt(bytes, [10, bytes.length - 3])),
+    )) {
+      batches.push(batch);
+    }
+
+    expect(batches).toEqual([
+      [],
+      [{ type: "text", content: "a" }],
+      [],
+      [{ type: "text", content: "ö" }],
+    ]);
+  });
+});
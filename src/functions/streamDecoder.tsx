@@ -0,0 +1,157 @@
+/**
+ * @module streamDecoder
+ *
+ * Incremental decoder for the newline-delimited JSON (NDJSON) interaction stream.
+ *
+ * Network chunks do not respect line or character boundaries: a single JSON event
+ * can be split over several `reader.read()` results, and so can a multi-byte UTF-8
+ * character. The decoder therefore
+ * - keeps one `TextDecoder` in streaming mode for the whole response, and
+ * - buffers the trailing, not yet newline-terminated part of the text until the
+ *   next chunk (or the end of the stream) completes it.
+ */
+
+import { StreamEvent } from "../models/RestInterface";
+import { contentEventSchema, resumeEventSchema } from "../models/RestSchemas";
+import { validate } from "./schema";
+
+/**
+ * Stateful decoder turning raw byte chunks into typed {@link StreamEvent}s.
+ */
+export interface NdjsonDecoder {
+  /** Feeds the next chunk and returns all events completed by it. */
+  push: (chunk: Uint8Array) => StreamEvent[];
+  /** Signals the end of the stream and returns the events still buffered. */
+  flush: () => StreamEvent[];
+}
+
+/**
+ * Converts one decoded JSON value into a typed stream event.
+ * Known event types are checked against their schema (see {@link validate}),
+ * unknown ones are passed on untouched. Returns `null` for values that are not event objects.
+ *
+ * @param {unknown} json - The parsed JSON value of one line.
+ * @returns {StreamEvent | null} - The typed event, or `null` if the value is unusable.
+ * @throws {ValidationError} In development, if a known event type has a malformed payload.
+ */
+export function toStreamEvent(json: unknown): StreamEvent | null {
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    return null;
+  }
+  const payload = json as Record<string, unknown>;
+  const type = typeof payload.type === "string" ? payload.type : "";
+
+  if (type === "thinking" || type === "text") {
+    const { content } = validate(
+      contentEventSchema,
+      payload,
+      `StreamEvent(${type})`,
+    );
+    return { type, content };
+  }
+  if (type === "resume") {
+    const { offset, thinking_offset } = validate(
+      resumeEventSchema,
+      payload,
+      "StreamEvent(resume)",
+    );
+    return {
+      type,
+      offset,
+      thinkingOffset:
+        thinking_offset ??
+        (offset === 0
+          ? 0 // A full replay restarts the reasoning as well
+          : Number.MAX_SAFE_INTEGER),
+    };
+  }
+  return { type: "unknown", originalType: type, payload };
+}
+
+/**
+ * Parses a single complete line. Blank lines are skipped, faulty lines are logged.
+ *
+ * @param {string} line - One line of the stream without its newline.
+ * @param {StreamEvent[]} events - Output array the parsed event is appended to.
+ * @throws {ValidationError} In development, see {@link toStreamEvent}.
+ */
+function parseLine(line: string, events: StreamEvent[]): void {
+  const trimmed = line.trim();
+  if (!trimmed) return;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(trimmed);
+  } catch {
+    // A complete line that still doesn't parse is a backend fault, not a chunking artifact
+    console.error("Unable to parse JSON line from LLM stream:", trimmed);
+    return;
+  }
+
+  const event = toStreamEvent(json);
+  if (event) {
+    events.push(event);
+  } else {
+    console.error("Unexpected JSON value in LLM stream:", trimmed);
+  }
+}
+
+/**
+ * Creates a new {@link NdjsonDecoder}. Use one decoder per response body.
+ *
+ * @returns {NdjsonDecoder} - A fresh decoder with empty buffers.
+ */
+export function createNdjsonDecoder(): NdjsonDecoder {
+  const textDecoder = new TextDecoder("utf-8");
+  let buffer = "";
+
+  const drainLines = (events: StreamEvent[]) => {
+    let newlineIndex = buffer.indexOf("\n");
+    while (newlineIndex !== -1) {
+      parseLine(buffer.slice(0, newlineIndex), events);
+      buffer = buffer.slice(newlineIndex + 1);
+      newlineIndex = buffer.indexOf("\n");
+    }
+  };
+
+  return {
+    push: (chunk: Uint8Array) => {
+      const events: StreamEvent[] = [];
+      buffer += textDecoder.decode(chunk, { stream: true });
+      drainLines(events);
+      return events;
+    },
+    flush: () => {
+      const events: StreamEvent[] = [];
+      buffer += textDecoder.decode(); // Emits any dangling partial character
+      drainLines(events);
+      parseLine(buffer, events); // Last line may lack a trailing newline
+      buffer = "";
+      return events;
+    },
+  };
+}
+
+/**
+ * Reads a response body to the end and yields the events of each chunk as one batch.
+ * Batching per chunk lets callers update the UI once per network read.
+ *
+ * @async
+ * @generator
+ * @param {ReadableStreamDefaultReader<Uint8Array>} reader - Reader of the response body.
+ * @yields {StreamEvent[]} - The (possibly empty) list of events completed by each chunk.
+ */
+export async function* readNdjsonEvents(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+): AsyncGenerator<StreamEvent[]> {
+  const decoder = createNdjsonDecoder();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    yield decoder.push(value);
+  }
+  const rest = decoder.flush();
+  if (rest.length > 0) {
+    yield rest;
+  }
+}
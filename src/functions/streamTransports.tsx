@@ -0,0 +1,329 @@
+/**
+ * @module streamTransports
+ *
+ * Wire protocols for receiving the gamemaster interaction stream, selected via
+ * `VITE_STREAM_TRANSPORT` (see {@link StreamTransportType}):
+ * - `ndjson` (default): newline-delimited JSON in the body of the POST response.
+ * - `sse`: POST to `/interaction/gamemaster-start`, then subscribe to the returned
+ *   stream id with an `EventSource`. For proxies that buffer chunked responses.
+ * - `websocket`: send the prompt over a WebSocket and receive the events on it.
+ *
+ * Every transport yields the same typed {@link StreamEvent} batches, so callers such as
+ * {@link sendPlayerInputToLlm} never depend on the protocol. SSE and WebSocket messages carry
+ * the same JSON objects as NDJSON lines; since they have no end-of-body, the backend ends them
+ * with a `{"type": "done"}` or `{"type": "error", "detail": "..."}` control message.
+ * Browsers can't set headers on `EventSource` or `WebSocket`, so these two authenticate
+ * through the `access_token` or `demo_user` query parameter.
+ */
+
+import {
+  PromptPayload,
+  StreamEvent,
+  StreamTransportType,
+} from "../models/RestInterface";
+import {
+  errorEventSchema,
+  streamStartPayloadSchema,
+} from "../models/RestSchemas";
+import { API_BASE, getAuthHeaders, httpJson, httpStream } from "./httpClient";
+import { AuthError, NetworkError, ServerError } from "./httpErrors";
+import { readNdjsonEvents, toStreamEvent } from "./streamDecoder";
+import { validate } from "./schema";
+
+/**
+ * Opens one interaction stream for `payload` and yields its events batch by batch.
+ * The iteration ends when the answer is complete; aborting `signal` makes it throw the abort reason.
+ */
+export type StreamTransport = (
+  payload: PromptPayload,
+  signal?: AbortSignal,
+) => AsyncIterable<StreamEvent[]>;
+
+////////////////////
+// Configuration  //
+////////////////////
+
+/**
+ * The configured transport; unknown values fall back to NDJSON.
+ * @constant
+ */
+export const STREAM_TRANSPORT_TYPE: StreamTransportType = (
+  Object.values(StreamTransportType) as string[]
+).includes(import.meta.env.VITE_STREAM_TRANSPORT ?? "")
+  ? (import.meta.env.VITE_STREAM_TRANSPORT as StreamTransportType)
+  : StreamTransportType.NDJSON;
+
+/**
+ * Time allowed for a WebSocket to open.
+ * @constant
+ */
+const WEBSOCKET_CONNECT_TIMEOUT_MS = 30_000;
+
+/** Application close codes the backend uses to reject WebSocket credentials. */
+const WEBSOCKET_AUTH_CLOSE_CODES = [1008, 4401, 4403];
+/** Standard close code for an unexpected server condition. */
+const WEBSOCKET_SERVER_ERROR_CLOSE_CODE = 1011;
+
+////////////////////
+// Helper Logic   //
+////////////////////
+
+/**
+ * Push-to-pull adapter turning callback-based sources into an async iterable of event batches.
+ */
+interface EventChannel {
+  /** Queues a batch of events. Ignored once the channel is finished. */
+  push: (events: StreamEvent[]) => void;
+  /** Ends the iteration after all queued batches. */
+  end: () => void;
+  /** Makes the iteration throw `error` after all queued batches. */
+  fail: (error: unknown) => void;
+  /** Yields the queued batches until the channel ends or fails. */
+  drain: () => AsyncGenerator<StreamEvent[]>;
+}
+
+function createEventChannel(): EventChannel {
+  const batches: StreamEvent[][] = [];
+  let finished = false;
+  let failed = false;
+  let failure: unknown;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  return {
+    push: (events) => {
+      if (finished) return;
+      batches.push(events);
+      notify();
+    },
+    end: () => {
+      finished = true;
+      notify();
+    },
+    fail: (error) => {
+      if (finished) return;
+      finished = true;
+      failed = true;
+      failure = error;
+      notify();
+    },
+    drain: async function* () {
+      while (true) {
+        const batch = batches.shift();
+        if (batch) {
+          yield batch;
+        } else if (finished) {
+          if (failed) throw failure;
+          return;
+        } else {
+          await new Promise<void>((resolve) => (wake = resolve));
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Handles one SSE or WebSocket message: control messages end the channel,
+ * everything else is decoded like an NDJSON line.
+ *
+ * @param {string} data - The raw message text.
+ * @param {EventChannel} channel - The channel of the current stream.
+ * @param {string} endpoint - Endpoint URL without credentials, for error messages.
+ */
+function dispatchMessage(
+  data: string,
+  channel: EventChannel,
+  endpoint: string,
+): void {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    console.error("Unable to parse message from LLM stream:", data);
+    return;
+  }
+
+  try {
+    const type = (json as { type?: unknown } | null)?.type;
+    if (type === "done") {
+      channel.end();
+      return;
+    }
+    if (type === "error") {
+      const { detail } = validate(errorEventSchema, json, "StreamEvent(error)");
+      channel.fail(
+        new ServerError(
+          `LLM stream failed${detail ? `: ${detail}` : ""}`,
+          endpoint,
+          undefined,
+          detail,
+        ),
+      );
+      return;
+    }
+    const event = toStreamEvent(json);
+    if (event) {
+      channel.push([event]);
+    } else {
+      console.error("Unexpected JSON value in LLM stream:", data);
+    }
+  } catch (err) {
+    channel.fail(err); // ValidationError in development
+  }
+}
+
+/**
+ * Builds the query string carrying the credentials of {@link getAuthHeaders}.
+ */
+async function getAuthQuery(): Promise<string> {
+  const headers = await getAuthHeaders();
+  const params = new URLSearchParams();
+  if (headers.Authorization) {
+    params.set("access_token", headers.Authorization.replace(/^Bearer /, ""));
+  }
+  if (headers["X-Demo-User"]) {
+    params.set("demo_user", headers["X-Demo-User"]);
+  }
+  return params.toString();
+}
+
+/**
+ * Iterates `channel` while `signal` can abort it; `cleanup` runs however the iteration ends.
+ */
+async function* drainUntilAborted(
+  channel: EventChannel,
+  signal: AbortSignal | undefined,
+  cleanup: () => void,
+): AsyncGenerator<StreamEvent[]> {
+  const onAbort = () => channel.fail(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    yield* channel.drain();
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    cleanup();
+  }
+}
+
+////////////////////
+// Transports     //
+////////////////////
+
+/**
+ * NDJSON in the body of the `/interaction/gamemaster-send` response.
+ */
+export const ndjsonTransport: StreamTransport = async function* (
+  payload,
+  signal,
+) {
+  const reader = await httpStream("/interaction/gamemaster-send", {
+    method: "POST",
+    body: payload,
+    signal,
+  });
+  yield* readNdjsonEvents(reader);
+};
+
+/**
+ * POST-then-subscribe over Server-Sent Events. `EventSource` would silently reconnect
+ * on its own; instead an interruption fails the stream with a {@link NetworkError},
+ * so resuming stays with {@link sendPlayerInputToLlm} and its offsets.
+ */
+export const sseTransport: StreamTransport = async function* (payload, signal) {
+  const { stream_id } = validate(
+    streamStartPayloadSchema,
+    await httpJson<unknown>("/interaction/gamemaster-start", {
+      method: "POST",
+      body: payload,
+      signal,
+    }),
+    "StreamStartPayload",
+  );
+  if (signal?.aborted) throw signal.reason;
+
+  const endpoint = `${API_BASE}/interaction/gamemaster-events/${encodeURIComponent(stream_id)}`;
+  const channel = createEventChannel();
+  const source = new EventSource(`${endpoint}?${await getAuthQuery()}`);
+  source.onmessage = (event) => dispatchMessage(event.data, channel, endpoint);
+  source.onerror = () =>
+    channel.fail(
+      new NetworkError(`Event stream ${endpoint} was interrupted`, endpoint),
+    );
+
+  yield* drainUntilAborted(channel, signal, () => source.close());
+};
+
+/**
+ * One WebSocket per generation: the prompt is sent once the socket is open, and the
+ * socket is expected to deliver a control message before it closes.
+ */
+export const websocketTransport: StreamTransport = async function* (
+  payload,
+  signal,
+) {
+  if (signal?.aborted) throw signal.reason;
+
+  const endpoint = `${API_BASE.replace(/^http/, "ws")}/interaction/gamemaster-ws`;
+  const channel = createEventChannel();
+  const socket = new WebSocket(`${endpoint}?${await getAuthQuery()}`);
+  const connectTimer = setTimeout(
+    () =>
+      channel.fail(
+        new NetworkError(
+          `Connecting to ${endpoint} timed out after ${WEBSOCKET_CONNECT_TIMEOUT_MS}ms`,
+          endpoint,
+          true,
+        ),
+      ),
+    WEBSOCKET_CONNECT_TIMEOUT_MS,
+  );
+
+  socket.onopen = () => {
+    clearTimeout(connectTimer);
+    socket.send(JSON.stringify(payload));
+  };
+  socket.onmessage = (event) =>
+    dispatchMessage(String(event.data), channel, endpoint);
+  socket.onclose = (event) => {
+    clearTimeout(connectTimer);
+    const message = `WebSocket ${endpoint} closed before the answer was complete [${event.code}]${
+      event.reason ? `: ${event.reason}` : ""
+    }`;
+    if (WEBSOCKET_AUTH_CLOSE_CODES.includes(event.code)) {
+      channel.fail(new AuthError(message, endpoint, 401, event.reason));
+    } else if (event.code === WEBSOCKET_SERVER_ERROR_CLOSE_CODE) {
+      channel.fail(new ServerError(message, endpoint, 500, event.reason));
+    } else {
+      channel.fail(new NetworkError(message, endpoint));
+    }
+  };
+
+  yield* drainUntilAborted(channel, signal, () => {
+    clearTimeout(connectTimer);
+    socket.onclose = null;
+    if (
+      socket.readyState === WebSocket.CONNECTING ||
+      socket.readyState === WebSocket.OPEN
+    ) {
+      socket.close(1000);
+    }
+  });
+};
+
+const TRANSPORTS: Record<StreamTransportType, StreamTransport> = {
+  [StreamTransportType.NDJSON]: ndjsonTransport,
+  [StreamTransportType.SSE]: sseTransport,
+  [StreamTransportType.WEBSOCKET]: websocketTransport,
+};
+
+/**
+ * Opens an interaction stream with the configured transport.
+ * @constant
+ */
+export const openInteractionStream: StreamTransport =
+  TRANSPORTS[STREAM_TRANSPORT_TYPE];
@@ -0,0 +1,26 @@
+/**
+ * @module tabStorage
+ *
+ * A zustand `StateStorage` for state that belongs to a browser tab, such as the open mission.
+ * Every tab reads and writes its own `sessionStorage` copy, which survives reloads. The latest
+ * write of any tab is also kept in `localStorage`, so that a new tab starts where the player
+ * left off.
+ */
+
+import { StateStorage } from "zustand/middleware";
+
+/**
+ * The tab-scoped storage. Use it with `createJSONStorage(() => tabStorage)`.
+ * @constant
+ */
+export const tabStorage: StateStorage = {
+  getItem: (name) => sessionStorage.getItem(name) ?? localStorage.getItem(name),
+  setItem: (name, value) => {
+    sessionStorage.setItem(name, value);
+    localStorage.setItem(name, value);
+  },
+  removeItem: (name) => {
+    sessionStorage.removeItem(name);
+    localStorage.removeItem(name);
+  },
+};
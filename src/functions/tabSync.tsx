@@ -0,0 +1,310 @@
+/**
+ * @module tabSync
+ *
+ * Keeps tabs that show the same mission in sync over a `BroadcastChannel`.
+ *
+ * - Changes of {@link useAppStore} and {@link useHistoryStore} are sent to the other tabs,
+ *   which apply them if they show the same mission.
+ * - A tab that generates an answer announces it and streams the content as it arrives, so
+ *   other tabs on the mission can follow it live in a read-only "spectator" mode.
+ * - Announcements are repeated as heartbeats; a tab that disappears without saying goodbye
+ *   releases its generation after {@link GENERATION_TIMEOUT_MS}.
+ *
+ * Without `BroadcastChannel` support every function is a no-op and tabs work independently.
+ */
+
+import { TabSyncMessage, TabSyncMessageType } from "../models/TabSyncTypes";
+import useAppStore from "../stores/appStore";
+import useHistoryStore from "../stores/historyStore";
+import useTabSyncStore from "../stores/tabSyncStore";
+
+////////////////////
+// Configuration  //
+////////////////////
+
+const CHANNEL_NAME = "gamemaister-sync";
+
+/** Interval of the heartbeat of a running generation. */
+const HEARTBEAT_INTERVAL_MS = 5_000;
+/** A generation without heartbeat for this long is considered gone. */
+const GENERATION_TIMEOUT_MS = 15_000;
+/** Minimum interval between two stream updates. */
+const STREAM_THROTTLE_MS = 100;
+
+/**
+ * Identifies this tab in messages.
+ * @constant
+ */
+export const TAB_ID = crypto.randomUUID();
+
+////////////////////
+// Helper Logic   //
+////////////////////
+
+let channel: BroadcastChannel | null = null;
+/** Set while a message from another tab is applied, so that it isn't echoed back. */
+let applyingRemote = false;
+/** Generations of this tab, so that new tabs can be told about them. */
+const ownGenerations = new Set<number>();
+/**
+ * The tab whose generation of a mission ended last. Its stream updates that are still on the
+ * way are stale until it announces a new generation.
+ */
+const endedGenerations = new Map<number, string>();
+
+type StreamListener = (
+  missionId: number,
+  llmOutput: string,
+  llmThinking: string,
+) => void;
+const streamListeners = new Set<StreamListener>();
+
+/** Sends a message to all other tabs. */
+function post(message: TabSyncMessage): void {
+  channel?.postMessage(message);
+}
+
+/** Applies a message of another tab to the local stores. */
+function handleMessage(message: TabSyncMessage): void {
+  const { markGenerating, clearGenerating } = useTabSyncStore.getState();
+
+  switch (message.type) {
+    case TabSyncMessageType.HELLO:
+      for (const missionId of ownGenerations) {
+        post({
+          type: TabSyncMessageType.GENERATION_STARTED,
+          tabId: TAB_ID,
+          missionId,
+        });
+      }
+      break;
+
+    case TabSyncMessageType.APP_STATE: {
+      const app = useAppStore.getState();
+      // Each tab follows its own mission; only metadata of the same mission is taken over
+      if (message.mission === null || message.mission !== app.mission) break;
+      if (app.adventure !== message.adventure) {
+        app.setAdventure(message.adventure);
+      }
+      if (app.gameType !== message.gameType) {
+        app.setGameType(message.gameType);
+      }
+      break;
+    }
+
+    case TabSyncMessageType.HISTORY_STATE:
+      if (useHistoryStore.getState().missionId !== message.missionId) break;
+      useHistoryStore
+        .getState()
+        .applyRemoteHistory(message.nodes, message.generationStatus);
+      break;
+
+    case TabSyncMessageType.GENERATION_STARTED:
+      endedGenerations.delete(message.missionId);
+      markGenerating(message.missionId, message.tabId);
+      break;
+
+    case TabSyncMessageType.GENERATION_ENDED:
+      endedGenerations.set(message.missionId, message.tabId);
+      clearGenerating(message.missionId, message.tabId);
+      break;
+
+    case TabSyncMessageType.STREAM:
+      if (endedGenerations.get(message.missionId) === message.tabId) break;
+      markGenerating(message.missionId, message.tabId);
+      streamListeners.forEach((listener) =>
+        listener(message.missionId, message.llmOutput, message.llmThinking),
+      );
+      break;
+  }
+}
+
+////////////////////
+// Main API Logic //
+////////////////////
+
+/**
+ * Connects this tab to the sync channel and starts mirroring store changes.
+ *
+ * @returns {function(): void} - Disconnects the tab again.
+ */
+export function startTabSync(): () => void {
+  if (typeof BroadcastChannel === "undefined" || channel) return () => {};
+
+  const syncChannel = new BroadcastChannel(CHANNEL_NAME);
+  channel = syncChannel;
+  syncChannel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+    applyingRemote = true;
+    try {
+      handleMessage(event.data);
+    } finally {
+      applyingRemote = false;
+    }
+  };
+
+  const unsubscribeApp = useAppStore.subscribe((state, prev) => {
+    if (applyingRemote) return;
+    if (
+      state.mission === prev.mission &&
+      state.adventure === prev.adventure &&
+      state.gameType === prev.gameType
+    ) {
+      return;
+    }
+    post({
+      type: TabSyncMessageType.APP_STATE,
+      tabId: TAB_ID,
+      mission: state.mission,
+      adventure: state.adventure,
+      gameType: state.gameType,
+    });
+  });
+
+  const unsubscribeHistory = useHistoryStore.subscribe((state, prev) => {
+    if (applyingRemote || state.missionId === null) return;
+    // Opening a mission only shows what the shared cache already has
+    if (state.missionId !== prev.missionId) return;
+    if (
+      state.nodes === prev.nodes &&
+      state.generationStatus === prev.generationStatus
+    ) {
+      return;
+    }
+    post({
+      type: TabSyncMessageType.HISTORY_STATE,
+      tabId: TAB_ID,
+      missionId: state.missionId,
+      nodes: state.nodes,
+      generationStatus: state.generationStatus,
+    });
+  });
+
+  const expiryTimer = window.setInterval(
+    () =>
+      useTabSyncStore
+        .getState()
+        .expireGenerations(Date.now() - GENERATION_TIMEOUT_MS),
+    HEARTBEAT_INTERVAL_MS,
+  );
+
+  // Say goodbye for running generations when the tab goes away
+  const handlePageHide = () => {
+    for (const missionId of ownGenerations) {
+      post({
+        type: TabSyncMessageType.GENERATION_ENDED,
+        tabId: TAB_ID,
+        missionId,
+      });
+    }
+  };
+  window.addEventListener("pagehide", handlePageHide);
+
+  post({ type: TabSyncMessageType.HELLO, tabId: TAB_ID });
+
+  return () => {
+    handlePageHide();
+    window.removeEventListener("pagehide", handlePageHide);
+    window.clearInterval(expiryTimer);
+    unsubscribeApp();
+    unsubscribeHistory();
+    syncChannel.close();
+    channel = null;
+  };
+}
+
+/**
+ * Announces that this tab generates an answer for a mission, until the returned function
+ * is called. Other tabs on the mission switch to spectator mode meanwhile.
+ *
+ * @param {number} missionId - The mission.
+ * @returns {function(): void} - Ends the announcement.
+ */
+export function announceGeneration(missionId: number): () => void {
+  const announce = () =>
+    post({
+      type: TabSyncMessageType.GENERATION_STARTED,
+      tabId: TAB_ID,
+      missionId,
+    });
+
+  ownGenerations.add(missionId);
+  announce();
+  const heartbeat = window.setInterval(announce, HEARTBEAT_INTERVAL_MS);
+
+  return () => {
+    window.clearInterval(heartbeat);
+    ownGenerations.delete(missionId);
+    post({
+      type: TabSyncMessageType.GENERATION_ENDED,
+      tabId: TAB_ID,
+      missionId,
+    });
+  };
+}
+
+/**
+ * Throttled sender for the content of a running stream, see {@link createStreamBroadcaster}.
+ */
+export interface StreamBroadcaster {
+  /** Sends the accumulated answer and reasoning, at most every {@link STREAM_THROTTLE_MS}. */
+  send: (llmOutput: string, llmThinking: string) => void;
+  /** Sends the content still waiting for the throttle right away. */
+  flush: () => void;
+  /** Drops the content still waiting for the throttle. */
+  cancel: () => void;
+}
+
+/**
+ * Creates a throttled sender for the content of a running stream. The latest content is
+ * delivered at most every {@link STREAM_THROTTLE_MS}. Flush or cancel it before the
+ * generation is announced as ended, so that no update follows the end.
+ *
+ * @param {number} missionId - The mission the stream belongs to.
+ * @returns {StreamBroadcaster} - The sender.
+ */
+export function createStreamBroadcaster(missionId: number): StreamBroadcaster {
+  let pending: { llmOutput: string; llmThinking: string } | null = null;
+  let timer: number | null = null;
+
+  const cancel = () => {
+    if (timer !== null) window.clearTimeout(timer);
+    timer = null;
+    pending = null;
+  };
+
+  const flush = () => {
+    const content = pending;
+    cancel();
+    if (!content) return;
+    post({
+      type: TabSyncMessageType.STREAM,
+      tabId: TAB_ID,
+      missionId,
+      ...content,
+    });
+  };
+
+  return {
+    send: (llmOutput: string, llmThinking: string) => {
+      pending = { llmOutput, llmThinking };
+      if (timer === null) {
+        timer = window.setTimeout(flush, STREAM_THROTTLE_MS);
+      }
+    },
+    flush,
+    cancel,
+  };
+}
+
+/**
+ * Registers a listener for content streamed by other tabs.
+ *
+ * @param {StreamListener} listener - Called with the mission and the accumulated content.
+ * @returns {function(): void} - Removes the listener.
+ */
+export function onRemoteStream(listener: StreamListener): () => void {
+  streamListeners.add(listener);
+  return () => {
+    streamListeners.delete(listener);
+  };
+}
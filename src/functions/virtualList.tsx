@@ -0,0 +1,107 @@
+/**
+ * @module virtualList
+ *
+ * Layout arithmetic for windowed lists whose items have different heights.
+ *
+ * Items that have been rendered are measured; all others count with an estimated height.
+ * From these heights the list's offsets are derived, and from the offsets the range of
+ * items that intersects the viewport. Only that range is mounted, the space of the
+ * others is kept free with padding (see {@link module:useVirtualList}).
+ */
+
+/**
+ * Items to mount, as the half-open index range `[start, end)`.
+ */
+export interface VirtualRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Positions of all items of a list.
+ * @typedef {object} VirtualLayout
+ * @property {number[]} offsets - Top of every item, plus the total height as last entry.
+ * @property {Map<string, number>} indexById - Position of every item id.
+ */
+export interface VirtualLayout {
+  offsets: number[];
+  indexById: Map<string, number>;
+}
+
+////////////////////
+// Main API Logic //
+////////////////////
+
+/**
+ * Lays out the items one below the other.
+ *
+ * @param {string[]} ids - The item ids, in list order.
+ * @param {Map<string, number>} heights - Measured heights by item id.
+ * @param {number} estimatedHeight - Height of items that were never measured.
+ * @returns {VirtualLayout} - The offsets of the items.
+ */
+export function layoutItems(
+  ids: string[],
+  heights: Map<string, number>,
+  estimatedHeight: number,
+): VirtualLayout {
+  const offsets = new Array<number>(ids.length + 1);
+  const indexById = new Map<string, number>();
+  offsets[0] = 0;
+  ids.forEach((id, index) => {
+    indexById.set(id, index);
+    offsets[index + 1] = offsets[index] + (heights.get(id) ?? estimatedHeight);
+  });
+  return { offsets, indexById };
+}
+
+/**
+ * Index of the item that contains the position `y`, clamped to the list.
+ *
+ * @param {number[]} offsets - The offsets from {@link layoutItems}.
+ * @param {number} y - A position relative to the top of the list.
+ * @returns {number} - The item index; `0` for an empty list.
+ */
+export function findItemAt(offsets: number[], y: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  if (high < 0) return 0;
+  // Last item whose top is at or above y
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= y) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * The items that intersect the viewport, extended by `overscan` pixels in both directions
+ * so that scrolling doesn't reveal empty space before the next render.
+ *
+ * @param {number[]} offsets - The offsets from {@link layoutItems}.
+ * @param {number} viewportTop - Top of the viewport relative to the top of the list.
+ * @param {number} viewportHeight - Height of the viewport.
+ * @param {number} overscan - Extra pixels to cover above and below.
+ * @returns {VirtualRange} - The items to mount.
+ */
+export function visibleRange(
+  offsets: number[],
+  viewportTop: number,
+  viewportHeight: number,
+  overscan: number,
+): VirtualRange {
+  const count = offsets.length - 1;
+  const top = viewportTop - overscan;
+  const bottom = viewportTop + viewportHeight + overscan;
+  if (count <= 0 || bottom < 0 || top > offsets[count]) {
+    return { start: 0, end: 0 };
+  }
+  return {
+    start: findItemAt(offsets, top),
+    end: Math.min(findItemAt(offsets, bottom) + 1, count),
+  };
+}
@@ -1,15 +1,13 @@
 import { useCallback } from "react";
-import {
-  postNewMission,
-  postSaveMission,
-  getListMissions,
-  getLoadMissions,
-} from "../functions/restInterface";
+import backend from "../functions/backend";
 import { Mission } from "../models/MissionModels";
 import { MissionPayload } from "../models/RestInterface";
 import { GameType } from "../models/Types";
+import { MissionSearchResult } from "../models/SearchTypes";
 import useAppStore from "../stores/appStore";
 import useHistoryStore from "../stores/historyStore";
+import useCharacterStore from "../stores/characterStore";
+import { refreshMission } from "../functions/missionRefresh";
 
 export type MissionControlCallbacks = {
   sendNewMissionGenerate: (
@@ -21,6 +19,7 @@ export type MissionControlCallbacks = {
   ) => Promise<void>;
   saveMission: (nameCustom: string) => Promise<void>;
   listMissions: () => Promise<Mission[]>;
+  searchMissions: (query: string) => Promise<MissionSearchResult[]>;
   loadMission: (missionId: number) => Promise<void>;
   getMissionData: (
     missionId: number,
@@ -29,8 +28,7 @@ export type MissionControlCallbacks = {
 
 export function useMissionControlCallbacks(): MissionControlCallbacks {
   // Get history actions hook for cleaner API
-  const clearHistory = useHistoryStore((state) => state.clearHistory);
-  const loadHistoryData = useHistoryStore((state) => state.loadHistoryData);
+  const openMission = useHistoryStore((state) => state.openMission);
 
   const sendNewMissionGenerate = useCallback(
     async (
@@ -41,12 +39,14 @@ export function useMissionControlCallbacks(): MissionControlCallbacks {
       oracle: boolean,
     ): Promise<void> => {
       const { reset, setMission, setAdventure } = useAppStore.getState();
+      const { openRoster } = useCharacterStore.getState();
 
-      // Reset both stores
+      // Reset the stores; the previous mission stays in the local cache
       reset();
-      clearHistory();
+      openRoster(null);
+      await openMission(null);
 
-      const response = await postNewMission({
+      const response = await backend.newMission({
         game_type: gameType,
         background,
         detailed_background: detailedBackground,
@@ -56,20 +56,22 @@ export function useMissionControlCallbacks(): MissionControlCallbacks {
       if (response !== null) {
         setMission(response.mission_id);
         setAdventure(response.name);
+        openRoster(response.mission_id);
+        await openMission(response.mission_id);
       }
     },
-    [clearHistory],
+    [openMission],
   );
 
   const saveMission = useCallback(async (nameCustom: string): Promise<void> => {
     const { mission } = useAppStore.getState();
     if (mission !== null) {
-      await postSaveMission(mission, nameCustom);
+      await backend.saveMission(mission, nameCustom);
     }
   }, []);
 
   const listMissions = useCallback(async (): Promise<Mission[]> => {
-    const missionPayloads = await getListMissions();
+    const missionPayloads = await backend.listMissions();
 
     return missionPayloads.map((payload: MissionPayload) => ({
       name: payload.name,
@@ -80,50 +82,42 @@ export function useMissionControlCallbacks(): MissionControlCallbacks {
     }));
   }, []);
 
+  const searchMissions = useCallback(
+    (query: string): Promise<MissionSearchResult[]> =>
+      backend.searchMissions(query),
+    [],
+  );
+
   const loadMission = useCallback(
     async (missionId: number): Promise<void> => {
-      const { setMission, setAdventure, setGameType } = useAppStore.getState();
-
-      // Clear history first
-      clearHistory();
-
-      const loaded = await getLoadMissions(missionId);
-
-      setMission(loaded.mission.missionId);
-      setAdventure(loaded.mission.nameCustom || loaded.mission.name);
-      setGameType(loaded.mission.gameType);
-
-      const loadedInteractions = loaded.interactions;
-
-      if (loadedInteractions.length > 0) {
-        const lastInteraction =
-          loadedInteractions[loadedInteractions.length - 1];
-        loadHistoryData({
-          interactions: loadedInteractions.slice(0, -1) || [],
-          lastPlayerInput: lastInteraction?.playerInput ?? "",
-          lastLlmThinking: "",
-          lastLlmOutput: lastInteraction?.llmOutput ?? "",
-        });
-      } else {
-        loadHistoryData({
-          interactions: [],
-          lastPlayerInput: "",
-          lastLlmThinking: "",
-          lastLlmOutput: "",
-        });
+      const reopened = useHistoryStore.getState().missionId === missionId;
+
+      useAppStore.getState().setMission(missionId);
+      useCharacterStore.getState().openRoster(missionId);
+      const cached = await openMission(missionId);
+
+      // A cached mission is shown right away and refreshed in the background;
+      // reloading the open mission waits for the backend
+      if (cached && !reopened) {
+        refreshMission(missionId).catch((error) =>
+          console.error(`Failed to refresh mission ${missionId}:`, error),
+        );
+        return;
       }
+      await refreshMission(missionId);
     },
-    [clearHistory, loadHistoryData],
+    [openMission],
   );
 
   const getMissionData = useCallback(async (missionId: number) => {
-    return await getLoadMissions(missionId);
+    return await backend.loadMission(missionId);
   }, []);
 
   return {
     sendNewMissionGenerate,
     saveMission,
     listMissions,
+    searchMissions,
     loadMission,
     getMissionData,
   };
@@ -0,0 +1,156 @@
+import { useCallback, useRef, useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+import backend from "../functions/backend";
+import { describeHttpError } from "../functions/httpErrors";
+import { CharacterDraft, CharacterProps } from "../models/CharacterProps";
+import useCharacterStore from "../stores/characterStore";
+
+/**
+ * The saves of one character, which are sent one after another.
+ * @typedef {object} SaveChain
+ * @property {Promise<void>} tail - Settles once the latest queued save is done.
+ * @property {number} pending - Number of saves queued or in flight.
+ * @property {CharacterProps | undefined} saved - The character as the backend has it.
+ */
+interface SaveChain {
+  tail: Promise<void>;
+  pending: number;
+  saved: CharacterProps | undefined;
+}
+
+/**
+ * The character roster of the open mission, with changes that are stored on the backend.
+ *
+ * Updates and deletions are shown right away and reverted if the backend refuses them;
+ * new characters appear once the backend has assigned their id. Failures are reported
+ * through `error`.
+ *
+ * Saves of the same character are sent one after another, so the backend receives them in
+ * the order they were made, e.g. while damage is clicked up quickly. A refused save only
+ * reverts the character if no newer change was made since, and then to the version the
+ * backend has.
+ *
+ * @returns {object} - The `missionId` and its `characters`, the last `error` with
+ *   `clearError`, and `createCharacter`, `saveCharacter` and `deleteCharacter`.
+ */
+export function useCharacterRoster() {
+  const {
+    missionId,
+    characters,
+    addCharacter,
+    updateCharacter,
+    removeCharacter,
+    restoreCharacter,
+  } = useCharacterStore(
+    useShallow((state) => ({
+      missionId: state.missionId,
+      characters: state.characters,
+      addCharacter: state.addCharacter,
+      updateCharacter: state.updateCharacter,
+      removeCharacter: state.removeCharacter,
+      restoreCharacter: state.restoreCharacter,
+    })),
+  );
+  const [error, setError] = useState<string | null>(null);
+  const saveChainsRef = useRef(new Map<number, SaveChain>());
+
+  /**
+   * Stores a new character. Resolves with it, or `null` if it couldn't be stored.
+   */
+  const createCharacter = useCallback(
+    async (draft: CharacterDraft): Promise<CharacterProps | null> => {
+      if (missionId === null) return null;
+      setError(null);
+      try {
+        const created = await backend.createCharacter(missionId, draft);
+        // The player may have switched to another mission meanwhile
+        if (useCharacterStore.getState().missionId === missionId) {
+          addCharacter(created);
+        }
+        return created;
+      } catch (err) {
+        setError("Character not created: " + describeHttpError(err));
+        console.error("Failed to create character:", err);
+        return null;
+      }
+    },
+    [missionId, addCharacter],
+  );
+
+  /**
+   * Stores the changes to a character. Resolves with whether the backend accepted them.
+   */
+  const saveCharacter = useCallback(
+    async (character: CharacterProps): Promise<boolean> => {
+      if (missionId === null) return false;
+      const chains = saveChainsRef.current;
+      const findCurrent = () =>
+        useCharacterStore
+          .getState()
+          .characters.find(({ id }) => id === character.id);
+      let chain = chains.get(character.id);
+      if (!chain) {
+        // Without unfinished saves the shown character is the one the backend has
+        chain = { tail: Promise.resolve(), pending: 0, saved: findCurrent() };
+        chains.set(character.id, chain);
+      }
+      const ownChain = chain;
+      setError(null);
+      updateCharacter(character);
+      ownChain.pending++;
+
+      const accepted = ownChain.tail.then(async () => {
+        try {
+          await backend.updateCharacter(missionId, character);
+          ownChain.saved = character;
+          return true;
+        } catch (err) {
+          // A newer change, saved after this one, is kept
+          if (findCurrent() === character && ownChain.saved) {
+            updateCharacter(ownChain.saved);
+          }
+          setError("Character not saved: " + describeHttpError(err));
+          console.error("Failed to save character:", err);
+          return false;
+        } finally {
+          if (--ownChain.pending === 0) chains.delete(character.id);
+        }
+      });
+      ownChain.tail = accepted.then(() => {});
+      return accepted;
+    },
+    [missionId, updateCharacter],
+  );
+
+  const deleteCharacter = useCallback(
+    async (characterId: number): Promise<void> => {
+      if (missionId === null) return;
+      const { characters } = useCharacterStore.getState();
+      const index = characters.findIndex(({ id }) => id === characterId);
+      const deleted = characters[index];
+      setError(null);
+      removeCharacter(characterId);
+      try {
+        await backend.deleteCharacter(missionId, characterId);
+      } catch (err) {
+        // Only the deleted character comes back; other changes made meanwhile stay
+        if (deleted) restoreCharacter(missionId, deleted, index);
+        setError("Character not deleted: " + describeHttpError(err));
+        console.error("Failed to delete character:", err);
+      }
+    },
+    [missionId, removeCharacter, restoreCharacter],
+  );
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    missionId,
+    characters,
+    error,
+    clearError,
+    createCharacter,
+    saveCharacter,
+    deleteCharacter,
+  };
+}
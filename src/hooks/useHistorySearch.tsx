@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { StoryTree } from "../models/HistoryTypes";
+import { SearchField, SearchHit, TextHighlight } from "../models/SearchTypes";
+import { searchHistory, searchesField } from "../functions/historySearch";
+import useSearchStore from "../stores/searchStore";
+
+/**
+ * Runs the search of {@link useSearchStore} over the shown exchanges.
+ *
+ * @param {StoryTree} nodes - The story tree.
+ * @param {string[]} nodeIds - The exchanges shown, in story order.
+ * @returns {object} - `hits` and the `activeHit` with its `activeIndex`, `showNext` and
+ *   `showPrevious` to move between hits (wrapping around), and `highlightFor` giving the
+ *   matches to mark in a text of an exchange.
+ */
+export function useHistorySearch(nodes: StoryTree, nodeIds: string[]) {
+  const { query, scope, storedIndex, target, setActiveIndex, clearTarget } =
+    useSearchStore(
+      useShallow((state) => ({
+        query: state.query,
+        scope: state.scope,
+        storedIndex: state.activeIndex,
+        target: state.target,
+        setActiveIndex: state.setActiveIndex,
+        clearTarget: state.clearTarget,
+      })),
+    );
+
+  const hits = useMemo(
+    () => searchHistory(nodes, nodeIds, query, scope),
+    [nodes, nodeIds, query, scope],
+  );
+  // The history may have changed under the search, e.g. after an undo
+  const activeIndex = Math.min(storedIndex, Math.max(hits.length - 1, 0));
+  const activeHit: SearchHit | null = hits[activeIndex] ?? null;
+
+  // Jump to a hit chosen elsewhere, e.g. in the search over all missions
+  useEffect(() => {
+    if (!target || nodeIds.length === 0) return;
+    const nodeId = nodeIds[target.pathIndex];
+    const index = hits.findIndex(
+      (hit) => hit.nodeId === nodeId && hit.field === target.field,
+    );
+    if (index !== -1) setActiveIndex(index);
+    clearTarget();
+  }, [target, nodeIds, hits, setActiveIndex, clearTarget]);
+
+  const showNext = useCallback(() => {
+    if (hits.length > 0) setActiveIndex((activeIndex + 1) % hits.length);
+  }, [hits.length, activeIndex, setActiveIndex]);
+
+  const showPrevious = useCallback(() => {
+    if (hits.length > 0) {
+      setActiveIndex((activeIndex - 1 + hits.length) % hits.length);
+    }
+  }, [hits.length, activeIndex, setActiveIndex]);
+
+  const highlightFor = useCallback(
+    (nodeId: string, field: SearchField): TextHighlight | undefined => {
+      if (!query.trim() || !searchesField(scope, field)) return undefined;
+      return {
+        query,
+        activeMatch:
+          activeHit?.nodeId === nodeId && activeHit.field === field
+            ? activeHit.occurrence
+            : null,
+      };
+    },
+    [query, scope, activeHit],
+  );
+
+  return {
+    hits,
+    activeHit,
+    activeIndex,
+    showNext,
+    showPrevious,
+    highlightFor,
+  };
+}
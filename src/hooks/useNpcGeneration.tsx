@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import backend from "../functions/backend";
+import { describeHttpError } from "../functions/httpErrors";
+import { CharacterDraft } from "../models/CharacterProps";
+import { Interaction } from "../models/MissionModels";
+import useAppStore from "../stores/appStore";
+import useCharacterStore from "../stores/characterStore";
+import useHistoryStore from "../stores/historyStore";
+
+/** How many of the latest exchanges are sent as the scene the NPCs should fit into. */
+const SCENE_INTERACTIONS = 6;
+
+/**
+ * Generates NPCs for the open mission that fit the current scene, i.e. the latest exchanges
+ * of the active branch. The NPCs stream in as they are filled out and can be changed or
+ * discarded afterwards; storing them is left to the caller.
+ *
+ * Starting another generation or unmounting stops the running one.
+ *
+ * @returns {object} - The `npcs` generated so far, whether the backend is `generating`, the
+ *   last `error`, `generate(count)`, `stop`, and `updateNpc`/`removeNpc` by index.
+ */
+export function useNpcGeneration() {
+  const missionId = useCharacterStore((state) => state.missionId);
+  const gameType = useAppStore((state) => state.gameType);
+  const [npcs, setNpcs] = useState<CharacterDraft[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const generate = useCallback(
+    async (count: number) => {
+      if (missionId === null) return;
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      const { nodes, activePathIds } = useHistoryStore.getState();
+      const interactions: Interaction[] = activePathIds
+        .slice(-SCENE_INTERACTIONS)
+        .map((id) => ({
+          playerInput: nodes[id].playerInput,
+          llmOutput: nodes[id].llmOutput,
+        }));
+
+      setNpcs([]);
+      setError(null);
+      setGenerating(true);
+      try {
+        await backend.generateNpcs({
+          missionId,
+          gameType,
+          count,
+          interactions,
+          signal: controller.signal,
+          setStateCallback: (generated) => {
+            // A newer generation owns the list now
+            if (!controller.signal.aborted) setNpcs(generated);
+          },
+        });
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          setError("NPCs not generated: " + describeHttpError(err));
+          console.error("Failed to generate NPCs:", err);
+        }
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setGenerating(false);
+        }
+      }
+    },
+    [missionId, gameType],
+  );
+
+  /** Stops the running generation; the NPCs received so far are kept. */
+  const stop = useCallback(() => controllerRef.current?.abort(), []);
+
+  const updateNpc = useCallback((index: number, npc: CharacterDraft) => {
+    setNpcs((previous) =>
+      previous.map((other, i) => (i === index ? npc : other)),
+    );
+  }, []);
+
+  const removeNpc = useCallback((index: number) => {
+    setNpcs((previous) => previous.filter((_npc, i) => i !== index));
+  }, []);
+
+  return { npcs, generating, error, generate, stop, updateNpc, removeNpc };
+}
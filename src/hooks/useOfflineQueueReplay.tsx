@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useShallow } from "zustand/react/shallow";
+import backend from "../functions/backend";
+import { NetworkError, describeHttpError } from "../functions/httpErrors";
+import { GenerationStatus } from "../models/HistoryTypes";
+import { QueuedTurn, QueuedTurnStatus } from "../models/OfflineQueueTypes";
+import useHistoryStore from "../stores/historyStore";
+import { useMissionControlCallbacks } from "./missionControlCallbacks";
+import useOfflineQueueStore from "../stores/offlineQueueStore";
+
+/**
+ * Interval between reachability checks while turns are queued.
+ * @constant
+ */
+const RETRY_INTERVAL_MS = 15_000;
+
+export type OfflineQueueReplay = {
+  /** Queued turns of the current mission, in sending order. */
+  queuedTurns: QueuedTurn[];
+  /** Removes a single queued turn without sending it. */
+  discardTurn: (id: string) => void;
+  /** Queues a failed turn for sending again. */
+  retryTurn: (id: string) => void;
+  /** Resolves a conflict by reloading the server history and sending the turns on top of it. */
+  sendAnyway: () => void;
+  /** Removes all queued turns of the current mission. */
+  discardAll: () => void;
+};
+
+/**
+ * Replays the offline queue of a mission once the backend is reachable again.
+ *
+ * While turns are queued, `getMission` is retried every {@link RETRY_INTERVAL_MS} and
+ * whenever the browser reports being back online. Before the first turn is sent, the
+ * server history is compared with the one the turn was written against; if another
+ * device or tab advanced the mission meanwhile, all its turns are marked as conflicts
+ * and wait for the player to send them anyway (on top of the reloaded server history)
+ * or discard them.
+ *
+ * Only a turn that didn't reach the backend goes back to waiting. A turn the backend
+ * refused, or that timed out and may have arrived, is marked as failed with the reason
+ * and holds up the turns behind it until the player retries or discards it.
+ *
+ * @param {number | null} missionId - The current mission.
+ * @param {function(string): Promise<unknown>} sendTurn - Sends one player turn like the send
+ *   button does; resolves with the error if it failed, `null` otherwise.
+ * @returns {OfflineQueueReplay} - The queued turns and the actions to resolve them.
+ */
+export function useOfflineQueueReplay(
+  missionId: number | null,
+  sendTurn: (playerInput: string) => Promise<unknown>,
+): OfflineQueueReplay {
+  const queuedTurns = useOfflineQueueStore(
+    useShallow((state) =>
+      state.turns.filter((turn) => turn.missionId === missionId),
+    ),
+  );
+  const hydrated = useOfflineQueueStore((state) => state.hydrated);
+  const removeTurn = useOfflineQueueStore((state) => state.removeTurn);
+  const setTurnStatus = useOfflineQueueStore((state) => state.setTurnStatus);
+  const markFailed = useOfflineQueueStore((state) => state.markFailed);
+  const retryTurn = useOfflineQueueStore((state) => state.retryTurn);
+  const markConflict = useOfflineQueueStore((state) => state.markConflict);
+  const forceReplay = useOfflineQueueStore((state) => state.forceReplay);
+  const clearMission = useOfflineQueueStore((state) => state.clearMission);
+
+  const { loadMission } = useMissionControlCallbacks();
+
+  const replayingRef = useRef(false);
+  const sendTurnRef = useRef(sendTurn);
+  useEffect(() => {
+    sendTurnRef.current = sendTurn;
+  }, [sendTurn]);
+
+  const replay = useCallback(async () => {
+    if (missionId === null || replayingRef.current) return;
+    const pending = useOfflineQueueStore
+      .getState()
+      .turns.filter((turn) => turn.missionId === missionId);
+    // Conflicts wait for the player; a running generation finishes first
+    if (pending[0]?.status !== QueuedTurnStatus.PENDING) return;
+    if (
+      useHistoryStore.getState().generationStatus === GenerationStatus.STREAMING
+    ) {
+      return;
+    }
+
+    replayingRef.current = true;
+    try {
+      const mission = await backend.getMission(missionId);
+      if (mission === null) {
+        markConflict(missionId);
+        return;
+      }
+
+      const [first] = pending;
+      if (first.force) {
+        // Continue from the server's version of the story, not the stale local one
+        await loadMission(missionId);
+      } else {
+        const { interactions } = await backend.loadMission(missionId);
+        const lastPlayerInput =
+          interactions[interactions.length - 1]?.playerInput ?? "";
+        if (
+          interactions.length !== first.base.interactionCount ||
+          lastPlayerInput !== first.base.lastPlayerInput
+        ) {
+          markConflict(missionId);
+          return;
+        }
+      }
+
+      for (const turn of pending) {
+        setTurnStatus(turn.id, QueuedTurnStatus.REPLAYING);
+        const error = await sendTurnRef.current(turn.playerInput);
+        if (error === null) {
+          removeTurn(turn.id);
+        } else if (error instanceof NetworkError && !error.timedOut) {
+          setTurnStatus(turn.id, QueuedTurnStatus.PENDING);
+          return;
+        } else {
+          markFailed(turn.id, describeHttpError(error));
+          return;
+        }
+      }
+    } catch (err) {
+      console.warn("Offline queue replay postponed:", describeHttpError(err));
+    } finally {
+      replayingRef.current = false;
+    }
+  }, [
+    missionId,
+    loadMission,
+    markConflict,
+    setTurnStatus,
+    markFailed,
+    removeTurn,
+  ]);
+
+  const hasPendingTurns = queuedTurns.some(
+    (turn) => turn.status === QueuedTurnStatus.PENDING,
+  );
+
+  useEffect(() => {
+    if (!hydrated || !hasPendingTurns) return;
+
+    replay();
+    const interval = setInterval(replay, RETRY_INTERVAL_MS);
+    window.addEventListener("online", replay);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("online", replay);
+    };
+  }, [hydrated, hasPendingTurns, replay]);
+
+  const sendAnyway = useCallback(() => {
+    if (missionId !== null) forceReplay(missionId);
+  }, [missionId, forceReplay]);
+
+  const discardAll = useCallback(() => {
+    if (missionId !== null) clearMission(missionId);
+  }, [missionId, clearMission]);
+
+  return {
+    queuedTurns,
+    discardTurn: removeTurn,
+    retryTurn,
+    sendAnyway,
+    discardAll,
+  };
+}
+
+export default useOfflineQueueReplay;
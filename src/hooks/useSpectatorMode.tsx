@@ -0,0 +1,46 @@
+import { RefObject, useEffect, useRef } from "react";
+import { FieldContainerHandle } from "../components/FieldContainer";
+import { onRemoteStream } from "../functions/tabSync";
+import useTabSyncStore from "../stores/tabSyncStore";
+
+/**
+ * Follows generations that another tab runs for the same mission.
+ *
+ * While one runs, the tab is a spectator: the returned flag is `true`, and the content
+ * streamed by the other tab is shown live in `fieldRef`. The final answer arrives through
+ * the synced history store once the other tab commits it.
+ *
+ * @param {number | null} missionId - The mission shown in this tab.
+ * @param {RefObject<FieldContainerHandle | null>} fieldRef - The gamemaster field to stream into.
+ * @returns {boolean} - Whether another tab is generating for the mission.
+ */
+export function useSpectatorMode(
+  missionId: number | null,
+  fieldRef: RefObject<FieldContainerHandle | null>,
+): boolean {
+  const spectating = useTabSyncStore(
+    (state) => missionId !== null && missionId in state.generating,
+  );
+  const streamingRef = useRef(false);
+
+  useEffect(() => {
+    return onRemoteStream((streamMissionId, llmOutput, llmThinking) => {
+      if (streamMissionId !== missionId) return;
+      if (!streamingRef.current) {
+        fieldRef.current?.startStream();
+        streamingRef.current = true;
+      }
+      fieldRef.current?.updateStream(llmOutput, llmThinking);
+    });
+  }, [missionId, fieldRef]);
+
+  // Show the committed answer again once the other tab is done
+  useEffect(() => {
+    if (!spectating && streamingRef.current) {
+      fieldRef.current?.cancelStream();
+      streamingRef.current = false;
+    }
+  }, [spectating, fieldRef]);
+
+  return spectating;
+}
@@ -0,0 +1,84 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+
+/** Distance from the bottom that still counts as being at the bottom. */
+const BOTTOM_TOLERANCE_PX = 32;
+
+const isAtBottom = (scroller: HTMLElement) =>
+  scroller.scrollHeight - scroller.scrollTop - scroller.clientHeight <=
+  BOTTOM_TOLERANCE_PX;
+
+/**
+ * Keeps a scrolling element at its bottom while its content grows, e.g. while an answer
+ * streams in. Scrolling up pauses this; scrolling back down, or `jumpToLatest`, resumes it.
+ * Content that grows while paused is reported through `hasNewContent`.
+ *
+ * Growth is noticed through DOM mutations, so it also covers text written into the DOM
+ * directly, like the streamed gamemaster field does. Size changes of the element itself,
+ * e.g. from resizing the split screen, keep it at the bottom as well.
+ *
+ * @param {RefObject<HTMLElement | null>} scrollRef - The scrolling element.
+ * @param {boolean} following - Whether to follow growing content right now.
+ * @returns {object} - `atBottom`, `hasNewContent`, and `jumpToLatest` to scroll to the
+ *   bottom and follow again.
+ */
+export function useStickToBottom(
+  scrollRef: RefObject<HTMLElement | null>,
+  following: boolean,
+) {
+  const [atBottom, setAtBottom] = useState(true);
+  const [hasNewContent, setHasNewContent] = useState(false);
+  // Read by the observers between renders
+  const atBottomRef = useRef(true);
+
+  // Scrolling decides whether to stick, whoever scrolled
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const handleScroll = () => {
+      const bottom = isAtBottom(scroller);
+      atBottomRef.current = bottom;
+      setAtBottom(bottom);
+      if (bottom) setHasNewContent(false);
+    };
+    handleScroll();
+    scroller.addEventListener("scroll", handleScroll, { passive: true });
+    return () => scroller.removeEventListener("scroll", handleScroll);
+  }, [scrollRef]);
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller || !following) return;
+    let lastHeight = scroller.scrollHeight;
+    const handleGrowth = () => {
+      // Other mutations, like the jump button appearing, aren't new content
+      const grew = scroller.scrollHeight > lastHeight;
+      lastHeight = scroller.scrollHeight;
+      if (atBottomRef.current) {
+        scroller.scrollTop = scroller.scrollHeight;
+      } else if (grew) {
+        setHasNewContent(true);
+      }
+    };
+    const mutationObserver = new MutationObserver(handleGrowth);
+    mutationObserver.observe(scroller, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+    });
+    const resizeObserver = new ResizeObserver(handleGrowth);
+    resizeObserver.observe(scroller);
+    return () => {
+      mutationObserver.disconnect();
+      resizeObserver.disconnect();
+    };
+  }, [scrollRef, following]);
+
+  const jumpToLatest = useCallback(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    // Not smooth: content streaming in meanwhile would move the target
+    scroller.scrollTop = scroller.scrollHeight;
+  }, [scrollRef]);
+
+  return { atBottom, hasNewContent, jumpToLatest };
+}
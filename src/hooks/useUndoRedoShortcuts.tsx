@@ -0,0 +1,45 @@
+import { useEffect } from "react";
+
+/**
+ * Whether keyboard focus is in a text input, where Ctrl+Z belongs to the input itself.
+ */
+const isEditingText = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA");
+
+/**
+ * Binds Ctrl+Z (undo) and Ctrl+Shift+Z / Ctrl+Y (redo), or Cmd on macOS, to the given
+ * callbacks. Shortcuts pressed while a text field is focused are left to the field.
+ *
+ * @param {function(): void} onUndo - Called for Ctrl+Z.
+ * @param {function(): void} onRedo - Called for Ctrl+Shift+Z and Ctrl+Y.
+ * @param {boolean} enabled - Whether the shortcuts are active.
+ */
+export function useUndoRedoShortcuts(
+  onUndo: () => void,
+  onRedo: () => void,
+  enabled: boolean,
+): void {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (isEditingText(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        onUndo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        onRedo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onUndo, onRedo, enabled]);
+}
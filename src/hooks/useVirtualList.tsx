@@ -0,0 +1,190 @@
+import {
+  RefObject,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  VirtualLayout,
+  VirtualRange,
+  layoutItems,
+  visibleRange,
+} from "../functions/virtualList";
+
+/**
+ * Options of {@link useVirtualList}.
+ */
+export interface VirtualListOptions {
+  /** Height assumed for items that were never rendered. Defaults to 300 px. */
+  estimatedHeight?: number;
+  /** Pixels rendered beyond the viewport in both directions. Defaults to 1000 px. */
+  overscan?: number;
+}
+
+/**
+ * Distance from the top of `list` to the top of the visible part of `scroller`.
+ */
+const viewportTopOf = (scroller: HTMLElement, list: HTMLElement) =>
+  scroller.getBoundingClientRect().top - list.getBoundingClientRect().top;
+
+/**
+ * Windows a list of items with different heights inside a scrolling element, so that only
+ * the items near the viewport are mounted.
+ *
+ * The list element (`listRef`) is padded with the height of the items that aren't mounted.
+ * Each mounted item must be a direct child of it, carry its id as `data-virtual-id` and pass
+ * `measureItem` as its ref; its height is then measured whenever it changes. When an item
+ * above the viewport changes its height, the scroll position is corrected, so the visible
+ * content doesn't move. The scrolling element should therefore set `overflow-anchor: none`.
+ *
+ * @param {string[]} ids - The item ids, in list order.
+ * @param {RefObject<HTMLElement | null>} scrollRef - The element that scrolls the list.
+ * @param {VirtualListOptions} [options] - Estimated item height and overscan.
+ * @returns {object} - `listRef` for the list element, the `visibleIds` to mount with their
+ *   `start` index, the `paddingTop` and `paddingBottom` of the list, `measureItem` as ref of
+ *   each item, and `scrollToIndex` to center an item that may not be mounted.
+ */
+export function useVirtualList(
+  ids: string[],
+  scrollRef: RefObject<HTMLElement | null>,
+  { estimatedHeight = 300, overscan = 1000 }: VirtualListOptions = {},
+) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [heights, setHeights] = useState(() => new Map<string, number>());
+  const [range, setRange] = useState<VirtualRange>({ start: 0, end: 0 });
+
+  const layout = useMemo(
+    () => layoutItems(ids, heights, estimatedHeight),
+    [ids, heights, estimatedHeight],
+  );
+  // Read by the observers, which outlive single renders
+  const layoutRef = useRef<VirtualLayout>(layout);
+  /** Heights including measurements not rendered yet. */
+  const knownHeightsRef = useRef(heights);
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  const updateRange = useCallback(() => {
+    const scroller = scrollRef.current;
+    const list = listRef.current;
+    if (!scroller || !list) return;
+    const next = visibleRange(
+      layoutRef.current.offsets,
+      viewportTopOf(scroller, list),
+      scroller.clientHeight,
+      overscan,
+    );
+    setRange((current) =>
+      current.start === next.start && current.end === next.end ? current : next,
+    );
+  }, [scrollRef, overscan]);
+
+  /**
+   * Stores new item heights. Growth or shrinkage above the viewport is compensated
+   * right away, since the mounted items have already moved the content below them.
+   */
+  const handleResize = useCallback(
+    (entries: ResizeObserverEntry[]) => {
+      const scroller = scrollRef.current;
+      const list = listRef.current;
+      if (!scroller || !list) return;
+      const current = layoutRef.current;
+      const viewportTop = viewportTopOf(scroller, list);
+
+      const measured = new Map<string, number>();
+      let shift = 0;
+      for (const entry of entries) {
+        const element = entry.target as HTMLElement;
+        const id = element.dataset.virtualId;
+        if (id === undefined) continue;
+        const height =
+          entry.borderBoxSize?.[0]?.blockSize ??
+          element.getBoundingClientRect().height;
+        const index = current.indexById.get(id);
+        if (index === undefined) continue;
+        const previous = knownHeightsRef.current.get(id) ?? estimatedHeight;
+        if (Math.abs(height - previous) < 0.5) continue;
+        measured.set(id, height);
+        if (current.offsets[index] < viewportTop) shift += height - previous;
+      }
+      if (measured.size === 0) return;
+
+      if (shift !== 0) scroller.scrollTop += shift;
+      const next = new Map(knownHeightsRef.current);
+      measured.forEach((height, id) => next.set(id, height));
+      knownHeightsRef.current = next;
+      setHeights(next);
+    },
+    [scrollRef, estimatedHeight],
+  );
+  const handleResizeRef = useRef(handleResize);
+
+  useLayoutEffect(() => {
+    layoutRef.current = layout;
+    handleResizeRef.current = handleResize;
+    updateRange();
+  }, [layout, handleResize, updateRange]);
+
+  // Follow scrolling and size changes of the viewport
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const viewportObserver = new ResizeObserver(updateRange);
+    viewportObserver.observe(scroller);
+    scroller.addEventListener("scroll", updateRange, { passive: true });
+    return () => {
+      viewportObserver.disconnect();
+      scroller.removeEventListener("scroll", updateRange);
+    };
+  }, [scrollRef, updateRange]);
+
+  /**
+   * Ref callback of the mounted items. Items are attached before effects run, so the
+   * observer is created on first use; unmounted items are no longer observed.
+   */
+  const measureItem = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+    observerRef.current ??= new ResizeObserver((entries) =>
+      handleResizeRef.current(entries),
+    );
+    const observer = observerRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  /**
+   * Scrolls the item at `index` to the middle of the viewport. Items that aren't mounted
+   * are placed by their estimated offset and mounted by the resulting scroll.
+   */
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const scroller = scrollRef.current;
+      const list = listRef.current;
+      const { offsets } = layoutRef.current;
+      if (!scroller || !list || index < 0 || index >= offsets.length - 1) {
+        return;
+      }
+      const itemTop = offsets[index] - viewportTopOf(scroller, list);
+      const itemHeight = offsets[index + 1] - offsets[index];
+      scroller.scrollTop += itemTop - (scroller.clientHeight - itemHeight) / 2;
+    },
+    [scrollRef],
+  );
+
+  // The range may still refer to a longer list until the layout effect ran
+  const count = ids.length;
+  const start = Math.min(range.start, count);
+  const end = Math.min(Math.max(range.end, start), count);
+
+  return {
+    listRef,
+    visibleIds: ids.slice(start, end),
+    start,
+    paddingTop: layout.offsets[start],
+    paddingBottom: layout.offsets[count] - layout.offsets[end],
+    measureItem,
+    scrollToIndex,
+  };
+}
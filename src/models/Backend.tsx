@@ -0,0 +1,73 @@
+import { Interaction, MissionLoadData } from "./MissionModels";
+import { CharacterDraft, CharacterProps } from "./CharacterProps";
+import { PlayerInputData } from "./PlayerInputData";
+import { NpcGenerationData } from "./NpcGenerationData";
+import { MissionSearchResult } from "./SearchTypes";
+import {
+  MissionPayload,
+  NewMissionPayload,
+  StreamOutcome,
+} from "./RestInterface";
+
+/**
+ * Every operation the frontend needs from a game backend.
+ *
+ * Components never call an implementation directly but go through the `backend`
+ * instance of {@link module:backend}, which picks one of:
+ * - the HTTP implementation ({@link module:httpBackend}) talking to the real LLM server, or
+ * - the in-browser mock ({@link module:mockBackend}) for offline play, demos and component tests.
+ *
+ * Implementations must honour the same contracts as {@link module:restInterface}: typed
+ * errors from {@link module:httpErrors}, `null` for unknown missions, and a
+ * `setStateCallback` that receives the accumulated (not incremental) stream content.
+ */
+export interface GameBackend {
+  /** Creates a new mission and returns its metadata. */
+  newMission: (payload: NewMissionPayload) => Promise<MissionPayload>;
+  /** Stores the mission under a player-chosen name. */
+  saveMission: (missionId: number, nameCustom: string) => Promise<void>;
+  /** Fetches the metadata of a mission, or `null` if it doesn't exist. */
+  getMission: (missionId: number) => Promise<MissionPayload | null>;
+  /** Lists all missions of the current user. */
+  listMissions: () => Promise<MissionPayload[]>;
+  /** Searches the interactions of all missions of the current user. */
+  searchMissions: (query: string) => Promise<MissionSearchResult[]>;
+  /** Loads a mission including its full interaction history and its characters. */
+  loadMission: (missionId: number) => Promise<MissionLoadData>;
+  /** Lists the party members and NPCs of a mission. */
+  listCharacters: (missionId: number) => Promise<CharacterProps[]>;
+  /** Adds a character to a mission and returns it with its id. */
+  createCharacter: (
+    missionId: number,
+    character: CharacterDraft,
+  ) => Promise<CharacterProps>;
+  /** Replaces the sheet of a character. */
+  updateCharacter: (
+    missionId: number,
+    character: CharacterProps,
+  ) => Promise<void>;
+  /** Removes a character from a mission. */
+  deleteCharacter: (missionId: number, characterId: number) => Promise<void>;
+  /** Streams NPCs fitting the latest exchanges; they are not stored. */
+  generateNpcs: (input: NpcGenerationData) => Promise<StreamOutcome>;
+  /** Streams the gamemaster's answer to a player input (or regenerates the last one). */
+  streamInteraction: (input: PlayerInputData) => Promise<StreamOutcome>;
+  /** Makes the alternative at `branchPath` the active branch of the story. */
+  selectBranch: (missionId: number, branchPath: number[]) => Promise<void>;
+  /** Replaces the texts of the exchange at `branchPath` and marks it as edited. */
+  patchInteraction: (
+    missionId: number,
+    branchPath: number[],
+    patch: Partial<Interaction>,
+  ) => Promise<void>;
+  /** Discards everything after the exchange at `branchPath`, making it the latest one. */
+  rewind: (missionId: number, branchPath: number[]) => Promise<void>;
+  /** Frees a running generation on the server side. */
+  stopGeneration: (missionId: number, requestId: string) => Promise<void>;
+  /** Synthesises speech for `text` as a complete audio file. */
+  textToSpeech: (text: string) => Promise<Blob>;
+  /** Synthesises speech for `text` into an audio element that plays while it loads. */
+  textToSpeechStream: (text: string) => Promise<HTMLAudioElement>;
+  /** Transcribes a recorded audio clip. */
+  speechToText: (audioBlob: Blob) => Promise<string>;
+}
@@ -1,26 +1,206 @@
+import { GameType } from "./Types";
+
+/**
+ * Whether a character belongs to the players' party or is played by the gamemaster.
+ */
+export enum CharacterKind {
+  PARTY = "party",
+  NPC = "npc",
+}
+
+/**
+ * The current and maximum value of a track, e.g. damage taken or sanity left.
+ */
+export interface SheetTrack {
+  current: number;
+  max: number;
+}
+
+/**
+ * The game-system-specific part of a character, grouped by the type of value and keyed
+ * by field. Which fields a sheet has is declared by the {@link CharacterSheetSchema} of
+ * its game type; fields it doesn't declare are kept but not shown.
+ */
+export interface CharacterSheet {
+  /** Groups of named ratings, e.g. `attributes` or `disciplines`. */
+  stats: Record<string, Record<string, number>>;
+  /** E.g. `physical` damage or `sanity`. */
+  tracks: Record<string, SheetTrack>;
+  /** Single ratings, e.g. `armor` or `humanity`. */
+  numbers: Record<string, number>;
+  /** E.g. the `weapon` or the `drive`. */
+  texts: Record<string, string>;
+  /** E.g. `cyberware` or `focuses`. */
+  lists: Record<string, string[]>;
+}
+
 export interface CharacterProps {
   name: string;
   id: number;
+  kind: CharacterKind;
+  /** The game system the sheet follows. */
+  gameType: GameType;
+  race: string;
+  role: string;
+  description: string;
+  sheet: CharacterSheet;
+}
+
+/**
+ * A character that hasn't been stored yet; the backend assigns its `id`.
+ */
+export type CharacterDraft = Omit<CharacterProps, "id">;
+
+/**
+ * An NPC as far as it has been generated; the missing fields are still to come.
+ */
+export interface GeneratedCharacter {
+  name?: string;
+  race?: string;
+  role?: string;
+  description?: string;
+  sheet?: Partial<CharacterSheet>;
+}
+
+/**
+ * A character exported to a file, to be imported into another mission.
+ * @property {string} format - Marks the file as a character, see `CHARACTER_FILE_FORMAT`.
+ * @property {number} version - The version of the file, see `characterFileMigrations`.
+ */
+export interface CharacterFile {
+  format: string;
+  version: number;
+  character: CharacterDraft;
+}
+
+/**
+ * The persisted part of the character store: the roster of the mission the tab shows.
+ * @typedef {object} PersistedCharacterRoster
+ * @property {number | null} missionId - The mission the roster belongs to.
+ * @property {CharacterProps[]} characters - Party members and NPCs, in creation order.
+ */
+export interface PersistedCharacterRoster {
+  missionId: number | null;
+  characters: CharacterProps[];
+}
+
+////////////////////
+// Sheet schemas  //
+////////////////////
+
+/**
+ * Whether a track fills up as things get worse, like damage, or runs out, like sanity.
+ */
+export enum TrackMeaning {
+  DAMAGE = "damage",
+  RESOURCE = "resource",
+}
+
+/**
+ * A group of named ratings, e.g. the attributes.
+ * @property {Record<string, number>} defaults - The ratings a new character starts with.
+ */
+export interface StatGroupField {
+  key: string;
+  label: string;
+  defaults: Record<string, number>;
+  min: number;
+  max: number;
+}
+
+/**
+ * A track; new characters start without damage or with the resource full.
+ */
+export interface TrackField {
+  key: string;
+  label: string;
+  meaning: TrackMeaning;
+  /** The maximum a new character starts with. */
+  max: number;
+}
+
+/**
+ * A single rating within `min` and `max`.
+ */
+export interface NumberField {
+  key: string;
+  label: string;
+  initial: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * A free text or a list of free texts.
+ */
+export interface TextField {
+  key: string;
+  label: string;
+}
+
+/**
+ * The sheet layout of a game system: which fields its characters have, in display order.
+ * @property {string} raceLabel - What the `race` of a character means in this system.
+ * @property {string} roleLabel - What the `role` of a character means in this system.
+ */
+export interface CharacterSheetSchema {
+  raceLabel: string;
+  roleLabel: string;
+  stats: StatGroupField[];
+  tracks: TrackField[];
+  numbers: NumberField[];
+  texts: TextField[];
+  lists: TextField[];
+}
+
+////////////////////
+// Edit mode      //
+////////////////////
+
+/**
+ * A named number of a sheet being edited, e.g. an attribute. `key` identifies the row
+ * while its name is changed; `value` is the text as typed.
+ */
+export interface StatRow {
+  key: number;
+  name: string;
+  value: string;
+}
+
+/**
+ * An entry of a list being edited, e.g. a piece of cyberware.
+ */
+export interface ListRow {
+  key: number;
+  value: string;
+}
+
+/**
+ * A track being edited, with both values as typed.
+ */
+export interface TrackForm {
+  current: string;
+  max: string;
+}
+
+/**
+ * A character sheet in edit mode. Numbers are kept as typed until the sheet is saved,
+ * so invalid input can be shown and corrected instead of being dropped.
+ */
+export interface CharacterForm {
+  name: string;
   race: string;
   role: string;
   description: string;
-  attributes: {
-    [key: string]: number;
-  };
-  skills: {
-    [key: string]: number;
-  };
-  armor: number;
-  weapon: string;
-  cyberware: string[];
-  damage: {
-    physical: {
-      current: number;
-      max: number;
-    };
-    stun: {
-      current: number;
-      max: number;
-    };
-  };
+  stats: Record<string, StatRow[]>;
+  tracks: Record<string, TrackForm>;
+  numbers: Record<string, string>;
+  texts: Record<string, string>;
+  lists: Record<string, ListRow[]>;
 }
+
+/**
+ * Problems of a {@link CharacterForm}, keyed by the path of the field, e.g. `name`,
+ * `stats.attributes.3.name` (by row key) or `tracks.stun.current`.
+ */
+export type CharacterFormErrors = Record<string, string>;
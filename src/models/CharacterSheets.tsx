@@ -0,0 +1,250 @@
+import { CharacterSheetSchema, TrackMeaning } from "./CharacterProps";
+import { GameType } from "./Types";
+
+/**
+ * The character sheet of every game system.
+ *
+ * Field keys are stored with the characters on the backend, so a key must never be renamed;
+ * labels, defaults and limits can change freely. A new field shows up on existing characters
+ * with its default.
+ */
+
+/** Gives each of `names` the rating `value`. */
+const ratings = (names: string[], value: number): Record<string, number> =>
+  Object.fromEntries(names.map((name) => [name, value]));
+
+const shadowrunSheet: CharacterSheetSchema = {
+  raceLabel: "Metatype",
+  roleLabel: "Role",
+  stats: [
+    {
+      key: "attributes",
+      label: "Attributes",
+      defaults: ratings(
+        [
+          "Body",
+          "Agility",
+          "Reaction",
+          "Strength",
+          "Willpower",
+          "Logic",
+          "Intuition",
+          "Charisma",
+        ],
+        1,
+      ),
+      min: 0,
+      max: 12,
+    },
+    { key: "skills", label: "Skills", defaults: {}, min: 0, max: 12 },
+  ],
+  tracks: [
+    {
+      key: "physical",
+      label: "Physical Damage",
+      meaning: TrackMeaning.DAMAGE,
+      max: 10,
+    },
+    {
+      key: "stun",
+      label: "Stun Damage",
+      meaning: TrackMeaning.DAMAGE,
+      max: 10,
+    },
+  ],
+  numbers: [{ key: "armor", label: "Armor", initial: 0, min: 0, max: 99 }],
+  texts: [{ key: "weapon", label: "Weapon" }],
+  lists: [{ key: "cyberware", label: "Cyberware" }],
+};
+
+const vampireSheet: CharacterSheetSchema = {
+  raceLabel: "Clan",
+  roleLabel: "Concept",
+  stats: [
+    {
+      key: "attributes",
+      label: "Attributes",
+      defaults: ratings(
+        [
+          "Strength",
+          "Dexterity",
+          "Stamina",
+          "Charisma",
+          "Manipulation",
+          "Composure",
+          "Intelligence",
+          "Wits",
+          "Resolve",
+        ],
+        1,
+      ),
+      min: 0,
+      max: 5,
+    },
+    { key: "skills", label: "Skills", defaults: {}, min: 0, max: 5 },
+    { key: "disciplines", label: "Disciplines", defaults: {}, min: 0, max: 5 },
+  ],
+  tracks: [
+    {
+      key: "blood_pool",
+      label: "Blood Pool",
+      meaning: TrackMeaning.RESOURCE,
+      max: 10,
+    },
+    {
+      key: "health",
+      label: "Health Damage",
+      meaning: TrackMeaning.DAMAGE,
+      max: 7,
+    },
+  ],
+  numbers: [
+    { key: "humanity", label: "Humanity", initial: 7, min: 0, max: 10 },
+  ],
+  texts: [{ key: "sire", label: "Sire" }],
+  lists: [],
+};
+
+const cthulhuSheet: CharacterSheetSchema = {
+  raceLabel: "Birthplace",
+  roleLabel: "Occupation",
+  stats: [
+    {
+      key: "characteristics",
+      label: "Characteristics",
+      defaults: ratings(
+        ["STR", "CON", "SIZ", "DEX", "APP", "INT", "POW", "EDU"],
+        50,
+      ),
+      min: 0,
+      max: 99,
+    },
+    { key: "skills", label: "Skills", defaults: {}, min: 0, max: 99 },
+  ],
+  tracks: [
+    {
+      key: "hit_points",
+      label: "Hit Points",
+      meaning: TrackMeaning.RESOURCE,
+      max: 10,
+    },
+    {
+      key: "sanity",
+      label: "Sanity",
+      meaning: TrackMeaning.RESOURCE,
+      max: 50,
+    },
+  ],
+  numbers: [{ key: "luck", label: "Luck", initial: 50, min: 0, max: 99 }],
+  texts: [],
+  lists: [{ key: "possessions", label: "Possessions" }],
+};
+
+const seventhSeaSheet: CharacterSheetSchema = {
+  raceLabel: "Nation",
+  roleLabel: "Concept",
+  stats: [
+    {
+      key: "traits",
+      label: "Traits",
+      defaults: ratings(["Brawn", "Finesse", "Resolve", "Wits", "Panache"], 2),
+      min: 1,
+      max: 5,
+    },
+    { key: "skills", label: "Skills", defaults: {}, min: 0, max: 5 },
+  ],
+  tracks: [
+    {
+      key: "wounds",
+      label: "Wounds",
+      meaning: TrackMeaning.DAMAGE,
+      max: 20,
+    },
+  ],
+  numbers: [
+    { key: "hero_points", label: "Hero Points", initial: 1, min: 0, max: 99 },
+  ],
+  texts: [{ key: "arcana", label: "Arcana" }],
+  lists: [{ key: "advantages", label: "Advantages" }],
+};
+
+const expanseSheet: CharacterSheetSchema = {
+  raceLabel: "Origin",
+  roleLabel: "Profession",
+  stats: [
+    {
+      key: "abilities",
+      label: "Abilities",
+      defaults: ratings(
+        [
+          "Accuracy",
+          "Communication",
+          "Constitution",
+          "Dexterity",
+          "Fighting",
+          "Intelligence",
+          "Perception",
+          "Strength",
+          "Willpower",
+        ],
+        0,
+      ),
+      min: -5,
+      max: 10,
+    },
+  ],
+  tracks: [
+    {
+      key: "fortune",
+      label: "Fortune",
+      meaning: TrackMeaning.RESOURCE,
+      max: 15,
+    },
+  ],
+  numbers: [],
+  texts: [{ key: "drive", label: "Drive" }],
+  lists: [
+    { key: "focuses", label: "Focuses" },
+    { key: "talents", label: "Talents" },
+  ],
+};
+
+const customSheet: CharacterSheetSchema = {
+  raceLabel: "Race",
+  roleLabel: "Role",
+  stats: [
+    { key: "attributes", label: "Attributes", defaults: {}, min: 0, max: 99 },
+    { key: "skills", label: "Skills", defaults: {}, min: 0, max: 99 },
+  ],
+  tracks: [
+    {
+      key: "health",
+      label: "Health",
+      meaning: TrackMeaning.RESOURCE,
+      max: 10,
+    },
+  ],
+  numbers: [],
+  texts: [],
+  lists: [{ key: "gear", label: "Gear" }],
+};
+
+const characterSheets: Record<GameType, CharacterSheetSchema> = {
+  [GameType.SHADOWRUN]: shadowrunSheet,
+  [GameType.VAMPIRE_THE_MASQUERADE]: vampireSheet,
+  [GameType.CALL_OF_CTHULHU]: cthulhuSheet,
+  [GameType.SEVENTH_SEA]: seventhSeaSheet,
+  [GameType.EXPANSE]: expanseSheet,
+  [GameType.CUSTOM]: customSheet,
+};
+
+/**
+ * Helper function to get the character sheet layout for a game type
+ * @param gameType The game type to get the sheet for
+ * @returns The sheet schema of the game type
+ */
+export function getSheetSchemaForGameType(
+  gameType: GameType,
+): CharacterSheetSchema {
+  return characterSheets[gameType] ?? shadowrunSheet;
+}
@@ -6,3 +6,76 @@ export interface LoadedHistoryData {
   lastLlmOutput: string;
 }
 
+/**
+ * Lifecycle of the latest gamemaster answer.
+ */
+export enum GenerationStatus {
+  /** No generation running; the answer (if any) is complete. */
+  IDLE = "idle",
+  /** An answer is currently being streamed. */
+  STREAMING = "streaming",
+  /** The player stopped the generation; the answer is partial. */
+  STOPPED = "stopped",
+}
+
+/**
+ * One exchange in the story tree: a player input and the gamemaster's answer to it.
+ * Regenerating an answer or editing a player input adds a sibling instead of overwriting.
+ * @typedef {object} StoryNode
+ * @property {string} id - Client-generated id; the root has {@link ROOT_ID}.
+ * @property {string | null} parentId - The exchange this one continues, `null` for the root.
+ * @property {string} playerInput - The player's input.
+ * @property {string} llmOutput - The gamemaster's answer.
+ * @property {string} llmThinking - The gamemaster's reasoning for the answer.
+ * @property {boolean} [edited] - Whether the player changed the exchange by hand.
+ * @property {string[]} childIds - Alternative continuations, in creation order.
+ * @property {string | null} activeChildId - The continuation on the active path.
+ */
+export interface StoryNode {
+  id: string;
+  parentId: string | null;
+  playerInput: string;
+  llmOutput: string;
+  llmThinking: string;
+  edited?: boolean;
+  childIds: string[];
+  activeChildId: string | null;
+}
+
+/**
+ * All exchanges of a mission by id, below a virtual, empty root node.
+ */
+export type StoryTree = Record<string, StoryNode>;
+
+/**
+ * Id of the virtual root node every story tree starts with.
+ * @constant
+ */
+export const ROOT_ID = "root";
+
+/**
+ * A state of the history that undo/redo can return to.
+ * Trees are immutable, so consecutive entries share all unchanged nodes.
+ * @typedef {object} UndoEntry
+ * @property {StoryTree} nodes - The story tree.
+ * @property {GenerationStatus} generationStatus - Status of the latest answer.
+ */
+export interface UndoEntry {
+  nodes: StoryTree;
+  generationStatus: GenerationStatus;
+}
+
+/**
+ * The part of the history store that is cached per mission.
+ * @typedef {object} PersistedHistory
+ * @property {number | null} missionId - The mission the history belongs to.
+ * @property {StoryTree} nodes - The story tree.
+ * @property {GenerationStatus} generationStatus - Status of the latest answer.
+ * @property {string} playerInput - The unsent player input.
+ */
+export interface PersistedHistory {
+  missionId: number | null;
+  nodes: StoryTree;
+  generationStatus: GenerationStatus;
+  playerInput: string;
+}
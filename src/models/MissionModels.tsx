@@ -1,4 +1,5 @@
 import { GameType } from "./Types";
+import { CharacterProps } from "./CharacterProps";
 
 export interface Mission {
   missionId: number;
@@ -11,6 +12,10 @@ export interface Mission {
 export type Interaction = {
   playerInput: string;
   llmOutput: string;
+  /** The gamemaster's reasoning for the answer; missing if the backend didn't keep it. */
+  llmThinking?: string;
+  /** Whether the player changed the exchange by hand after it was generated. */
+  edited?: boolean;
 };
 
 /**
@@ -18,8 +23,10 @@ export type Interaction = {
  * @typedef {object} MissionLoadData
  * @property {Mission} mission - Mission metadata.
  * @property {Interaction[]} interactions - List of structured interactions.
+ * @property {CharacterProps[]} characters - The mission's party members and NPCs.
  */
 export type MissionLoadData = {
   mission: Mission;
   interactions: Interaction[];
+  characters: CharacterProps[];
 };
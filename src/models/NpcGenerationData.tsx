@@ -0,0 +1,17 @@
+import { CharacterDraft } from "./CharacterProps";
+import { Interaction } from "./MissionModels";
+import { GameType } from "./Types";
+
+export interface NpcGenerationData {
+  missionId: number;
+  /** The game system whose sheet the NPCs follow. */
+  gameType: GameType;
+  /** How many NPCs to generate. */
+  count: number;
+  /** The latest exchanges of the active branch, oldest first; the NPCs fit into this scene. */
+  interactions: Interaction[];
+  /** Stops the generation; the NPCs received so far are kept. */
+  signal?: AbortSignal;
+  /** Receives all NPCs generated so far, each as complete as it is yet. */
+  setStateCallback: (npcs: CharacterDraft[]) => void;
+}
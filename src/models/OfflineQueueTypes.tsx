@@ -0,0 +1,56 @@
+/**
+ * State of a player turn waiting in the offline queue.
+ */
+export enum QueuedTurnStatus {
+  /** Waiting for the backend to become reachable. */
+  PENDING = "pending",
+  /** Currently being sent. */
+  REPLAYING = "replaying",
+  /** The mission changed on the server since the turn was queued; needs a decision. */
+  CONFLICT = "conflict",
+  /** The backend was reached but refused the turn; waits for the player to retry or discard it. */
+  FAILED = "failed",
+}
+
+/**
+ * The mission history a queued turn was written against, used to detect conflicts on replay.
+ * @typedef {object} QueuedTurnBase
+ * @property {number} interactionCount - Number of exchanges, including the latest one.
+ * @property {string} lastPlayerInput - Player input of the latest exchange.
+ */
+export interface QueuedTurnBase {
+  interactionCount: number;
+  lastPlayerInput: string;
+}
+
+/**
+ * A player turn that couldn't be sent because the backend was unreachable.
+ * @typedef {object} QueuedTurn
+ * @property {string} id - Client-generated id.
+ * @property {number} missionId - The mission the turn belongs to.
+ * @property {string} playerInput - The text the player sent.
+ * @property {number} queuedAt - Time of queueing, in ms since the epoch.
+ * @property {QueuedTurnBase} base - Mission history at the time of queueing.
+ * @property {QueuedTurnStatus} status - Current state in the queue.
+ * @property {boolean} [force] - Replay even if the server history differs from `base`.
+ * @property {string} [error] - Why the last replay failed, for {@link QueuedTurnStatus.FAILED}.
+ */
+export interface QueuedTurn {
+  id: string;
+  missionId: number;
+  playerInput: string;
+  queuedAt: number;
+  base: QueuedTurnBase;
+  status: QueuedTurnStatus;
+  force?: boolean;
+  error?: string;
+}
+
+/**
+ * The persisted part of the offline queue.
+ * @typedef {object} PersistedOfflineQueue
+ * @property {QueuedTurn[]} turns - Queued turns in sending order.
+ */
+export interface PersistedOfflineQueue {
+  turns: QueuedTurn[];
+}
@@ -0,0 +1,219 @@
+import {
+  Schema,
+  array,
+  boolean,
+  enumValue,
+  nullable,
+  number,
+  object,
+  optional,
+  record,
+  string,
+} from "../functions/schema";
+import {
+  Migration,
+  VersionedState,
+  versionedState,
+} from "../functions/persistMigrations";
+import { createLinearTree, createStoryTree } from "../functions/storyTree";
+import { characterWithShadowrunSheet } from "../functions/characters";
+import {
+  GenerationStatus,
+  PersistedHistory,
+  ROOT_ID,
+  StoryNode,
+  StoryTree,
+} from "./HistoryTypes";
+import { Interaction } from "./MissionModels";
+import {
+  PersistedOfflineQueue,
+  QueuedTurn,
+  QueuedTurnStatus,
+} from "./OfflineQueueTypes";
+import { PersistedAppState } from "./PersistenceTypes";
+import {
+  CharacterDraft,
+  CharacterKind,
+  CharacterProps,
+  PersistedCharacterRoster,
+} from "./CharacterProps";
+import { GameType } from "./Types";
+
+/**
+ * Versions of the state the stores keep in the browser.
+ *
+ * A new field only needs a schema entry with a sensible default. To rename, move or restructure
+ * persisted fields, append a migration from the current version to the store's list and adapt
+ * the schema; never edit a migration that has been released. Migrations receive state of
+ * exactly their version and should only reshape it; the schema fills in defaults.
+ */
+
+////////////////////
+// App store      //
+////////////////////
+
+const appStateSchema: Schema<PersistedAppState> = object({
+  mission: nullable(number()),
+  adventure: string("GamemAIster"),
+  gameType: enumValue(GameType, GameType.SHADOWRUN),
+  showThinking: boolean(true),
+});
+
+/** Version 0 is the unversioned state written before migrations existed. */
+export const appStateMigrations: Migration[] = [];
+
+export const appStatePersistence: VersionedState<PersistedAppState> =
+  versionedState(appStateSchema, appStateMigrations);
+
+////////////////////
+// History store  //
+////////////////////
+
+const storyNodeSchema: Schema<StoryNode> = object({
+  id: string(),
+  parentId: nullable(string()),
+  playerInput: string(),
+  llmOutput: string(),
+  llmThinking: string(),
+  edited: optional(boolean()),
+  childIds: array(string()),
+  activeChildId: nullable(string()),
+});
+
+/** A tree without its root can't be shown; it is replaced by an empty one. */
+const storyTreeSchema: Schema<StoryTree> = {
+  parse: (value, path, issues) => {
+    const tree = record(storyNodeSchema).parse(value, path, issues);
+    if (tree[ROOT_ID]) return tree;
+    issues.push({
+      path: `${path}.${ROOT_ID}`,
+      expected: "root node",
+      received: "nothing",
+    });
+    return createStoryTree();
+  },
+};
+
+const historySchema: Schema<PersistedHistory> = object({
+  missionId: nullable(number()),
+  nodes: storyTreeSchema,
+  generationStatus: enumValue(GenerationStatus, GenerationStatus.IDLE),
+  playerInput: string(),
+});
+
+/**
+ * Version 0 stored only the active path, as past interactions plus the latest exchange
+ * in flat fields. Version 1 stores the story tree with all branches.
+ */
+function historyFromFlatFields(
+  state: Record<string, unknown>,
+): Record<string, unknown> {
+  const interactions = (state.interactions ?? []) as Interaction[];
+  const lastPlayerInput = (state.playerInputOld ?? "") as string;
+  const lastLlmOutput = (state.llmOutput ?? "") as string;
+  const exchanges = interactions.map((interaction) => ({
+    ...interaction,
+    llmThinking: "",
+  }));
+  if (lastPlayerInput || lastLlmOutput) {
+    exchanges.push({
+      playerInput: lastPlayerInput,
+      llmOutput: lastLlmOutput,
+      llmThinking: (state.llmThinking ?? "") as string,
+    });
+  }
+  return {
+    missionId: state.missionId ?? null,
+    nodes: createLinearTree(exchanges),
+    generationStatus: state.generationStatus,
+    playerInput: state.playerInput ?? "",
+  };
+}
+
+export const historyMigrations: Migration[] = [historyFromFlatFields];
+
+export const historyPersistence: VersionedState<PersistedHistory> =
+  versionedState(historySchema, historyMigrations);
+
+////////////////////
+// Offline queue  //
+////////////////////
+
+const queuedTurnSchema: Schema<QueuedTurn> = object({
+  id: string(),
+  missionId: number(),
+  playerInput: string(),
+  queuedAt: number(),
+  base: object({
+    interactionCount: number(),
+    lastPlayerInput: string(),
+  }),
+  status: enumValue(QueuedTurnStatus, QueuedTurnStatus.PENDING),
+  force: optional(boolean()),
+  error: optional(string()),
+});
+
+const offlineQueueSchema: Schema<PersistedOfflineQueue> = object({
+  turns: array(queuedTurnSchema),
+});
+
+/** Version 0 is the unversioned state written before migrations existed. */
+export const offlineQueueMigrations: Migration[] = [];
+
+export const offlineQueuePersistence: VersionedState<PersistedOfflineQueue> =
+  versionedState(offlineQueueSchema, offlineQueueMigrations);
+
+////////////////////
+// Characters     //
+////////////////////
+
+const sheetTrackSchema = object({ current: number(), max: number(10) });
+
+/** The fields of a character besides its `id`, shared with exported character files. */
+const characterDraftShape = {
+  kind: enumValue(CharacterKind, CharacterKind.NPC),
+  gameType: enumValue(GameType, GameType.SHADOWRUN),
+  name: string(),
+  race: string(),
+  role: string(),
+  description: string(),
+  sheet: object({
+    stats: record(record(number())),
+    tracks: record(sheetTrackSchema),
+    numbers: record(number()),
+    texts: record(string()),
+    lists: record(array(string())),
+  }),
+};
+
+export const characterDraftSchema: Schema<CharacterDraft> =
+  object(characterDraftShape);
+
+const characterSchema: Schema<CharacterProps> = object({
+  id: number(),
+  ...characterDraftShape,
+});
+
+const characterRosterSchema: Schema<PersistedCharacterRoster> = object({
+  missionId: nullable(number()),
+  characters: array(characterSchema),
+});
+
+/**
+ * Version 0 stored Shadowrun fields on every character. Version 1 stores the game system
+ * of each character and its fields in a sheet.
+ */
+function rosterWithSheets(
+  state: Record<string, unknown>,
+): Record<string, unknown> {
+  const characters = (state.characters ?? []) as Record<string, unknown>[];
+  return {
+    ...state,
+    characters: characters.map(characterWithShadowrunSheet),
+  };
+}
+
+export const characterRosterMigrations: Migration[] = [rosterWithSheets];
+
+export const characterRosterPersistence: VersionedState<PersistedCharacterRoster> =
+  versionedState(characterRosterSchema, characterRosterMigrations);
@@ -0,0 +1,40 @@
+import { GameType } from "./Types";
+
+/**
+ * The persisted part of the app store.
+ * @typedef {object} PersistedAppState
+ * @property {number | null} mission - The mission the tab shows.
+ * @property {string} adventure - Name of the adventure.
+ * @property {GameType} gameType - Game type of the mission.
+ * @property {boolean} showThinking - Whether the gamemaster's reasoning is shown.
+ */
+export interface PersistedAppState {
+  mission: number | null;
+  adventure: string;
+  gameType: GameType;
+  showThinking: boolean;
+}
+
+/**
+ * Persisted state that couldn't be read and was set aside instead of being loaded.
+ * @typedef {object} QuarantinedState
+ * @property {string} id - Key of the copy in the quarantine.
+ * @property {string} storeName - The `persist` name of the store it belongs to.
+ * @property {string} reason - Why it couldn't be read.
+ * @property {number} quarantinedAt - Time of quarantining, in ms since the epoch.
+ */
+export interface QuarantinedState {
+  id: string;
+  storeName: string;
+  reason: string;
+  quarantinedAt: number;
+}
+
+/**
+ * A {@link QuarantinedState} together with the unreadable value, as kept in IndexedDB.
+ * @typedef {object} QuarantineEntry
+ * @property {unknown} value - The stored value as found, e.g. a JSON string.
+ */
+export interface QuarantineEntry extends QuarantinedState {
+  value: unknown;
+}
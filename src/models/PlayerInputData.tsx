@@ -3,6 +3,14 @@ import { State } from "./RestInterface";
 
 export interface PlayerInputData {
   missionId: number;
+  /** Client-generated id of this generation, used to target stop requests. */
+  requestId: string;
+  /** Aborts the local stream read when the player stops the generation. */
+  signal?: AbortSignal;
+  /** Reconnects and resumes the stream if the connection drops mid-answer. */
+  resumable?: boolean;
+  /** Position of the exchange the answer continues in the story tree, sent as `branch_path`. */
+  branchPath?: number[];
   setStateCallback: (state: State) => void;
   playerInputField?: string;
   prevInteraction?: Interaction;
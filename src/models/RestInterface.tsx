@@ -1,4 +1,9 @@
 import { GameType } from "./Types";
+import {
+  CharacterKind,
+  CharacterSheet,
+  GeneratedCharacter,
+} from "./CharacterProps";
 
 export interface MissionPayload {
   mission_id: number;
@@ -8,25 +13,113 @@ export interface MissionPayload {
   game_type: GameType;
 }
 
+/**
+ * Payload sent to the backend to generate a new mission.
+ * @typedef {object} NewMissionPayload
+ * @property {GameType} game_type - The game system of the mission.
+ * @property {string} background - High-level background of the mission.
+ * @property {string} detailed_background - Optional detailed plot, characters and secrets.
+ * @property {boolean} non_hero_mode - Play as an ordinary person instead of a hero.
+ * @property {boolean} oracle - Let the backend invent hidden plot details.
+ */
+export interface NewMissionPayload {
+  game_type: GameType;
+  background: string;
+  detailed_background: string;
+  non_hero_mode: boolean;
+  oracle: boolean;
+}
+
 export interface MissionLoadPayload {
   mission: MissionPayload;
-  interactions: { user_input: string; llm_output: string }[];
+  interactions: {
+    user_input: string;
+    llm_output: string;
+    llm_thinking?: string;
+    edited?: boolean;
+  }[];
+  /** The mission's character roster; missing from backends without characters. */
+  characters?: CharacterPayload[];
+}
+
+/**
+ * A party member or NPC of a mission.
+ * @typedef {object} CharacterPayload
+ * @property {number} character_id - Backend-assigned id.
+ * @property {number} mission_id - The mission the character belongs to.
+ * @property {CharacterKind} kind - Party member or NPC.
+ * @property {GameType} game_type - The game system the sheet follows.
+ * @property {CharacterSheet} sheet - The game-system-specific values, keyed by field.
+ */
+export interface CharacterPayload {
+  character_id: number;
+  mission_id: number;
+  kind: CharacterKind;
+  game_type: GameType;
+  name: string;
+  race: string;
+  role: string;
+  description: string;
+  sheet: CharacterSheet;
+}
+
+/**
+ * Payload creating a character; the backend assigns the id.
+ */
+export type NewCharacterPayload = Omit<CharacterPayload, "character_id">;
+
+/**
+ * Payload asking the backend to generate NPCs that fit the current scene.
+ * @typedef {object} NpcGenerationPayload
+ * @property {number} mission_id - The mission the NPCs are generated for.
+ * @property {number} count - How many NPCs to generate.
+ * @property {object[]} interactions - The latest exchanges of the active branch, oldest first.
+ */
+export interface NpcGenerationPayload {
+  mission_id: number;
+  count: number;
+  interactions: {
+    user_input: string;
+    llm_output: string;
+  }[];
+}
+
+/**
+ * Line of the NPC generation stream: the NPC at `index` as generated so far.
+ * Later lines for the same index replace it; the stream ends with the body.
+ * @typedef {object} NpcStreamPayload
+ * @property {number} index - Position of the NPC among the generated ones.
+ * @property {GeneratedCharacter} character - Its fields so far, keyed like `CharacterPayload`.
+ */
+export interface NpcStreamPayload {
+  index: number;
+  character: GeneratedCharacter;
 }
 
 /**
  * UI state for streaming LLM outputs.
  * @typedef {object} State
  * @property {string} llmOutput - The current/accumulated LLM output.
+ * @property {string} llmThinking - The current/accumulated LLM reasoning.
+ * @property {boolean} [reconnecting] - True while an interrupted stream waits to be resumed.
  */
 export interface State {
   llmOutput: string;
   llmThinking: string;
+  reconnecting?: boolean;
 }
 
 /**
  * Payload sent to the backend for a prompt/turn.
  * @typedef {object} PromptPayload
  * @property {number} mission_id - The current mission's numeric ID.
+ * @property {string} request_id - Client-generated id of this generation.
+ * @property {number} [resume_offset] - When resuming an interrupted stream: answer characters
+ *   (Unicode code points) already received.
+ * @property {number} [resume_thinking_offset] - Same as `resume_offset`, for the reasoning text.
+ * @property {number[]} [branch_path] - Position of the exchange the answer continues in the story
+ *   tree, as the sibling index chosen at each level (`[]` for the start of the story).
+ *   A regeneration continues the parent of the exchange it replaces, adding a new alternative.
  * @property {string} [prompt] - The current prompt text.
  * @property {object} [prev_interaction] - Previous exchange context.
  * @property {string} prev_interaction.user_input - Last user input.
@@ -34,9 +127,180 @@ export interface State {
  */
 export interface PromptPayload {
   mission_id: number;
+  request_id: string;
+  resume_offset?: number;
+  resume_thinking_offset?: number;
+  branch_path?: number[];
   prompt?: string;
   prev_interaction?: {
     user_input: string;
     llm_output: string;
   };
 }
+
+/**
+ * Payload identifying the generation the backend should cancel.
+ * @typedef {object} StopGenerationPayload
+ * @property {number} mission_id - The mission the generation belongs to.
+ * @property {string} request_id - The id the generation was started with.
+ */
+export interface StopGenerationPayload {
+  mission_id: number;
+  request_id: string;
+}
+
+/**
+ * Payload selecting the alternative branch the player continues with.
+ * @typedef {object} SelectBranchPayload
+ * @property {number} mission_id - The mission whose story tree is changed.
+ * @property {number[]} branch_path - Sibling index chosen at each level, down to the latest exchange.
+ */
+export interface SelectBranchPayload {
+  mission_id: number;
+  branch_path: number[];
+}
+
+/**
+ * Payload rewinding the story to an earlier exchange.
+ * @typedef {object} RewindPayload
+ * @property {number} mission_id - The mission whose story is rewound.
+ * @property {number[]} branch_path - Sibling index chosen at each level, down to the exchange that becomes the latest one.
+ */
+export interface RewindPayload {
+  mission_id: number;
+  branch_path: number[];
+}
+
+/**
+ * Payload changing the text of an exchange after it was generated.
+ * Fields that are left out stay unchanged.
+ * @typedef {object} InteractionPatchPayload
+ * @property {number} mission_id - The mission the exchange belongs to.
+ * @property {number[]} branch_path - Sibling index chosen at each level, down to the changed exchange.
+ * @property {string} [user_input] - The new player input.
+ * @property {string} [llm_output] - The new gamemaster answer.
+ */
+export interface InteractionPatchPayload {
+  mission_id: number;
+  branch_path: number[];
+  user_input?: string;
+  llm_output?: string;
+}
+
+/**
+ * One match of a search over the interactions of all missions.
+ * @typedef {object} MissionSearchPayload
+ * @property {number} mission_id - The mission containing the match.
+ * @property {number} interaction_index - Position of the exchange on the mission's active branch.
+ * @property {"user_input" | "llm_output"} field - The text of the exchange containing the match.
+ * @property {string} snippet - An excerpt of that text around the match.
+ */
+export interface MissionSearchPayload {
+  mission_id: number;
+  interaction_index: number;
+  field: "user_input" | "llm_output";
+  snippet: string;
+}
+
+/**
+ * How a streamed generation ended.
+ */
+export enum StreamOutcome {
+  /** The backend closed the stream after the full answer. */
+  COMPLETED = "completed",
+  /** The player stopped the generation; the output is partial. */
+  STOPPED = "stopped",
+}
+
+/**
+ * Reasoning fragment emitted by the LLM before/while it writes the answer.
+ * @typedef {object} ThinkingStreamEvent
+ * @property {"thinking"} type - Event discriminator.
+ * @property {string} content - Thinking text to append.
+ */
+export interface ThinkingStreamEvent {
+  type: "thinking";
+  content: string;
+}
+
+/**
+ * Answer fragment emitted by the LLM.
+ * @typedef {object} TextStreamEvent
+ * @property {"text"} type - Event discriminator.
+ * @property {string} content - Answer text to append.
+ */
+export interface TextStreamEvent {
+  type: "text";
+  content: string;
+}
+
+/**
+ * Sent first on a resumed stream: the following `text`/`thinking` events continue at these
+ * offsets (in Unicode code points). Lets the backend either continue where the client left
+ * off or replay from an earlier point, e.g. `0` for a full replay.
+ * @typedef {object} ResumeStreamEvent
+ * @property {"resume"} type - Event discriminator.
+ * @property {number} offset - Answer offset the next `text` event continues at.
+ * @property {number} thinkingOffset - Reasoning offset the next `thinking` event continues at.
+ */
+export interface ResumeStreamEvent {
+  type: "resume";
+  offset: number;
+  thinkingOffset: number;
+}
+
+/**
+ * Any event whose `type` the client does not understand (yet).
+ * Kept instead of dropped so newer backends don't break older clients.
+ * @typedef {object} UnknownStreamEvent
+ * @property {"unknown"} type - Event discriminator.
+ * @property {string} originalType - The `type` field as sent by the backend.
+ * @property {Record<string, unknown>} payload - The raw decoded JSON object.
+ */
+export interface UnknownStreamEvent {
+  type: "unknown";
+  originalType: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * A single decoded event of the interaction stream, whatever its transport.
+ */
+export type StreamEvent =
+  | ThinkingStreamEvent
+  | TextStreamEvent
+  | ResumeStreamEvent
+  | UnknownStreamEvent;
+
+/**
+ * Wire protocol used to receive the interaction stream.
+ */
+export enum StreamTransportType {
+  /** Newline-delimited JSON in the body of the POST response. */
+  NDJSON = "ndjson",
+  /** POST to start the generation, then subscribe to it via `EventSource`. */
+  SSE = "sse",
+  /** A WebSocket carrying the prompt and the events of one generation. */
+  WEBSOCKET = "websocket",
+}
+
+/**
+ * Response of `/interaction/gamemaster-start`, identifying the generation to subscribe to.
+ * @typedef {object} StreamStartPayload
+ * @property {string} stream_id - Id of the event stream at `/interaction/gamemaster-events/{stream_id}`.
+ */
+export interface StreamStartPayload {
+  stream_id: string;
+}
+
+/**
+ * Control message ending an SSE or WebSocket stream, which have no end-of-body.
+ * `done` marks a completed answer, `error` a failure on the server side.
+ * @typedef {object} StreamControlPayload
+ * @property {"done" | "error"} type - Message discriminator.
+ * @property {string} [detail] - Error description, for `error`.
+ */
+export interface StreamControlPayload {
+  type: "done" | "error";
+  detail?: string;
+}
@@ -0,0 +1,136 @@
+import {
+  Schema,
+  array,
+  boolean,
+  enumValue,
+  number,
+  object,
+  optional,
+  record,
+  string,
+} from "../functions/schema";
+import {
+  CharacterPayload,
+  MissionLoadPayload,
+  MissionPayload,
+  MissionSearchPayload,
+  NpcStreamPayload,
+  StreamStartPayload,
+} from "./RestInterface";
+import { GameType } from "./Types";
+import { CharacterKind } from "./CharacterProps";
+
+/**
+ * Runtime schemas for every payload received from the backend.
+ * Each schema is typed against its interface in `RestInterface`, so the two can't drift apart.
+ */
+
+export const missionPayloadSchema: Schema<MissionPayload> = object({
+  mission_id: number(),
+  name: string(),
+  name_custom: optional(string()),
+  description: string(),
+  game_type: enumValue(GameType, GameType.CUSTOM),
+});
+
+export const missionListPayloadSchema: Schema<MissionPayload[]> =
+  array(missionPayloadSchema);
+
+const sheetTrackSchema = object({ current: number(), max: number(10) });
+
+export const characterPayloadSchema: Schema<CharacterPayload> = object({
+  character_id: number(),
+  mission_id: number(),
+  kind: enumValue(CharacterKind, CharacterKind.NPC),
+  game_type: enumValue(GameType, GameType.SHADOWRUN),
+  name: string(),
+  race: string(),
+  role: string(),
+  description: string(),
+  sheet: object({
+    stats: record(record(number())),
+    tracks: record(sheetTrackSchema),
+    numbers: record(number()),
+    texts: record(string()),
+    lists: record(array(string())),
+  }),
+});
+
+export const npcStreamPayloadSchema: Schema<NpcStreamPayload> = object({
+  index: number(),
+  character: object({
+    name: optional(string()),
+    race: optional(string()),
+    role: optional(string()),
+    description: optional(string()),
+    sheet: optional(
+      object({
+        stats: optional(record(record(number()))),
+        tracks: optional(record(sheetTrackSchema)),
+        numbers: optional(record(number())),
+        texts: optional(record(string())),
+        lists: optional(record(array(string()))),
+      }),
+    ),
+  }),
+});
+
+export const characterListPayloadSchema: Schema<CharacterPayload[]> = array(
+  characterPayloadSchema,
+);
+
+export const missionLoadPayloadSchema: Schema<MissionLoadPayload> = object({
+  mission: missionPayloadSchema,
+  interactions: array(
+    object({
+      user_input: string(),
+      llm_output: string(),
+      llm_thinking: optional(string()),
+      edited: optional(boolean()),
+    }),
+  ),
+  characters: optional(array(characterPayloadSchema)),
+});
+
+export const missionSearchPayloadSchema: Schema<MissionSearchPayload[]> = array(
+  object({
+    mission_id: number(),
+    interaction_index: number(),
+    field: enumValue(
+      { USER_INPUT: "user_input", LLM_OUTPUT: "llm_output" },
+      "llm_output",
+    ),
+    snippet: string(),
+  }),
+);
+
+export const speechToTextPayloadSchema: Schema<{ text: string }> = object({
+  text: string(),
+});
+
+export const streamStartPayloadSchema: Schema<StreamStartPayload> = object({
+  stream_id: string(),
+});
+
+////////////////////
+// Stream events  //
+////////////////////
+
+/** Wire format of `thinking` and `text` events. */
+export const contentEventSchema: Schema<{ content: string }> = object({
+  content: string(),
+});
+
+/** Wire format of `resume` events. */
+export const resumeEventSchema: Schema<{
+  offset: number;
+  thinking_offset?: number;
+}> = object({
+  offset: number(),
+  thinking_offset: optional(number()),
+});
+
+/** Wire format of `error` control messages of SSE and WebSocket streams. */
+export const errorEventSchema: Schema<{ detail?: string }> = object({
+  detail: optional(string()),
+});
@@ -0,0 +1,77 @@
+/**
+ * Which texts of the history a search looks at.
+ */
+export enum SearchScope {
+  /** Player inputs and gamemaster answers. */
+  ALL = "all",
+  /** Player inputs only. */
+  PLAYER = "player",
+  /** Gamemaster answers only. */
+  GAMEMASTER = "gamemaster",
+}
+
+/**
+ * A searchable text of an exchange.
+ */
+export type SearchField = "playerInput" | "llmOutput";
+
+/**
+ * One occurrence of the search query in the history.
+ * @typedef {object} SearchHit
+ * @property {string} nodeId - The exchange containing it.
+ * @property {SearchField} field - The text of the exchange containing it.
+ * @property {number} occurrence - Index of the occurrence within that text.
+ */
+export interface SearchHit {
+  nodeId: string;
+  field: SearchField;
+  occurrence: number;
+}
+
+/**
+ * An occurrence of the search query in a text.
+ * @typedef {object} TextMatch
+ * @property {number} start - Offset of its first character.
+ * @property {number} end - Offset after its last character.
+ */
+export interface TextMatch {
+  start: number;
+  end: number;
+}
+
+/**
+ * What to highlight in a rendered text.
+ * @typedef {object} TextHighlight
+ * @property {string} query - The text to mark, matched case-insensitively.
+ * @property {number | null} activeMatch - Index of the occurrence to emphasise, if any.
+ */
+export interface TextHighlight {
+  query: string;
+  activeMatch: number | null;
+}
+
+/**
+ * A match of the search over all missions.
+ * @typedef {object} MissionSearchResult
+ * @property {number} missionId - The mission containing the match.
+ * @property {number} interactionIndex - Position of the exchange on the mission's active path.
+ * @property {SearchField} field - The text of the exchange containing the match.
+ * @property {string} snippet - An excerpt of that text around the match.
+ */
+export interface MissionSearchResult {
+  missionId: number;
+  interactionIndex: number;
+  field: SearchField;
+  snippet: string;
+}
+
+/**
+ * An exchange the history search should jump to once its mission is shown.
+ * @typedef {object} SearchTarget
+ * @property {number} pathIndex - Position of the exchange on the active path.
+ * @property {SearchField} field - The text containing the match.
+ */
+export interface SearchTarget {
+  pathIndex: number;
+  field: SearchField;
+}
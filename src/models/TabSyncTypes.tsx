@@ -0,0 +1,62 @@
+import { GenerationStatus, StoryTree } from "./HistoryTypes";
+import { GameType } from "./Types";
+
+/**
+ * Kinds of messages exchanged between tabs over the sync channel.
+ */
+export enum TabSyncMessageType {
+  /** A tab started and asks running generations to announce themselves. */
+  HELLO = "hello",
+  /** The mission metadata of a tab changed. */
+  APP_STATE = "app_state",
+  /** The history of a mission changed. */
+  HISTORY_STATE = "history_state",
+  /** A tab is generating an answer for a mission; repeated as a heartbeat. */
+  GENERATION_STARTED = "generation_started",
+  /** The generation of a tab ended. */
+  GENERATION_ENDED = "generation_ended",
+  /** The content streamed so far by a generating tab. */
+  STREAM = "stream",
+}
+
+/**
+ * A message on the sync channel. Every message names the tab that sent it.
+ */
+export type TabSyncMessage = { tabId: string } & (
+  | { type: TabSyncMessageType.HELLO }
+  | {
+      type: TabSyncMessageType.APP_STATE;
+      mission: number | null;
+      adventure: string;
+      gameType: GameType;
+    }
+  | {
+      type: TabSyncMessageType.HISTORY_STATE;
+      missionId: number;
+      nodes: StoryTree;
+      generationStatus: GenerationStatus;
+    }
+  | {
+      type:
+        | TabSyncMessageType.GENERATION_STARTED
+        | TabSyncMessageType.GENERATION_ENDED;
+      missionId: number;
+    }
+  | {
+      type: TabSyncMessageType.STREAM;
+      missionId: number;
+      llmOutput: string;
+      llmThinking: string;
+    }
+);
+
+/**
+ * A generation running in another tab.
+ * @typedef {object} RemoteGeneration
+ * @property {string} tabId - The generating tab.
+ * @property {number} lastSeen - Time of its last heartbeat, in ms since the epoch.
+ */
+export interface RemoteGeneration {
+  tabId: string;
+  lastSeen: number;
+}
@@ -1,6 +1,9 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { GameType } from "../models/Types";
+import { tabStorage } from "../functions/tabStorage";
+import { createVersionedStorage } from "../functions/persistMigrations";
+import { appStatePersistence } from "../models/PersistedSchemas";
 
 interface AppState {
   // Mission state
@@ -8,10 +11,14 @@ interface AppState {
   adventure: string;
   gameType: GameType;
 
+  // Preferences
+  showThinking: boolean;
+
   // Actions
   setMission: (mission: number | null) => void;
   setAdventure: (adventure: string) => void;
   setGameType: (gameType: GameType) => void;
+  setShowThinking: (showThinking: boolean) => void;
   reset: () => void;
 }
 
@@ -22,11 +29,13 @@ const useAppStore = create<AppState>()(
       mission: null,
       adventure: "GamemAIster",
       gameType: GameType.SHADOWRUN,
+      showThinking: true,
 
       // Actions
       setMission: (mission) => set({ mission }),
       setAdventure: (adventure) => set({ adventure }),
       setGameType: (gameType) => set({ gameType }),
+      setShowThinking: (showThinking) => set({ showThinking }),
 
       // Simplified reset - let components handle their own cleanup
       reset: () => {
@@ -38,11 +47,15 @@ const useAppStore = create<AppState>()(
     }),
     {
       name: "app-storage", // localStorage key
+      version: appStatePersistence.version,
+      // Each tab follows its own mission
+      storage: createVersionedStorage(() => tabStorage, appStatePersistence),
       // Only persist the essential state
       partialize: (state) => ({
         mission: state.mission,
         adventure: state.adventure,
         gameType: state.gameType,
+        showThinking: state.showThinking,
       }),
     }
   )
@@ -0,0 +1,103 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { immer } from "zustand/middleware/immer";
+import { CharacterProps } from "../models/CharacterProps";
+import { tabStorage } from "../functions/tabStorage";
+import { createVersionedStorage } from "../functions/persistMigrations";
+import { characterRosterPersistence } from "../models/PersistedSchemas";
+
+type State = {
+  /** The mission the roster belongs to. */
+  missionId: number | null;
+  /** Party members and NPCs, in creation order. */
+  characters: CharacterProps[];
+};
+
+type Action = {
+  // Switches to the roster of another mission, emptying it until it is loaded
+  openRoster: (missionId: number | null) => void;
+  // Replaces the roster with the backend's; ignored if another mission was opened meanwhile
+  replaceRoster: (missionId: number, characters: CharacterProps[]) => void;
+  addCharacter: (character: CharacterProps) => void;
+  updateCharacter: (character: CharacterProps) => void;
+  removeCharacter: (characterId: number) => void;
+  // Puts a removed character back at its position; ignored if another mission was opened meanwhile
+  restoreCharacter: (
+    missionId: number,
+    character: CharacterProps,
+    index: number,
+  ) => void;
+};
+
+/**
+ * The party members and NPCs of the mission shown in this tab, as stored by the backend.
+ * Changes are applied here first and sent by {@link useCharacterRoster}, which reverts them
+ * if the backend refuses. Persisted per tab like the open mission, so a reload keeps it.
+ */
+const useCharacterStore = create<State & Action>()(
+  persist(
+    immer((set) => ({
+      // Initial state
+      missionId: null,
+      characters: [],
+
+      openRoster: (missionId: number | null) =>
+        set((state) => {
+          if (state.missionId === missionId) return;
+          state.missionId = missionId;
+          state.characters = [];
+        }),
+      replaceRoster: (missionId: number, characters: CharacterProps[]) =>
+        set((state) => {
+          if (state.missionId !== missionId) return;
+          state.characters = characters;
+        }),
+      addCharacter: (character: CharacterProps) =>
+        set((state) => {
+          state.characters.push(character);
+        }),
+      updateCharacter: (character: CharacterProps) =>
+        set((state) => {
+          const index = state.characters.findIndex(
+            ({ id }) => id === character.id,
+          );
+          if (index !== -1) state.characters[index] = character;
+        }),
+      removeCharacter: (characterId: number) =>
+        set((state) => {
+          state.characters = state.characters.filter(
+            ({ id }) => id !== characterId,
+          );
+        }),
+      restoreCharacter: (
+        missionId: number,
+        character: CharacterProps,
+        index: number,
+      ) =>
+        set((state) => {
+          if (
+            state.missionId !== missionId ||
+            state.characters.some(({ id }) => id === character.id)
+          ) {
+            return;
+          }
+          state.characters.splice(index, 0, character);
+        }),
+    })),
+    {
+      name: "character-roster",
+      version: characterRosterPersistence.version,
+      // Each tab follows its own mission
+      storage: createVersionedStorage(
+        () => tabStorage,
+        characterRosterPersistence,
+      ),
+      partialize: (state) => ({
+        missionId: state.missionId,
+        characters: state.characters,
+      }),
+    },
+  ),
+);
+
+export default useCharacterStore;
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import useHistoryStore from "./historyStore";
+import { GenerationStatus, ROOT_ID } from "../models/HistoryTypes";
+
+// The mission cache lives in IndexedDB, which Node lacks
+vi.mock("../functions/missionCache", () => ({
+  createMissionStorage: () => ({
+    getItem: () => null,
+    setItem: () => {},
+    removeItem: () => {},
+  }),
+}));
+
+beforeEach(() => {
+  useHistoryStore.getState().loadHistoryData({
+    interactions: [{ playerInput: "Look around", llmOutput: "A door." }],
+    lastPlayerInput: "Open the door",
+    lastLlmThinking: "",
+    lastLlmOutput: "It creaks open.",
+  });
+});
+
+describe("editing the latest player input", () => {
+  it("adds an alternative and keeps the original exchange", () => {
+    const { activePathIds: before, nodes: original } =
+      useHistoryStore.getState();
+    const originalLeafId = before[before.length - 1];
+
+    const { branchPath } = useHistoryStore
+      .getState()
+      .startAlternative("Kick the door");
+
+    const { nodes, activePathIds, playerInputOld, generationStatus } =
+      useHistoryStore.getState();
+    const leaf = nodes[activePathIds[activePathIds.length - 1]];
+    expect(leaf.id).not.toBe(originalLeafId);
+    expect(playerInputOld).toBe("Kick the door");
+    expect(generationStatus).toBe(GenerationStatus.STREAMING);
+    expect(nodes[leaf.parentId ?? ROOT_ID].childIds).toEqual([
+      originalLeafId,
+      leaf.id,
+    ]);
+    expect(nodes[originalLeafId]).toEqual(original[originalLeafId]);
+    // The alternative continues the exchange before it
+    expect(branchPath).toEqual([0]);
+  });
+});
+
+describe("streaming into the latest exchange", () => {
+  it("updates the answer without rebuilding the earlier exchanges", () => {
+    const { interactions, activePathIds } = useHistoryStore.getState();
+
+    useHistoryStore.getState().updateLlmOutput("It creaks open slowly");
+    useHistoryStore.getState().updateLlmThinking("Tension");
+
+    const state = useHistoryStore.getState();
+    expect(state.interactions).toBe(interactions);
+    expect(state.activePathIds).toBe(activePathIds);
+    expect(state.llmOutput).toBe("It creaks open slowly");
+    expect(state.llmThinking).toBe("Tension");
+    expect(state.nodes[activePathIds[activePathIds.length - 1]]).toMatchObject({
+      llmOutput: "It creaks open slowly",
+      llmThinking: "Tension",
+    });
+  });
+});
+
+describe("restoring a refused rewind", () => {
+  it("shows the rewound exchanges again and keeps the draft", () => {
+    const { activePathIds, nodes: original } = useHistoryStore.getState();
+    const { originalState } = useHistoryStore
+      .getState()
+      .rewindTo(activePathIds[0]);
+    useHistoryStore.getState().updatePlayerInput("Typed after the rewind");
+
+    useHistoryStore.getState().restoreRewoundBranches(originalState.nodes);
+
+    const state = useHistoryStore.getState();
+    expect(state.activePathIds).toEqual(activePathIds);
+    expect(state.nodes[activePathIds[1]]).toEqual(original[activePathIds[1]]);
+    expect(state.llmOutput).toBe("It creaks open.");
+    expect(state.playerInput).toBe("Typed after the rewind");
+  });
+});
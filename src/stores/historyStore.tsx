@@ -1,26 +1,60 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { immer } from "zustand/middleware/immer";
+import { produce } from "immer";
 import { Interaction } from "../models/MissionModels";
+import {
+  GenerationStatus,
+  PersistedHistory,
+  ROOT_ID,
+  StoryTree,
+  UndoEntry,
+} from "../models/HistoryTypes";
+import {
+  appendChild,
+  createLinearTree,
+  createStoryTree,
+  flattenActivePath,
+  getActivePath,
+  getBranchPath,
+  pruneBelow,
+  withMissingBranches,
+  selectNode,
+} from "../functions/storyTree";
+import { createMissionStorage } from "../functions/missionCache";
+import { withVersionedState } from "../functions/persistMigrations";
+import { historyPersistence } from "../models/PersistedSchemas";
+import useAppStore from "./appStore";
 
 type State = {
   // Persisted state
+  /** The mission the history belongs to; also the key of its cache entry. */
+  missionId: number | null;
+  nodes: StoryTree;
+  generationStatus: GenerationStatus;
+
+  // Derived from the active path of `nodes` (see flattenActivePath)
   interactions: Interaction[];
   playerInputOld: string;
   llmThinking: string;
   llmOutput: string;
+  activePathIds: string[];
 
   // Transient state (not persisted)
   playerInput: string;
+  /** Older states for undo, oldest first; at most {@link MAX_UNDO_STEPS}. */
+  past: UndoEntry[];
+  /** States that were undone, most recently undone last. */
+  future: UndoEntry[];
 };
 
 type Action = {
   // Actions grouped by functionality
   // Input management
   updatePlayerInput: (value: string) => void;
-  updatePlayerInputOld: (value: string) => void;
   updateLlmThinking: (value: string) => void;
   updateLlmOutput: (value: string) => void;
+  setGenerationStatus: (status: GenerationStatus) => void;
 
   // History management
   addInteraction: (interaction: Interaction) => void;
@@ -29,73 +63,315 @@ type Action = {
     lastPlayerInput: string;
     lastLlmThinking: string;
     lastLlmOutput: string;
+    lastEdited?: boolean;
   }) => void;
   clearHistory: () => void;
+  openMission: (missionId: number | null) => Promise<boolean>;
+  applyRemoteHistory: (
+    nodes: StoryTree,
+    generationStatus: GenerationStatus,
+  ) => void;
+  editInteraction: (
+    nodeId: string,
+    patch: Partial<Interaction>,
+  ) => { originalState: HistorySnapshot; branchPath: number[] };
+
+  // Story tree
+  selectBranch: (nodeId: string) => number[];
+  rewindTo: (nodeId: string) => {
+    originalState: HistorySnapshot;
+    branchPath: number[];
+  };
+  restoreRewoundBranches: (nodes: StoryTree) => void;
 
   // Complex state transitions
   performOptimisticUpdate: (newPlayerInput: string) => {
     originalState: HistorySnapshot;
     prevInteractionContext?: Interaction;
+    branchPath: number[];
+  };
+  startAlternative: (playerInput: string) => {
+    originalState: HistorySnapshot;
+    branchPath: number[];
   };
   rollbackOptimisticUpdate: (snapshot: HistorySnapshot) => void;
-  commitPlayerInput: (
-    playerInput: string,
-    llmThinking: string,
-    llmOutput: string,
-  ) => void;
+  commitStoppedGeneration: (llmOutput: string, llmThinking: string) => void;
+
+  // Undo/redo
+  undo: () => UndoResult | null;
+  redo: () => UndoResult | null;
+  forgetUndoBefore: (nodes: StoryTree) => void;
 };
 
-interface HistorySnapshot {
+export interface HistorySnapshot {
   playerInput: string;
-  playerInputOld: string;
-  llmThinking: string;
-  llmOutput: string;
-  interactions: Interaction[];
+  generationStatus: GenerationStatus;
+  nodes: StoryTree;
 }
 
+/**
+ * What an undo or redo changed, so that the caller can bring the backend in line.
+ * @property {StoryTree} before - The tree shown before.
+ * @property {StoryTree} after - The restored tree.
+ */
+export interface UndoResult {
+  before: StoryTree;
+  after: StoryTree;
+}
+
+/** Undo depth; older states are dropped. */
+const MAX_UNDO_STEPS = 50;
+
+/**
+ * Captures the undoable part of a committed (non-draft) state.
+ */
+const captureUndoEntry = (state: State): UndoEntry => ({
+  nodes: state.nodes,
+  // A stream isn't restored by undo; whatever arrived is partial
+  generationStatus:
+    state.generationStatus === GenerationStatus.STREAMING
+      ? GenerationStatus.STOPPED
+      : state.generationStatus,
+});
+
+/**
+ * Records `entry` as the state before a user-visible change; a new change discards the redo states.
+ */
+const pushUndo = (state: State, entry: UndoEntry) => {
+  state.past.push(entry);
+  if (state.past.length > MAX_UNDO_STEPS) state.past.shift();
+  state.future = [];
+};
+
+/**
+ * Refreshes the derived flat fields after `state.nodes` changed.
+ */
+const syncActivePath = (state: State) =>
+  Object.assign(state, flattenActivePath(state.nodes));
+
+/**
+ * The latest exchange on the active path; the root if the story is empty.
+ */
+const activeLeaf = (state: State) =>
+  state.nodes[state.activePathIds[state.activePathIds.length - 1] ?? ROOT_ID];
+
+/**
+ * Refreshes the derived answer fields after only the latest exchange changed, e.g. per streamed
+ * token. Unlike {@link syncActivePath} it doesn't walk the path.
+ */
+const syncActiveLeaf = (state: State) => {
+  const leaf = activeLeaf(state);
+  state.llmOutput = leaf.llmOutput;
+  state.llmThinking = leaf.llmThinking;
+};
+
+/**
+ * Shows the tree of `entry`. Exchanges only the shown tree has are kept as alternatives,
+ * since the backend stored them already.
+ */
+const applyUndoEntry = (state: State, entry: UndoEntry, shown: StoryTree) => {
+  state.nodes = withMissingBranches(entry.nodes, shown);
+  state.generationStatus = entry.generationStatus;
+  syncActivePath(state);
+};
+
+/**
+ * The mission whose cache entry the next hydration reads: at startup the tab's mission,
+ * later the one passed to `openMission`.
+ */
+let missionToOpen = useAppStore.getState().mission;
+
+const initialTree = createStoryTree();
+
 const useHistoryStore = create<State & Action>()(
   persist(
     immer((set, get) => ({
       // Initial state
-      interactions: [],
-      playerInputOld: "",
-      llmThinking: "",
-      llmOutput: "",
+      missionId: null,
+      nodes: initialTree,
+      ...flattenActivePath(initialTree),
+      generationStatus: GenerationStatus.IDLE,
       playerInput: "",
+      past: [],
+      future: [],
 
       // Simple state updates
       updatePlayerInput: (value: string) => set(() => ({ playerInput: value })),
-      updatePlayerInputOld: (value: string) =>
-        set(() => ({ playerInputOld: value })),
-      updateLlmThinking: (value: string) => set(() => ({ llmThinking: value })),
-      updateLlmOutput: (value: string) => set(() => ({ llmOutput: value })),
+      // Corrections of the latest answer are written into its node. An edited player input
+      // gets a new alternative instead, see startAlternative.
+      updateLlmThinking: (value: string) =>
+        set((state) => {
+          const leaf = activeLeaf(state);
+          if (leaf.id === ROOT_ID) return;
+          leaf.llmThinking = value;
+          syncActiveLeaf(state);
+        }),
+      updateLlmOutput: (value: string) =>
+        set((state) => {
+          const leaf = activeLeaf(state);
+          if (leaf.id === ROOT_ID) return;
+          leaf.llmOutput = value;
+          syncActiveLeaf(state);
+        }),
+      setGenerationStatus: (status: GenerationStatus) =>
+        set(() => ({ generationStatus: status })),
 
       // History management
       addInteraction: (interaction: Interaction) =>
         set((state) => {
-          state.interactions.push(interaction); // So much simpler!
+          appendChild(state.nodes, activeLeaf(state).id, {
+            ...interaction,
+            llmThinking: interaction.llmThinking ?? "",
+          });
+          syncActivePath(state);
         }),
       loadHistoryData: (data: {
         interactions: Interaction[];
         lastPlayerInput: string;
         lastLlmThinking: string;
         lastLlmOutput: string;
-      }) =>
-        set(() => ({
-          interactions: data.interactions,
-          playerInputOld: data.lastPlayerInput,
-          llmThinking: data.lastLlmThinking,
-          llmOutput: data.lastLlmOutput,
-          playerInput: "",
-        })),
-      clearHistory: () =>
-        set(() => ({
-          interactions: [],
-          playerInputOld: "",
-          llmThinking: "",
-          llmOutput: "",
-          playerInput: "",
-        })),
+        lastEdited?: boolean;
+      }) => {
+        const entry = captureUndoEntry(get());
+        set((state) => {
+          // Replacing an empty story isn't worth an undo step
+          if (state.activePathIds.length > 0) pushUndo(state, entry);
+          const exchanges = data.interactions.map((interaction) => ({
+            ...interaction,
+            llmThinking: interaction.llmThinking ?? "",
+          }));
+          if (data.lastPlayerInput || data.lastLlmOutput) {
+            exchanges.push({
+              playerInput: data.lastPlayerInput,
+              llmOutput: data.lastLlmOutput,
+              llmThinking: data.lastLlmThinking,
+              edited: data.lastEdited,
+            });
+          }
+          state.nodes = createLinearTree(exchanges);
+          state.generationStatus = GenerationStatus.IDLE;
+          state.playerInput = "";
+          syncActivePath(state);
+        });
+      },
+      // Takes over the history of another tab on the same mission. Local undo steps could
+      // revert the other tab's changes, so they are dropped.
+      applyRemoteHistory: (
+        nodes: StoryTree,
+        generationStatus: GenerationStatus,
+      ) =>
+        set((state) => {
+          state.nodes = nodes;
+          state.generationStatus = generationStatus;
+          state.past = [];
+          state.future = [];
+          syncActivePath(state);
+        }),
+      // Shows the locally cached history of a mission, or an empty one if there is none.
+      // Resolves whether the cache had it; the caller refreshes it from the backend either way.
+      openMission: async (missionId: number | null) => {
+        missionToOpen = missionId;
+        if (missionId !== null) {
+          await useHistoryStore.persist.rehydrate();
+          if (get().missionId === missionId) return true;
+        }
+        set((state) => {
+          state.missionId = missionId;
+          state.nodes = createStoryTree();
+          state.generationStatus = GenerationStatus.IDLE;
+          state.playerInput = "";
+          state.past = [];
+          state.future = [];
+          syncActivePath(state);
+        });
+        return false;
+      },
+      clearHistory: () => {
+        const entry = captureUndoEntry(get());
+        set((state) => {
+          if (state.activePathIds.length > 0) pushUndo(state, entry);
+          state.nodes = createStoryTree();
+          state.generationStatus = GenerationStatus.IDLE;
+          state.playerInput = "";
+          syncActivePath(state);
+        });
+      },
+
+      // Changes the texts of any exchange by hand; the snapshot allows reverting a failed sync
+      editInteraction: (nodeId: string, patch: Partial<Interaction>) => {
+        const currentState = get();
+        const originalState: HistorySnapshot = {
+          playerInput: currentState.playerInput,
+          generationStatus: currentState.generationStatus,
+          nodes: currentState.nodes,
+        };
+
+        set((state) => {
+          pushUndo(state, captureUndoEntry(currentState));
+          const node = state.nodes[nodeId];
+          node.playerInput = patch.playerInput ?? node.playerInput;
+          node.llmOutput = patch.llmOutput ?? node.llmOutput;
+          node.edited = true;
+          syncActivePath(state);
+        });
+
+        return {
+          originalState,
+          branchPath: getBranchPath(currentState.nodes, nodeId),
+        };
+      },
+
+      // Story tree
+      // Shows another alternative of an exchange; returns its branch path for the backend
+      selectBranch: (nodeId: string) => {
+        const entry = captureUndoEntry(get());
+        set((state) => {
+          pushUndo(state, entry);
+          selectNode(state.nodes, nodeId);
+          state.generationStatus = GenerationStatus.IDLE;
+          syncActivePath(state);
+        });
+        const { nodes } = get();
+        const path = getActivePath(nodes);
+        return getBranchPath(nodes, path[path.length - 1]?.id ?? ROOT_ID);
+      },
+
+      // Drops every later exchange so that `nodeId` becomes the editable tail again;
+      // the snapshot allows undoing the rewind
+      rewindTo: (nodeId: string) => {
+        const currentState = get();
+        const originalState: HistorySnapshot = {
+          playerInput: currentState.playerInput,
+          generationStatus: currentState.generationStatus,
+          nodes: currentState.nodes,
+        };
+
+        set((state) => {
+          pushUndo(state, captureUndoEntry(currentState));
+          pruneBelow(state.nodes, nodeId);
+          state.generationStatus = GenerationStatus.IDLE;
+          syncActivePath(state);
+        });
+
+        return {
+          originalState,
+          branchPath: getBranchPath(get().nodes, nodeId),
+        };
+      },
+      // Brings back what a rewind removed, e.g. when the backend refused it, and shows the
+      // story that was active before it. Everything else, like the draft, stays as it is now.
+      restoreRewoundBranches: (nodes: StoryTree) => {
+        const path = getActivePath(nodes);
+        const leafId = path[path.length - 1]?.id ?? ROOT_ID;
+        const restored = produce(
+          withMissingBranches(get().nodes, nodes),
+          (tree) => selectNode(tree, leafId),
+        );
+        set((state) => {
+          state.nodes = restored;
+          syncActivePath(state);
+        });
+      },
 
       // Complex state transitions
       performOptimisticUpdate: (newPlayerInput: string) => {
@@ -104,10 +380,8 @@ const useHistoryStore = create<State & Action>()(
         // Create snapshot for potential rollback
         const originalState: HistorySnapshot = {
           playerInput: newPlayerInput,
-          playerInputOld: currentState.playerInputOld,
-          llmThinking: currentState.llmThinking,
-          llmOutput: currentState.llmOutput,
-          interactions: [...currentState.interactions],
+          generationStatus: currentState.generationStatus,
+          nodes: currentState.nodes,
         };
 
         // Prepare previous interaction context
@@ -124,51 +398,150 @@ const useHistoryStore = create<State & Action>()(
               }
             : undefined;
 
-        // Perform optimistic update
+        const parentId = activeLeaf(currentState).id;
+        const branchPath = getBranchPath(currentState.nodes, parentId);
+
+        // Perform optimistic update: the new exchange continues the latest one
         set((state) => {
+          pushUndo(state, captureUndoEntry(currentState));
           if (prevInteractionContext) {
-            state.interactions.push(prevInteractionContext); // Just push!
+            state.nodes[parentId].llmOutput = prevInteractionContext.llmOutput;
           }
-          state.playerInputOld = newPlayerInput;
-          state.llmThinking = "";
-          state.llmOutput = "";
+          appendChild(state.nodes, parentId, {
+            playerInput: newPlayerInput,
+            llmOutput: "",
+            llmThinking: "",
+          });
+          state.generationStatus = GenerationStatus.STREAMING;
           state.playerInput = "";
+          syncActivePath(state);
         });
 
-        return { originalState, prevInteractionContext };
+        return { originalState, prevInteractionContext, branchPath };
       },
 
-      rollbackOptimisticUpdate: (snapshot: HistorySnapshot) =>
-        set(() => ({
-          playerInput: snapshot.playerInput,
-          playerInputOld: snapshot.playerInputOld,
-          llmThinking: snapshot.llmThinking,
-          llmOutput: snapshot.llmOutput,
-          interactions: snapshot.interactions,
-        })),
-
-      commitPlayerInput: (
-        playerInput: string,
-        llmThinking: string,
-        llmOutput: string,
-      ) =>
-        set(() => ({
-          playerInputOld: playerInput,
-          llmThinking: llmThinking,
-          llmOutput: llmOutput,
-          playerInput: "",
-        })),
+      // Adds a sibling of the latest exchange for a regenerated answer, keeping the old one
+      startAlternative: (playerInput: string) => {
+        const currentState = get();
+        const originalState: HistorySnapshot = {
+          playerInput: currentState.playerInput,
+          generationStatus: currentState.generationStatus,
+          nodes: currentState.nodes,
+        };
+
+        const parentId = activeLeaf(currentState).parentId ?? ROOT_ID;
+        const branchPath = getBranchPath(currentState.nodes, parentId);
+
+        set((state) => {
+          pushUndo(state, captureUndoEntry(currentState));
+          appendChild(state.nodes, parentId, {
+            playerInput,
+            llmOutput: "",
+            llmThinking: "",
+          });
+          state.generationStatus = GenerationStatus.STREAMING;
+          syncActivePath(state);
+        });
+
+        return { originalState, branchPath };
+      },
+
+      // Also forgets the undo step the failed change recorded
+      rollbackOptimisticUpdate: (snapshot: HistorySnapshot) => {
+        const { past } = get();
+        const recorded = past[past.length - 1]?.nodes === snapshot.nodes;
+        set((state) => {
+          if (recorded) state.past.pop();
+          state.nodes = snapshot.nodes;
+          state.playerInput = snapshot.playerInput;
+          state.generationStatus = snapshot.generationStatus;
+          syncActivePath(state);
+        });
+      },
+
+      // Keeps the partial answer of a stopped generation and flags it as such
+      commitStoppedGeneration: (llmOutput: string, llmThinking: string) =>
+        set((state) => {
+          const leaf = activeLeaf(state);
+          leaf.llmOutput = llmOutput;
+          leaf.llmThinking = llmThinking;
+          state.generationStatus = GenerationStatus.STOPPED;
+          syncActiveLeaf(state);
+        }),
+
+      // Undo/redo
+      undo: () => {
+        const current = get();
+        const entry = current.past[current.past.length - 1];
+        if (!entry || current.generationStatus === GenerationStatus.STREAMING) {
+          return null;
+        }
+        set((state) => {
+          state.past.pop();
+          state.future.push(captureUndoEntry(current));
+          applyUndoEntry(state, entry, current.nodes);
+        });
+        return { before: current.nodes, after: get().nodes };
+      },
+      redo: () => {
+        const current = get();
+        const entry = current.future[current.future.length - 1];
+        if (!entry || current.generationStatus === GenerationStatus.STREAMING) {
+          return null;
+        }
+        set((state) => {
+          state.future.pop();
+          state.past.push(captureUndoEntry(current));
+          applyUndoEntry(state, entry, current.nodes);
+        });
+        return { before: current.nodes, after: get().nodes };
+      },
+      // Once the backend discarded exchanges (e.g. after a rewind), older states can't be restored
+      forgetUndoBefore: (nodes: StoryTree) => {
+        const index = get().past.findIndex((entry) => entry.nodes === nodes);
+        if (index === -1) return;
+        set((state) => {
+          state.past.splice(0, index + 1);
+        });
+      },
     })),
     {
       name: "history-storage",
+      version: historyPersistence.version,
+      // One IndexedDB entry per mission, so tabs on different missions don't collide.
+      // Entries of older versions are migrated when a mission is opened.
+      storage: withVersionedState(
+        createMissionStorage<PersistedHistory>(() => missionToOpen),
+        historyPersistence,
+      ),
       // Only persist certain fields
-      partialize: (state) => ({
-        interactions: state.interactions,
-        playerInputOld: state.playerInputOld,
-        llmThinking: state.llmThinking,
-        llmOutput: state.llmOutput,
+      partialize: (state): PersistedHistory => ({
+        missionId: state.missionId,
+        nodes: state.nodes,
+        // A stream can't survive a reload, so whatever arrived is partial
+        generationStatus:
+          state.generationStatus === GenerationStatus.STREAMING
+            ? GenerationStatus.STOPPED
+            : state.generationStatus,
         playerInput: state.playerInput,
       }),
+      // The derived fields aren't persisted; rebuild them from the restored tree.
+      // Undo steps belong to the mission they were recorded in.
+      merge: (persisted, current) => {
+        const restored = persisted as Partial<State> | undefined;
+        if (!restored) {
+          // Nothing cached yet: a tab starting without a history adopts its mission
+          return current.missionId === null
+            ? { ...current, missionId: missionToOpen }
+            : current;
+        }
+        const merged = { ...current, ...restored };
+        if (merged.missionId !== current.missionId) {
+          merged.past = [];
+          merged.future = [];
+        }
+        return { ...merged, ...flattenActivePath(merged.nodes) };
+      },
     },
   ),
 );
@@ -0,0 +1,136 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { immer } from "zustand/middleware/immer";
+import { indexedDbStorage } from "../functions/indexedDb";
+import { createVersionedStorage } from "../functions/persistMigrations";
+import { offlineQueuePersistence } from "../models/PersistedSchemas";
+import {
+  QueuedTurn,
+  QueuedTurnBase,
+  QueuedTurnStatus,
+} from "../models/OfflineQueueTypes";
+
+type State = {
+  // Persisted state
+  turns: QueuedTurn[];
+
+  // Transient state (not persisted)
+  hydrated: boolean;
+};
+
+type Action = {
+  enqueueTurn: (
+    missionId: number,
+    playerInput: string,
+    base: QueuedTurnBase,
+  ) => void;
+  removeTurn: (id: string) => void;
+  setTurnStatus: (id: string, status: QueuedTurnStatus) => void;
+  markFailed: (id: string, error: string) => void;
+  retryTurn: (id: string) => void;
+  // Conflict resolution for all turns of a mission
+  markConflict: (missionId: number) => void;
+  forceReplay: (missionId: number) => void;
+  clearMission: (missionId: number) => void;
+};
+
+/**
+ * Player turns that couldn't reach the backend, in sending order.
+ * Persisted in IndexedDB so they survive reloads until they are replayed or discarded.
+ */
+const useOfflineQueueStore = create<State & Action>()(
+  persist(
+    immer((set) => ({
+      // Initial state
+      turns: [],
+      hydrated: false,
+
+      enqueueTurn: (
+        missionId: number,
+        playerInput: string,
+        base: QueuedTurnBase,
+      ) =>
+        set((state) => {
+          state.turns.push({
+            id: crypto.randomUUID(),
+            missionId,
+            playerInput,
+            queuedAt: Date.now(),
+            base,
+            status: QueuedTurnStatus.PENDING,
+          });
+        }),
+      removeTurn: (id: string) =>
+        set((state) => {
+          state.turns = state.turns.filter((turn) => turn.id !== id);
+        }),
+      setTurnStatus: (id: string, status: QueuedTurnStatus) =>
+        set((state) => {
+          const turn = state.turns.find((candidate) => candidate.id === id);
+          if (turn) turn.status = status;
+        }),
+      markFailed: (id: string, error: string) =>
+        set((state) => {
+          const turn = state.turns.find((candidate) => candidate.id === id);
+          if (!turn) return;
+          turn.status = QueuedTurnStatus.FAILED;
+          turn.error = error;
+        }),
+      retryTurn: (id: string) =>
+        set((state) => {
+          const turn = state.turns.find((candidate) => candidate.id === id);
+          if (!turn) return;
+          turn.status = QueuedTurnStatus.PENDING;
+          delete turn.error;
+        }),
+
+      markConflict: (missionId: number) =>
+        set((state) => {
+          for (const turn of state.turns) {
+            if (turn.missionId === missionId) {
+              turn.status = QueuedTurnStatus.CONFLICT;
+            }
+          }
+        }),
+      forceReplay: (missionId: number) =>
+        set((state) => {
+          for (const turn of state.turns) {
+            if (turn.missionId === missionId) {
+              turn.status = QueuedTurnStatus.PENDING;
+              turn.force = true;
+            }
+          }
+        }),
+      clearMission: (missionId: number) =>
+        set((state) => {
+          state.turns = state.turns.filter(
+            (turn) => turn.missionId !== missionId,
+          );
+        }),
+    })),
+    {
+      name: "offline-queue",
+      version: offlineQueuePersistence.version,
+      storage: createVersionedStorage(
+        () => indexedDbStorage,
+        offlineQueuePersistence,
+      ),
+      partialize: (state) => ({
+        // A replay can't survive a reload; it will simply be retried
+        turns: state.turns.map((turn) =>
+          turn.status === QueuedTurnStatus.REPLAYING
+            ? { ...turn, status: QueuedTurnStatus.PENDING }
+            : turn,
+        ),
+      }),
+      onRehydrateStorage: () => (_state, error) => {
+        if (error) {
+          console.error("Could not restore the offline queue:", error);
+        }
+        useOfflineQueueStore.setState({ hydrated: true });
+      },
+    },
+  ),
+);
+
+export default useOfflineQueueStore;
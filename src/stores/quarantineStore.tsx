@@ -0,0 +1,41 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { QuarantinedState } from "../models/PersistenceTypes";
+
+type State = {
+  /** Set-aside states the player hasn't dealt with yet, oldest first. */
+  entries: QuarantinedState[];
+};
+
+type Action = {
+  addEntries: (entries: QuarantinedState[]) => void;
+  removeEntry: (id: string) => void;
+};
+
+/**
+ * Persisted state that couldn't be restored (see `persistMigrations`). Not persisted itself:
+ * the copies live in IndexedDB and are listed again on startup.
+ */
+const useQuarantineStore = create<State & Action>()(
+  immer((set) => ({
+    // Initial state
+    entries: [],
+
+    // Entries already known, e.g. reported during hydration and listed again, are skipped
+    addEntries: (entries: QuarantinedState[]) =>
+      set((state) => {
+        for (const entry of entries) {
+          if (!state.entries.some((known) => known.id === entry.id)) {
+            state.entries.push(entry);
+          }
+        }
+        state.entries.sort((a, b) => a.quarantinedAt - b.quarantinedAt);
+      }),
+    removeEntry: (id: string) =>
+      set((state) => {
+        state.entries = state.entries.filter((entry) => entry.id !== id);
+      }),
+  })),
+);
+
+export default useQuarantineStore;
@@ -0,0 +1,58 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { SearchScope, SearchTarget } from "../models/SearchTypes";
+
+type State = {
+  /** Whether the search panel is shown. */
+  open: boolean;
+  query: string;
+  scope: SearchScope;
+  /** Index of the hit currently shown, among all hits of the query. */
+  activeIndex: number;
+  /** A hit to jump to as soon as the history shows it, e.g. after opening a mission. */
+  target: SearchTarget | null;
+};
+
+type Action = {
+  openSearch: () => void;
+  closeSearch: () => void;
+  // Changing what is searched starts again at the first hit
+  setQuery: (query: string) => void;
+  setScope: (scope: SearchScope) => void;
+  setActiveIndex: (index: number) => void;
+  // Opens the search on `query` and jumps to the hit at `target`
+  showInHistory: (query: string, target: SearchTarget) => void;
+  clearTarget: () => void;
+};
+
+/**
+ * The search over the current mission's history. Not persisted: a search is a momentary tool.
+ */
+const useSearchStore = create<State & Action>()(
+  immer((set) => ({
+    // Initial state
+    open: false,
+    query: "",
+    scope: SearchScope.ALL,
+    activeIndex: 0,
+    target: null,
+
+    openSearch: () => set(() => ({ open: true })),
+    closeSearch: () =>
+      set(() => ({ open: false, query: "", activeIndex: 0, target: null })),
+    setQuery: (query: string) => set(() => ({ query, activeIndex: 0 })),
+    setScope: (scope: SearchScope) => set(() => ({ scope, activeIndex: 0 })),
+    setActiveIndex: (index: number) => set(() => ({ activeIndex: index })),
+    showInHistory: (query: string, target: SearchTarget) =>
+      set(() => ({
+        open: true,
+        query,
+        scope: SearchScope.ALL,
+        activeIndex: 0,
+        target,
+      })),
+    clearTarget: () => set(() => ({ target: null })),
+  })),
+);
+
+export default useSearchStore;
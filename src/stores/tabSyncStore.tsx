@@ -0,0 +1,48 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { RemoteGeneration } from "../models/TabSyncTypes";
+
+type State = {
+  /** Generations running in other tabs, by mission id. */
+  generating: Record<number, RemoteGeneration>;
+};
+
+type Action = {
+  markGenerating: (missionId: number, tabId: string) => void;
+  clearGenerating: (missionId: number, tabId: string) => void;
+  // Forgets generations whose tab stopped sending heartbeats, e.g. because it crashed
+  expireGenerations: (olderThan: number) => void;
+};
+
+/**
+ * What this tab knows about other tabs. Not persisted: it is rebuilt from the sync channel.
+ */
+const useTabSyncStore = create<State & Action>()(
+  immer((set) => ({
+    // Initial state
+    generating: {},
+
+    markGenerating: (missionId: number, tabId: string) =>
+      set((state) => {
+        state.generating[missionId] = { tabId, lastSeen: Date.now() };
+      }),
+    clearGenerating: (missionId: number, tabId: string) =>
+      set((state) => {
+        if (state.generating[missionId]?.tabId === tabId) {
+          delete state.generating[missionId];
+        }
+      }),
+    expireGenerations: (olderThan: number) =>
+      set((state) => {
+        for (const [missionId, generation] of Object.entries(
+          state.generating,
+        )) {
+          if (generation.lastSeen < olderThan) {
+            delete state.generating[Number(missionId)];
+          }
+        }
+      }),
+  })),
+);
+
+export default useTabSyncStore;
@@ -218,8 +218,8 @@ export function InfoInnerBoxStyle() {
   return { textAlign: "right" };
 }
 
-// Cyberware & skills
-export function CyberwareBoxStyle() {
+// Lists (e.g. cyberware) & skills
+export function ListBoxStyle() {
   return {
     my: 2,
     display: "flex",
@@ -228,7 +228,17 @@ export function CyberwareBoxStyle() {
   };
 }
 
-export const SkillsBoxStyle = CyberwareBoxStyle; // Alias; if future difference, split
+export const SkillsBoxStyle = ListBoxStyle; // Alias; if future difference, split
+
+// Row of fields in the character sheet editor
+export function SheetRowStyle() {
+  return {
+    display: "flex",
+    alignItems: "flex-start",
+    gap: 1,
+    my: 1,
+  };
+}
 
 // Damage grid and component box style
 export function DamageGridStyle() {
@@ -3,4 +3,9 @@
 interface ImportMetaEnv {
   VITE_SSL_ENABLED?: string;
   VITE_BACKEND_URL?: string;
+  VITE_HTTP_TIMEOUT_MS?: string;
+  VITE_BACKEND_MODE?: string;
+  VITE_STREAM_TRANSPORT?: string;
+  VITE_MOCK_BENCHMARK_TURNS?: string;
+  VITE_PROFILE_RENDERS?: string;
 }
\ No newline at end of file